@@ -0,0 +1,18 @@
+import path from 'node:path'
+import os from 'node:os'
+import fs from 'node:fs/promises'
+
+/**
+ * Create a temporary content directory holding the given files, keyed by
+ * their path relative to it, such as `posts/streams.md`
+ */
+export async function createContentDir (files: Record<string, string>): Promise<string> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-content-'))
+
+  for (const [filePath, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(tempDir, filePath)), { recursive: true })
+    await fs.writeFile(path.join(tempDir, filePath), content, 'utf-8')
+  }
+
+  return tempDir
+}
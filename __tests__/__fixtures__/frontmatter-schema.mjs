@@ -0,0 +1,7 @@
+import { z } from 'zod'
+
+export const schema = z.object({
+  title: z.string(),
+  date: z.iso.date(),
+  tags: z.array(z.string()).optional()
+})
@@ -0,0 +1,41 @@
+import path from 'node:path'
+import { spawn } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+
+const cliPath = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'dist', 'bin', 'cli.cjs')
+
+export interface CliResult {
+  code: number | null
+  stdout: string
+  stderr: string
+}
+
+export interface RunCliOptions {
+  /** Directory the CLI runs in (default: the current directory) */
+  cwd?: string
+  /** Variables set over the current environment, undefined ones are removed */
+  env?: NodeJS.ProcessEnv
+  /** Text written to the CLI's stdin, which is closed either way */
+  input?: string
+}
+
+/**
+ * Run the built CLI and collect its exit code and output
+ */
+export async function runCli (args: string[], options: RunCliOptions = {}): Promise<CliResult> {
+  return new Promise((resolve, reject) => {
+    const cliProcess = spawn('node', [cliPath, ...args], {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    })
+
+    let stdout = ''
+    let stderr = ''
+    cliProcess.stdout.on('data', (data) => { stdout += data.toString() })
+    cliProcess.stderr.on('data', (data) => { stderr += data.toString() })
+    cliProcess.on('close', (code) => resolve({ code, stdout, stderr }))
+    cliProcess.on('error', (error) => reject(new Error(`Failed to spawn CLI process: ${error}`)))
+    cliProcess.stdin.end(options.input ?? '')
+  })
+}
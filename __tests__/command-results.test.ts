@@ -0,0 +1,40 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { EXIT_CODES, getExitCode, toCommandError } from '../src/utils/command-results.js'
+import type { FileResult } from '../src/utils/command-results.js'
+import { CodedError, getErrorCode } from '../src/utils/errors.js'
+import { MemoryFileSystem } from '../src/utils/file-system.js'
+
+describe('Command Results', () => {
+  const failed = (code: 'PARSE_ERROR' | 'PROVIDER_ERROR'): FileResult => ({ path: 'a.md', action: 'failed', error: { code, message: 'boom' } })
+
+  test('should get the code of an error from its cause chain', async () => {
+    const parseError = new CodedError('PARSE_ERROR', 'Failed to parse frontmatter: bad')
+    const wrapped = new Error('Failed to update frontmatter: Failed to parse frontmatter: bad', { cause: parseError })
+    const missing = await new MemoryFileSystem().readFile('missing.md').catch((error: unknown) => error)
+
+    assert.strictEqual(getErrorCode(wrapped), 'PARSE_ERROR')
+    assert.strictEqual(getErrorCode(new Error('Failed to read file', { cause: missing })), 'FILE_ERROR')
+    assert.strictEqual(getErrorCode(new Error('Something else')), 'UNKNOWN_ERROR')
+    assert.strictEqual(getErrorCode('not an error'), 'UNKNOWN_ERROR')
+    assert.deepStrictEqual(toCommandError(wrapped), { code: 'PARSE_ERROR', message: wrapped.message })
+  })
+
+  test('should exit with the code of the failure when every file failed', () => {
+    assert.strictEqual(getExitCode([failed('PARSE_ERROR')]), EXIT_CODES.parse)
+    assert.strictEqual(getExitCode([failed('PROVIDER_ERROR'), failed('PARSE_ERROR')]), EXIT_CODES.provider)
+  })
+
+  test('should exit with the partial failure code when only some files failed', () => {
+    assert.strictEqual(getExitCode([failed('PARSE_ERROR'), { path: 'b.md', action: 'updated' }]), EXIT_CODES.partialFailure)
+  })
+
+  test('should report invalid and missing frontmatter', () => {
+    const missing: FileResult = { path: 'b.md', action: 'missing' }
+
+    assert.strictEqual(getExitCode([{ path: 'a.md', action: 'invalid' }, missing], { failOnMissing: true }), EXIT_CODES.invalidFrontmatter)
+    assert.strictEqual(getExitCode([missing], { failOnMissing: true }), EXIT_CODES.missingFrontmatter)
+    assert.strictEqual(getExitCode([missing]), EXIT_CODES.success)
+    assert.strictEqual(getExitCode([]), EXIT_CODES.success)
+  })
+})
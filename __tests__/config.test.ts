@@ -0,0 +1,250 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import os from 'node:os'
+import { fileURLToPath } from 'node:url'
+import fs from 'node:fs/promises'
+import { findConfigFile, getCommandDefaults, loadConfigFile, loadProjectConfig, resolveSettings } from '../src/utils/config.js'
+import { runCli } from './__fixtures__/run-cli.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const fixturesDir = path.join(__dirname, '__fixtures__')
+const configFixture = path.join(fixturesDir, 'devrel-blog-utils.config.json')
+
+describe('Project Config', () => {
+  async function createTempDir (): Promise<string> {
+    return fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-config-'))
+  }
+
+  describe('Unit Tests', () => {
+    test('should load and validate a JSON config file', async () => {
+      const config = await loadConfigFile(configFixture)
+
+      assert.strictEqual(config.llm?.model, 'llama3.2')
+      assert.strictEqual(config.tags?.count, 5)
+      assert.deepStrictEqual(getCommandDefaults(config, 'extract-frontmatter'), { fields: 'title,author' })
+      assert.deepStrictEqual(getCommandDefaults(config, 'generate-tags'), {})
+    })
+
+    test('should reject config files with unknown or mistyped settings', async () => {
+      const tempDir = await createTempDir()
+      try {
+        const configPath = path.join(tempDir, 'devrel-blog-utils.config.json')
+        await fs.writeFile(configPath, JSON.stringify({ llm: { maxTokens: 'many' }, unknown: true }), 'utf-8')
+
+        await assert.rejects(loadConfigFile(configPath), /Failed to load config from .*Invalid config: .*llm\.maxTokens/)
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should resolve CLI over config over env over defaults', async () => {
+      const config = await loadConfigFile(configFixture)
+      const settings = resolveSettings({
+        cli: { tagCount: 2 },
+        config,
+        env: { MODEL_NAME: 'env-model', MAX_TOKENS: '300' }
+      })
+
+      assert.deepStrictEqual(settings.tagCount, { value: 2, source: 'cli' })
+      assert.deepStrictEqual(settings.model, { value: 'llama3.2', source: 'config', origin: 'llm.model' })
+      assert.deepStrictEqual(settings.maxTokens, { value: 300, source: 'env', origin: 'MAX_TOKENS' })
+      assert.deepStrictEqual(settings.temperature, { value: 0.7, source: 'default' })
+    })
+
+    test('should reject numbers from the environment that the CLI and config file would reject', () => {
+      assert.throws(() => resolveSettings({ env: { MAX_TOKENS: 'abc' } }), /MAX_TOKENS environment variable must be a positive integer, got 'abc'/)
+      assert.throws(() => resolveSettings({ env: { MAX_TOKENS: '1.5' } }), /MAX_TOKENS environment variable must be a positive integer, got '1\.5'/)
+      assert.throws(() => resolveSettings({ env: { TEMPERATURE: 'abc' } }), /TEMPERATURE environment variable must be a non-negative number, got 'abc'/)
+      assert.throws(() => resolveSettings({ env: { TEMPERATURE: '-1' } }), /TEMPERATURE environment variable must be a non-negative number/)
+      assert.deepStrictEqual(resolveSettings({ env: { TEMPERATURE: '0' } }).temperature, { value: 0, source: 'env', origin: 'TEMPERATURE' })
+    })
+
+    test('should pick defaults and the API key variable for the resolved provider', () => {
+      const settings = resolveSettings({
+        cli: { provider: 'anthropic' },
+        env: { OPENAI_API_KEY: 'openai-key', ANTHROPIC_API_KEY: 'anthropic-key' }
+      })
+
+      assert.deepStrictEqual(settings.apiKey, { value: 'anthropic-key', source: 'env', origin: 'ANTHROPIC_API_KEY' })
+      assert.deepStrictEqual(settings.model, { value: 'claude-haiku-4-5', source: 'default' })
+
+      const ollama = resolveSettings({ config: { llm: { provider: 'ollama' } }, env: { OPENAI_API_KEY: 'openai-key' } })
+      assert.strictEqual(ollama.baseUrl.value, 'http://localhost:11434/v1')
+      assert.deepStrictEqual(ollama.apiKey, { value: undefined, source: 'default' })
+    })
+  })
+
+  describe('Integration Tests', () => {
+    test('should find the config file by walking up from a nested directory', async () => {
+      const tempDir = await createTempDir()
+      try {
+        const nestedDir = path.join(tempDir, 'content', 'posts')
+        await fs.mkdir(nestedDir, { recursive: true })
+        await fs.copyFile(configFixture, path.join(tempDir, 'devrel-blog-utils.config.json'))
+
+        const configPath = await findConfigFile(nestedDir)
+        assert.strictEqual(configPath, path.join(tempDir, 'devrel-blog-utils.config.json'))
+
+        const projectConfig = await loadProjectConfig({ cwd: nestedDir })
+        assert.strictEqual(projectConfig.config.frontmatterFormat, 'yaml')
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should load the config from a JavaScript module', async () => {
+      const tempDir = await createTempDir()
+      try {
+        await fs.writeFile(
+          path.join(tempDir, 'devrel-blog-utils.config.mjs'),
+          'export default { tags: { count: 4, prompt: "Suggest {count} tags" } }\n',
+          'utf-8'
+        )
+
+        const projectConfig = await loadProjectConfig({ cwd: tempDir })
+        assert.deepStrictEqual(projectConfig.config.tags, { count: 4, prompt: 'Suggest {count} tags' })
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('End-to-End Tests', () => {
+    test('should run CLI and print resolved settings with their sources', async () => {
+      const { spawn } = await import('node:child_process')
+
+      return new Promise<void>((resolve, reject) => {
+        const cliProcess = spawn('node', [
+          'dist/bin/cli.cjs',
+          'config',
+          'print',
+          `--config=${configFixture}`
+        ], {
+          stdio: ['pipe', 'pipe', 'pipe'],
+          env: { ...process.env, OPENAI_API_KEY: 'sk-test-1234567890', TEMPERATURE: '0.2' }
+        })
+
+        let stdout = ''
+        let stderr = ''
+
+        cliProcess.stdout.on('data', (data) => {
+          stdout += data.toString()
+        })
+
+        cliProcess.stderr.on('data', (data) => {
+          stderr += data.toString()
+        })
+
+        cliProcess.on('close', (code) => {
+          if (code !== 0) {
+            reject(new Error(`CLI process exited with code ${code}. Stderr: ${stderr}`))
+            return
+          }
+
+          try {
+            assert.ok(stdout.includes(`Config file: ${configFixture}`))
+            assert.match(stdout, /^llm\.model\s+llama3\.2\s+config \(llm\.model\)$/m)
+            assert.match(stdout, /^llm\.temperature\s+0\.2\s+env \(TEMPERATURE\)$/m)
+            assert.match(stdout, /^llm\.apiKey\s+\*\*\*\*7890\s+env \(OPENAI_API_KEY\)$/m)
+            assert.match(stdout, /^llm\.provider\s+openai-compatible\s+default$/m)
+            assert.match(stdout, /^commands\.extract-frontmatter\.fields\s+title,author\s+config$/m)
+            assert.ok(!stdout.includes('sk-test-1234567890'))
+            resolve()
+          } catch (error) {
+            reject(error)
+          }
+        })
+
+        cliProcess.on('error', (error) => {
+          reject(new Error(`Failed to spawn CLI process: ${error}`))
+        })
+      })
+    })
+
+    test('should run CLI and apply command defaults from the config file', async () => {
+      const { spawn } = await import('node:child_process')
+
+      return new Promise<void>((resolve, reject) => {
+        const cliProcess = spawn('node', [
+          'dist/bin/cli.cjs',
+          'extract-frontmatter',
+          path.join(fixturesDir, 'sample-blog-post.md'),
+          '--config',
+          configFixture
+        ], {
+          stdio: ['pipe', 'pipe', 'pipe']
+        })
+
+        let stdout = ''
+        let stderr = ''
+
+        cliProcess.stdout.on('data', (data) => {
+          stdout += data.toString()
+        })
+
+        cliProcess.stderr.on('data', (data) => {
+          stderr += data.toString()
+        })
+
+        cliProcess.on('close', (code) => {
+          if (code !== 0) {
+            reject(new Error(`CLI process exited with code ${code}. Stderr: ${stderr}`))
+            return
+          }
+
+          try {
+            assert.deepStrictEqual(Object.keys(JSON.parse(stdout)).sort(), ['author', 'title'])
+            resolve()
+          } catch (error) {
+            reject(error)
+          }
+        })
+
+        cliProcess.on('error', (error) => {
+          reject(new Error(`Failed to spawn CLI process: ${error}`))
+        })
+      })
+    })
+
+    test('should accept lists as command defaults and reject values of the wrong type', async () => {
+      const tempDir = await createTempDir()
+      try {
+        const configPath = path.join(tempDir, 'devrel-blog-utils.config.json')
+        const postPath = path.join(fixturesDir, 'sample-blog-post.md')
+
+        await fs.writeFile(configPath, JSON.stringify({ commands: { 'extract-frontmatter': { fields: ['title', 'author'] } } }), 'utf-8')
+        const listed = await runCli(['extract-frontmatter', postPath, '--config', configPath])
+        assert.strictEqual(listed.code, 0, listed.stderr)
+        assert.deepStrictEqual(Object.keys(JSON.parse(listed.stdout)).sort(), ['author', 'title'])
+
+        await fs.writeFile(configPath, JSON.stringify({ commands: { 'extract-frontmatter': { 'fail-on-missing': 'yes' } } }), 'utf-8')
+        const invalid = await runCli(['extract-frontmatter', postPath, '--config', configPath])
+        assert.strictEqual(invalid.code, 3)
+        assert.strictEqual(invalid.stderr.trim(), 'Error: Invalid config: commands.extract-frontmatter.fail-on-missing: expected true or false')
+
+        await fs.writeFile(configPath, JSON.stringify({ commands: { 'extract-frontmatter': { field: 'title' } } }), 'utf-8')
+        const unknown = await runCli(['extract-frontmatter', postPath, '--config', configPath])
+        assert.strictEqual(unknown.code, 3)
+        assert.match(unknown.stderr, /commands\.extract-frontmatter\.field: extract-frontmatter has no --field option/)
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should run CLI and report an invalid number in the environment as a usage error', async () => {
+      const tempDir = await createTempDir()
+      try {
+        const configPath = path.join(tempDir, 'devrel-blog-utils.config.json')
+        await fs.writeFile(configPath, '{}\n', 'utf-8')
+
+        const { code, stderr } = await runCli(['config', 'print', '--config', configPath], { cwd: tempDir, env: { MAX_TOKENS: 'abc' } })
+        assert.strictEqual(code, 3)
+        assert.strictEqual(stderr.trim(), "Error: MAX_TOKENS environment variable must be a positive integer, got 'abc'")
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
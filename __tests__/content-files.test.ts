@@ -0,0 +1,97 @@
+import { test, describe, before, after } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import os from 'node:os'
+import fs from 'node:fs/promises'
+import { isGlobPattern, resolveContentFiles } from '../src/utils/content-files.js'
+
+describe('Content Files', () => {
+  let tempDir: string
+
+  before(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-files-'))
+    const files = [
+      'content/posts/first.md',
+      'content/posts/nested/second.mdx',
+      'content/posts/notes.txt',
+      'content/drafts/draft.md',
+      'content/generated/build.md',
+      'node_modules/some-package/readme.md'
+    ]
+
+    for (const file of files) {
+      await fs.mkdir(path.join(tempDir, path.dirname(file)), { recursive: true })
+      await fs.writeFile(path.join(tempDir, file), '---\ntitle: Test\n---\n', 'utf-8')
+    }
+    await fs.writeFile(path.join(tempDir, '.gitignore'), 'content/generated/\n', 'utf-8')
+  })
+
+  after(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  function relativeFiles (files: string[]): string[] {
+    return files.map(file => path.relative(tempDir, file).split(path.sep).join('/'))
+  }
+
+  describe('Unit Tests', () => {
+    test('should detect glob patterns', () => {
+      assert.strictEqual(isGlobPattern('content/**/*.md'), true)
+      assert.strictEqual(isGlobPattern('content/*.{md,mdx}'), true)
+      assert.strictEqual(isGlobPattern('!content/drafts/**'), true)
+      assert.strictEqual(isGlobPattern('content/posts/first.md'), false)
+    })
+
+    test('should keep plain file paths even when they do not exist', async () => {
+      const files = await resolveContentFiles(['content/posts/missing.md'], { cwd: tempDir })
+      assert.deepStrictEqual(relativeFiles(files), ['content/posts/missing.md'])
+    })
+  })
+
+  describe('Integration Tests', () => {
+    test('should match files recursively with ** and brace sets', async () => {
+      const files = await resolveContentFiles('content/posts/**/*.{md,mdx}', { cwd: tempDir })
+      assert.deepStrictEqual(relativeFiles(files), ['content/posts/first.md', 'content/posts/nested/second.mdx'])
+    })
+
+    test('should exclude negated patterns', async () => {
+      const files = await resolveContentFiles(['content/**/*.md', '!content/drafts/**'], { cwd: tempDir })
+      assert.deepStrictEqual(relativeFiles(files), ['content/posts/first.md'])
+    })
+
+    test('should skip gitignored files and node_modules', async () => {
+      const files = await resolveContentFiles('**/*.md', { cwd: tempDir })
+      assert.deepStrictEqual(relativeFiles(files), ['content/drafts/draft.md', 'content/posts/first.md'])
+    })
+
+    test('should skip gitignored files matched by patterns in subdirectories', async () => {
+      const files = await resolveContentFiles('content/**/*.md', { cwd: tempDir })
+      assert.ok(!relativeFiles(files).includes('content/generated/build.md'))
+    })
+
+    test('should match absolute patterns outside of cwd', async () => {
+      const files = await resolveContentFiles(path.join(tempDir, 'content', 'posts', '**', '*.md'), { cwd: os.homedir() })
+      assert.deepStrictEqual(relativeFiles(files), ['content/posts/first.md'])
+    })
+
+    test('should include gitignored files when gitignore is disabled', async () => {
+      const files = await resolveContentFiles('content/**/*.md', { cwd: tempDir, gitignore: false })
+      assert.ok(relativeFiles(files).includes('content/generated/build.md'))
+    })
+
+    test('should combine multiple paths without duplicates', async () => {
+      const files = await resolveContentFiles(['content/drafts/draft.md', 'content/**/*.md'], { cwd: tempDir })
+      assert.deepStrictEqual(relativeFiles(files), ['content/drafts/draft.md', 'content/posts/first.md'])
+    })
+
+    test('should match the content files inside a directory', async () => {
+      const files = await resolveContentFiles(['content/posts/', '!content/posts/nested/**'], { cwd: tempDir })
+      assert.deepStrictEqual(relativeFiles(files), ['content/posts/first.md'])
+    })
+
+    test('should exclude plain file paths matched by a negation, but keep missing ones', async () => {
+      const files = await resolveContentFiles(['content/drafts/draft.md', 'content/posts/first.md', 'content/drafts/missing.md', '!content/drafts/**'], { cwd: tempDir })
+      assert.deepStrictEqual(relativeFiles(files), ['content/posts/first.md', 'content/drafts/missing.md'])
+    })
+  })
+})
@@ -0,0 +1,222 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { ContentIndex, isDraft, loadContentIndex, writeContentIndex } from '../src/utils/content-index.js'
+import { createContentDir } from './__fixtures__/content-dir.js'
+import { runCli } from './__fixtures__/run-cli.js'
+
+describe('ContentIndex', () => {
+  const posts = {
+    'posts/streams.md': [
+      '---',
+      'title: Streams in Node.js',
+      'date: 2024-03-01',
+      'tags: [node]',
+      '---',
+      '',
+      '# Streams',
+      '',
+      'Streams move data in chunks instead of all at once.',
+      '',
+      '```js',
+      'const stream = fs.createReadStream(file)',
+      '```',
+      '',
+      '## Backpressure *matters*',
+      '',
+      'Slow consumers pause fast producers.',
+      ''
+    ].join('\n'),
+    'posts/edge-functions/index.md': '---\ntitle: Edge Functions\ndate: 2024-05-10\n---\n\nEdge functions run close to users.\n',
+    'posts/draft.md': '---\ntitle: Upcoming\nslug: coming-soon\ndraft: true\n---\n\nNot yet.\n'
+  }
+
+  test('should index the slug, frontmatter, word count, reading time and headings of every post', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const index = new ContentIndex('posts/**/*.md', { cwd: tempDir, fields: ['title', 'date'] })
+      const manifest = await index.build()
+
+      assert.deepStrictEqual(manifest.entries.map(entry => [entry.path, entry.slug, entry.draft]), [
+        ['posts/draft.md', 'coming-soon', true],
+        ['posts/edge-functions/index.md', 'edge-functions', false],
+        ['posts/streams.md', 'streams', false]
+      ])
+
+      const streams = index.getEntry('streams')!
+      assert.deepStrictEqual(streams.frontmatter, { title: 'Streams in Node.js', date: '2024-03-01' })
+      assert.strictEqual(streams.wordCount, 18)
+      assert.strictEqual(streams.readingTime, 1)
+      assert.deepStrictEqual(streams.headings, [{ depth: 1, text: 'Streams' }, { depth: 2, text: 'Backpressure matters' }])
+      assert.match(streams.hash, /^[0-9a-f]{64}$/)
+      assert.deepStrictEqual(manifest.fields, ['title', 'date'])
+      assert.strictEqual(manifest.wordsPerMinute, 200)
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should sort by a frontmatter field and leave out drafts', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const index = new ContentIndex('posts/**/*.md', { cwd: tempDir, sort: '-date', excludeDrafts: true })
+      const manifest = await index.build()
+
+      assert.deepStrictEqual(manifest.entries.map(entry => entry.slug), ['edge-functions', 'streams'])
+      assert.deepStrictEqual(index.getFileStatuses().map(({ filePath, status, reason }) => [path.basename(filePath), status, reason]), [
+        ['draft.md', 'skipped', 'draft'],
+        ['index.md', 'indexed', undefined],
+        ['streams.md', 'indexed', undefined]
+      ])
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should reject a sort field that the selected fields leave out', async () => {
+    assert.throws(
+      () => new ContentIndex('posts/**/*.md', { fields: ['title'], sort: '-date' }),
+      /Cannot sort by 'date', it is not one of the fields kept in each entry \(title\)/
+    )
+
+    const tempDir = await createContentDir(posts)
+    try {
+      const index = new ContentIndex('posts/**/*.md', { cwd: tempDir, fields: ['title', 'date'], sort: '-date', excludeDrafts: true })
+      const manifest = await index.build()
+      assert.deepStrictEqual(manifest.entries.map(entry => entry.slug), ['edge-functions', 'streams'])
+      assert.doesNotThrow(() => new ContentIndex('posts/**/*.md', { fields: ['title'], sort: 'wordCount' }))
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should reuse the entries of unchanged files from an earlier index', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const previous = await new ContentIndex('posts/**/*.md', { cwd: tempDir }).build()
+      await fs.appendFile(path.join(tempDir, 'posts', 'streams.md'), '\nMore words here.\n', 'utf-8')
+      // Touched without a change, so only the hash tells it is unchanged
+      const touched = path.join(tempDir, 'posts', 'draft.md')
+      await fs.utimes(touched, new Date(), new Date(Date.now() + 5000))
+
+      for (const incremental of ['mtime', 'hash'] as const) {
+        const index = new ContentIndex('posts/**/*.md', { cwd: tempDir, previous, incremental })
+        const manifest = await index.build()
+
+        assert.deepStrictEqual(index.getFileStatuses().map(status => status.status), ['reused', 'reused', 'indexed'])
+        assert.strictEqual(manifest.entries[2]!.wordCount, 21)
+      }
+
+      // Entries built with other settings are not reused
+      const rebuilt = new ContentIndex('posts/**/*.md', { cwd: tempDir, previous, wordsPerMinute: 100 })
+      await rebuilt.build()
+      assert.deepStrictEqual(rebuilt.getFileStatuses().map(status => status.status), ['indexed', 'indexed', 'indexed'])
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should continue past files that fail to parse', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      await fs.writeFile(path.join(tempDir, 'posts', 'broken.md'), '---\ntitle: [unclosed\n---\n', 'utf-8')
+      const index = new ContentIndex('posts/**/*.md', { cwd: tempDir })
+      const manifest = await index.build()
+
+      assert.strictEqual(manifest.entries.length, 3)
+      const [failed] = index.getFileStatuses()
+      assert.strictEqual(failed!.status, 'failed')
+      assert.strictEqual(failed!.code, 'PARSE_ERROR')
+      assert.match(failed!.reason!, /Failed to index .*broken\.md: Failed to parse frontmatter/)
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should write an index and load it back, treating a missing index as none', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const manifest = await new ContentIndex('posts/**/*.md', { cwd: tempDir }).build()
+      const indexPath = path.join(tempDir, 'public', 'content-index.json')
+      await writeContentIndex(indexPath, manifest)
+
+      assert.deepStrictEqual(await loadContentIndex(indexPath), manifest)
+      assert.strictEqual(await loadContentIndex(path.join(tempDir, 'missing.json')), null)
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should treat a draft field of true, "true" or "yes" as a draft', () => {
+    assert.deepStrictEqual([true, 'true', 'True', 'yes', false, 'false', 'no', 1, undefined].map(draft => isDraft({ draft })), [
+      true, true, true, true, false, false, false, false, false
+    ])
+  })
+
+  describe('CLI Integration Tests', () => {
+    test('should write the index and rebuild it incrementally', async () => {
+      const tempDir = await createContentDir(posts)
+      try {
+        const args = ['build-index', 'posts/**/*.md', '--output', 'public/index.json', '--fields', 'title,date', '--sort=-date', '--exclude-drafts']
+        const first = await runCli(args, { cwd: tempDir })
+
+        assert.strictEqual(first.code, 0, first.stderr)
+        assert.strictEqual(first.stdout.trim(), 'Indexed 2 post(s) to public/index.json (0 reused, 1 draft(s) left out)')
+        const manifest = JSON.parse(await fs.readFile(path.join(tempDir, 'public', 'index.json'), 'utf-8'))
+        assert.deepStrictEqual(manifest.entries.map((entry: { slug: string }) => entry.slug), ['edge-functions', 'streams'])
+
+        const second = await runCli([...args, '--incremental', 'mtime', '--json'], { cwd: tempDir })
+        assert.strictEqual(second.code, 0, second.stderr)
+        assert.deepStrictEqual(JSON.parse(second.stdout), {
+          command: 'build-index',
+          exitCode: 0,
+          files: [
+            { path: 'posts/draft.md', action: 'skipped', reason: 'draft' },
+            { path: 'posts/edge-functions/index.md', action: 'unchanged' },
+            { path: 'posts/streams.md', action: 'unchanged' }
+          ],
+          output: 'public/index.json'
+        })
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should print the index without --output and reject --incremental without it or a sort field left out', async () => {
+      const tempDir = await createContentDir(posts)
+      try {
+        const printed = await runCli(['build-index', 'posts/streams.md'], { cwd: tempDir })
+        assert.strictEqual(printed.code, 0, printed.stderr)
+        assert.deepStrictEqual(JSON.parse(printed.stdout).entries.map((entry: { slug: string }) => entry.slug), ['streams'])
+
+        const rejected = await runCli(['build-index', 'posts/**/*.md', '--incremental', 'hash'], { cwd: tempDir })
+        assert.strictEqual(rejected.code, 3)
+        assert.match(rejected.stderr, /--incremental requires --output/)
+
+        const zeroSpeed = await runCli(['build-index', 'posts/**/*.md', '--words-per-minute', '0'], { cwd: tempDir })
+        assert.strictEqual(zeroSpeed.code, 3)
+        assert.match(zeroSpeed.stderr, /--words-per-minute must be a positive integer, got '0'/)
+
+        const unsortable = await runCli(['build-index', 'posts/**/*.md', '--fields', 'title', '--sort=-date'], { cwd: tempDir })
+        assert.strictEqual(unsortable.code, 3)
+        assert.match(unsortable.stderr, /Cannot sort by 'date', it is not one of the fields kept in each entry \(title\)/)
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should resolve the config content globs against the config directory', async () => {
+      const tempDir = await createContentDir(posts)
+      try {
+        await fs.writeFile(path.join(tempDir, 'devrel-blog-utils.config.json'), JSON.stringify({ content: ['posts/**/*.md', '!posts/draft.md'] }), 'utf-8')
+        const { code, stdout, stderr } = await runCli(['build-index'], { cwd: path.join(tempDir, 'posts', 'edge-functions') })
+
+        assert.strictEqual(code, 0, stderr)
+        assert.deepStrictEqual(JSON.parse(stdout).entries.map((entry: { path: string }) => entry.path), ['posts/edge-functions/index.md', 'posts/streams.md'])
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { FeedGenerator } from '../src/utils/feed-generator.js'
+import { renderFeed } from '../src/utils/feed-formats.js'
+import type { FeedItem, FeedSite } from '../src/utils/feed-formats.js'
+import { createContentDir } from './__fixtures__/content-dir.js'
+import { runCli } from './__fixtures__/run-cli.js'
+
+describe('FeedGenerator', () => {
+  const site: FeedSite = { url: 'https://example.com/blog', title: 'Example Blog', description: 'Posts about the web', language: 'en' }
+
+  const posts = {
+    'posts/streams.md': '---\ntitle: Streams in Node.js\ndate: 2024-03-01\ndescription: Data in chunks\ntags: [node, streams]\n---\n\n# Streams\n\nStreams move *data*.\n',
+    'posts/edge.md': '---\ntitle: Edge Functions\ndate: 2024-05-10\ncanonical_url: /edge-functions/\ntags: edge\n---\n\nClose to users.\n',
+    'posts/draft.md': '---\ntitle: Upcoming\ndate: 2024-04-01\ndraft: true\n---\n\nNot yet.\n',
+    'posts/future.md': '---\ntitle: Next Year\ndate: 2025-01-01\n---\n\nLater.\n',
+    'posts/untitled.md': '---\ndate: 2024-02-01\n---\n\nNo title.\n'
+  }
+
+  test('should collect posts newest first, leaving out drafts, future posts and posts without a title', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const generator = new FeedGenerator('posts/*.md', { cwd: tempDir, site, excludeDrafts: true, excludeFuture: true, now: new Date('2024-06-01') })
+      const items = await generator.build()
+
+      assert.deepStrictEqual(items, [
+        { url: 'https://example.com/edge-functions/', title: 'Edge Functions', date: new Date('2024-05-10'), description: undefined, categories: ['edge'], contentHtml: undefined },
+        { url: 'https://example.com/blog/streams/', title: 'Streams in Node.js', date: new Date('2024-03-01'), description: 'Data in chunks', categories: ['node', 'streams'], contentHtml: undefined }
+      ])
+      assert.deepStrictEqual(generator.getFileStatuses().map(({ filePath, status, reason }) => [path.basename(filePath), status, reason]), [
+        ['draft.md', 'skipped', 'draft'],
+        ['edge.md', 'included', undefined],
+        ['future.md', 'skipped', 'dated in the future'],
+        ['streams.md', 'included', undefined],
+        ['untitled.md', 'skipped', 'no title field']
+      ])
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should limit the items, read mapped fields and render the body as HTML', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const generator = new FeedGenerator('posts/streams.md', { cwd: tempDir, site, fields: { description: 'title' }, fullContent: true })
+      const [item] = await generator.build()
+
+      assert.strictEqual(item!.description, 'Streams in Node.js')
+      assert.strictEqual(item!.contentHtml, '<h1>Streams</h1>\n<p>Streams move <em>data</em>.</p>\n')
+
+      const limited = new FeedGenerator('posts/*.md', { cwd: tempDir, site, limit: 1 })
+      assert.deepStrictEqual((await limited.build()).map(item => item.title), ['Next Year'])
+      assert.strictEqual(limited.getFileStatuses().find(status => path.basename(status.filePath) === 'edge.md')!.reason, 'over the item limit')
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should only parse the body of posts for full-content feeds', async () => {
+    const tempDir = await createContentDir({ 'posts/broken.mdx': '---\ntitle: Broken\ndate: 2024-03-01\n---\n\n<Chart data={\n' })
+    try {
+      const summary = new FeedGenerator('posts/*.mdx', { cwd: tempDir, site })
+      assert.deepStrictEqual((await summary.build()).map(item => item.title), ['Broken'])
+
+      const full = new FeedGenerator('posts/*.mdx', { cwd: tempDir, site, fullContent: true })
+      assert.deepStrictEqual(await full.build(), [])
+      assert.strictEqual(full.getFileStatuses()[0]!.status, 'failed')
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('Feed Formats', () => {
+    const items: FeedItem[] = [{
+      url: 'https://example.com/blog/a/',
+      title: 'Tips & <Tricks>',
+      date: new Date('2024-03-01T10:00:00Z'),
+      description: 'Short',
+      categories: ['node'],
+      contentHtml: '<p>Body</p>'
+    }]
+
+    test('should render RSS 2.0 with escaped text and encoded content', () => {
+      const rss = renderFeed(items, { ...site, feedUrl: 'https://example.com/rss.xml' }, 'rss')
+
+      assert.match(rss, /^<\?xml version="1\.0" encoding="UTF-8"\?>\n<rss version="2\.0" xmlns:atom="http:\/\/www\.w3\.org\/2005\/Atom" xmlns:content="http:\/\/purl\.org\/rss\/1\.0\/modules\/content\/">/)
+      assert.match(rss, /<atom:link href="https:\/\/example\.com\/rss\.xml" rel="self" type="application\/rss\+xml"\/>/)
+      assert.match(rss, /<title>Tips &amp; &lt;Tricks&gt;<\/title>/)
+      assert.match(rss, /<pubDate>Fri, 01 Mar 2024 10:00:00 GMT<\/pubDate>/)
+      assert.match(rss, /<content:encoded>&lt;p&gt;Body&lt;\/p&gt;<\/content:encoded>/)
+    })
+
+    test('should render Atom 1.0 with a feed author and entry dates', () => {
+      const atom = renderFeed(items, site, 'atom')
+
+      assert.match(atom, /<feed xmlns="http:\/\/www\.w3\.org\/2005\/Atom" xml:lang="en">/)
+      assert.match(atom, /<author><name>Example Blog<\/name><\/author>/)
+      assert.match(atom, /<updated>2024-03-01T10:00:00\.000Z<\/updated>/)
+      assert.match(atom, /<category term="node"\/>/)
+    })
+
+    test('should render JSON Feed 1.1 with content text when there is no body', () => {
+      const feed = JSON.parse(renderFeed([{ ...items[0]!, contentHtml: undefined }], site, 'json'))
+
+      assert.deepStrictEqual(feed, {
+        version: 'https://jsonfeed.org/version/1.1',
+        title: 'Example Blog',
+        home_page_url: 'https://example.com/blog',
+        description: 'Posts about the web',
+        language: 'en',
+        items: [{
+          id: 'https://example.com/blog/a/',
+          url: 'https://example.com/blog/a/',
+          title: 'Tips & <Tricks>',
+          content_text: 'Short',
+          summary: 'Short',
+          date_published: '2024-03-01T10:00:00.000Z',
+          tags: ['node']
+        }]
+      })
+    })
+  })
+
+  describe('CLI Integration Tests', () => {
+    test('should write every requested feed format, linking each at the site URL', async () => {
+      const tempDir = await createContentDir(posts)
+      try {
+        const { code, stdout, stderr } = await runCli(['generate-feed', 'posts/*.md', '--rss', 'public/rss.xml', '--atom', 'public/atom.xml', '--json-feed', 'public/feed.json', '--exclude-drafts', '--limit', '2'], { cwd: tempDir, env: { SITE_URL: 'https://example.com/blog' } })
+
+        assert.strictEqual(code, 0, stderr)
+        assert.strictEqual(stdout.trim(), 'Wrote 2 item(s) to public/rss.xml, public/atom.xml, public/feed.json')
+        const rss = await fs.readFile(path.join(tempDir, 'public', 'rss.xml'), 'utf-8')
+        assert.match(rss, /<title>example\.com<\/title>/)
+        assert.match(rss, /<atom:link href="https:\/\/example\.com\/blog\/rss\.xml" rel="self"/)
+        assert.match(await fs.readFile(path.join(tempDir, 'public', 'atom.xml'), 'utf-8'), /<link href="https:\/\/example\.com\/blog\/atom\.xml" rel="self"\/>/)
+        const feed = JSON.parse(await fs.readFile(path.join(tempDir, 'public', 'feed.json'), 'utf-8'))
+        assert.strictEqual(feed.feed_url, 'https://example.com/blog/feed.json')
+        assert.deepStrictEqual(feed.items.map((item: { title: string }) => item.title), ['Next Year', 'Edge Functions'])
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should require a site URL and an output, and reject a negative limit', async () => {
+      const tempDir = await createContentDir(posts)
+      try {
+        const noSite = await runCli(['generate-feed', 'posts/*.md', '--rss', 'rss.xml'], { cwd: tempDir, env: { SITE_URL: undefined } })
+        assert.strictEqual(noSite.code, 3)
+        assert.match(noSite.stderr, /--site-url, SITE_URL or site\.url in the config file is required/)
+
+        const noOutput = await runCli(['generate-feed', 'posts/*.md', '--site-url', 'https://example.com'], { cwd: tempDir })
+        assert.strictEqual(noOutput.code, 3)
+        assert.match(noOutput.stderr, /One of --rss, --atom or --json-feed is required/)
+
+        const negativeLimit = await runCli(['generate-feed', 'posts/*.md', '--rss', 'rss.xml', '--site-url', 'https://example.com', '--limit=-1'], { cwd: tempDir })
+        assert.strictEqual(negativeLimit.code, 3)
+        assert.match(negativeLimit.stderr, /--limit must be a positive integer, got '-1'/)
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
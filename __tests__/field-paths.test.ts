@@ -0,0 +1,45 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { deletePathValue, formatFieldPath, getPathValue, parseFieldPath, resolveFieldPath, setPathValue } from '../src/utils/field-paths.js'
+
+describe('Field Paths', () => {
+  test('should parse keys, list indexes and quoted keys', () => {
+    assert.deepStrictEqual(parseFieldPath('title'), ['title'])
+    assert.deepStrictEqual(parseFieldPath('author.name'), ['author', 'name'])
+    assert.deepStrictEqual(parseFieldPath('images[0].alt'), ['images', 0, 'alt'])
+    assert.deepStrictEqual(parseFieldPath('seo["og.image"]'), ['seo', 'og.image'])
+    assert.deepStrictEqual(parseFieldPath("matrix[1][2]"), ['matrix', 1, 2])
+  })
+
+  test('should reject malformed paths', () => {
+    assert.throws(() => parseFieldPath(''), /Invalid field path '': empty key/)
+    assert.throws(() => parseFieldPath('author..name'), /empty key/)
+    assert.throws(() => parseFieldPath('images[first]'), /expected a list index or a quoted key/)
+    assert.throws(() => parseFieldPath('seo["og.image]'), /unterminated quoted key/)
+  })
+
+  test('should prefer an existing top-level key with the exact name', () => {
+    assert.deepStrictEqual(resolveFieldPath({ 'og.image': '/a.png' }, 'og.image'), ['og.image'])
+    assert.deepStrictEqual(resolveFieldPath({ og: { image: '/a.png' } }, 'og.image'), ['og', 'image'])
+  })
+
+  test('should format paths the way they are parsed', () => {
+    for (const field of ['author.name', 'images[0].alt', 'seo["og.image"]']) {
+      assert.strictEqual(formatFieldPath(parseFieldPath(field)), field)
+    }
+  })
+
+  test('should get, set and delete nested values', () => {
+    const data: Record<string, unknown> = { images: [{ src: '/a.png' }, { src: '/b.png' }] }
+
+    assert.strictEqual(getPathValue(data, ['images', 1, 'src']), '/b.png')
+    assert.strictEqual(getPathValue(data, ['images', 2, 'src']), undefined)
+
+    setPathValue(data, ['seo', 'keywords', 0], 'edge')
+    setPathValue(data, ['images', 0, 'alt'], 'Diagram')
+    deletePathValue(data, ['images', 1])
+
+    assert.deepStrictEqual(data, { images: [{ src: '/a.png', alt: 'Diagram' }], seo: { keywords: ['edge'] } })
+    assert.throws(() => setPathValue(data, ['images', 0, 'src', 'width'], 1), /Cannot set images\[0\]\.src\.width, images\[0\]\.src is not a mapping or list/)
+  })
+})
@@ -0,0 +1,50 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { parseFieldAssignment, parseFieldValue } from '../src/utils/field-values.js'
+
+describe('Field Values', () => {
+  test('should read YAML scalars and flow collections with their types', () => {
+    assert.strictEqual(parseFieldValue('false'), false)
+    assert.strictEqual(parseFieldValue('3'), 3)
+    assert.strictEqual(parseFieldValue('2.5'), 2.5)
+    assert.strictEqual(parseFieldValue('null'), null)
+    assert.strictEqual(parseFieldValue('2024-01-15'), '2024-01-15')
+    assert.deepStrictEqual(parseFieldValue('[react, hooks]'), ['react', 'hooks'])
+    assert.deepStrictEqual(parseFieldValue('{name: Jane, posts: 4}'), { name: 'Jane', posts: 4 })
+  })
+
+  test('should remove quotes and keep values that are not a whole YAML value as strings', () => {
+    assert.strictEqual(parseFieldValue('"New Title"'), 'New Title')
+    assert.strictEqual(parseFieldValue("'true'"), 'true')
+    assert.strictEqual(parseFieldValue('Hello: world'), 'Hello: world')
+    assert.strictEqual(parseFieldValue('Tips #1 and #2'), 'Tips #1 and #2')
+    assert.strictEqual(parseFieldValue('- not a list'), '- not a list')
+    assert.strictEqual(parseFieldValue('@janesmith'), '@janesmith')
+    assert.strictEqual(parseFieldValue(''), '')
+  })
+
+  test('should apply type hints', () => {
+    assert.deepStrictEqual(parseFieldAssignment('count:int=3'), { field: 'count', value: 3 })
+    assert.deepStrictEqual(parseFieldAssignment('title:str=true'), { field: 'title', value: 'true' })
+    assert.deepStrictEqual(parseFieldAssignment('version:str=1.10'), { field: 'version', value: '1.10' })
+    assert.deepStrictEqual(parseFieldAssignment('ratio:float=0.75'), { field: 'ratio', value: 0.75 })
+    assert.deepStrictEqual(parseFieldAssignment('draft:bool=FALSE'), { field: 'draft', value: false })
+    assert.deepStrictEqual(parseFieldAssignment('date:date=2024-01-15T09:30:00Z'), { field: 'date', value: '2024-01-15T09:30:00Z' })
+    assert.deepStrictEqual(parseFieldAssignment('image:null='), { field: 'image', value: null })
+  })
+
+  test('should reject values that do not match their type hint', () => {
+    assert.throws(() => parseFieldAssignment('count:int=three'), /Invalid value for count:int, expected an integer but got 'three'/)
+    assert.throws(() => parseFieldAssignment('draft:bool=yes'), /expected true or false/)
+    assert.throws(() => parseFieldAssignment('date:date=15/01/2024'), /expected an ISO 8601 date/)
+  })
+
+  test('should split on the first equals sign outside quoted keys', () => {
+    assert.deepStrictEqual(parseFieldAssignment('query=a=b&c=d'), { field: 'query', value: 'a=b&c=d' })
+    assert.deepStrictEqual(parseFieldAssignment('links["a=b"]=x'), { field: 'links["a=b"]', value: 'x' })
+    assert.deepStrictEqual(parseFieldAssignment('og:image=/og.png'), { field: 'og:image', value: '/og.png' })
+    assert.deepStrictEqual(parseFieldAssignment('summary="It\'s = fine"'), { field: 'summary', value: "It's = fine" })
+    assert.throws(() => parseFieldAssignment('draft'), /Expected field=value, got 'draft'/)
+    assert.throws(() => parseFieldAssignment('=value'), /Expected field=value/)
+  })
+})
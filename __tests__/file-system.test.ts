@@ -0,0 +1,53 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import { MemoryFileSystem, readStream } from '../src/utils/file-system.js'
+import { MarkdownFrontmatterExtractor } from '../src/utils/markdown-frontmatter-extractor.js'
+import { MarkdownFrontmatterUpdater } from '../src/utils/markdown-frontmatter-updater.js'
+import { FrontmatterValidator } from '../src/utils/frontmatter-validator.js'
+import { GenerativeTags } from '../src/utils/generative-tags.js'
+import { FakeLLMProvider } from '../src/utils/llm-providers.js'
+
+describe('MemoryFileSystem', () => {
+  // The posts only exist in memory, a write to the disk would fail the tests
+  const postPath = path.join('/virtual', 'content', 'post.md')
+  const post = '---\ntitle: Edge Functions\ndraft: "true"\n---\n\nEdge functions run close to users.\n'
+
+  test('should read and write files by resolved path', async () => {
+    const memoryFs = new MemoryFileSystem({ [postPath]: post })
+
+    assert.strictEqual(await memoryFs.readFile(postPath), post)
+    await memoryFs.writeFile('relative.md', 'content')
+    assert.strictEqual(memoryFs.getFiles()[path.resolve('relative.md')], 'content')
+    await assert.rejects(memoryFs.readFile('/virtual/missing.md'), { code: 'ENOENT' })
+  })
+
+  test('should run the extractor and updater against memory', async () => {
+    const memoryFs = new MemoryFileSystem({ [postPath]: post })
+
+    const result = await new MarkdownFrontmatterUpdater(postPath, { fs: memoryFs }).updateFields({ author: 'Jane' })
+    assert.strictEqual(result.written, true)
+    assert.deepStrictEqual(await new MarkdownFrontmatterExtractor(postPath, { fs: memoryFs, fields: ['title', 'author'] }).extract(), { title: 'Edge Functions', author: 'Jane' })
+    assert.match(memoryFs.getFiles()[postPath]!, /^author: Jane$/m)
+  })
+
+  test('should run the validator and tag generator against memory', async () => {
+    const memoryFs = new MemoryFileSystem({ [postPath]: post })
+    const schema = { type: 'object', properties: { draft: { type: 'boolean' } } }
+
+    const validation = await new FrontmatterValidator(postPath, { schema: { type: 'json-schema', schema }, fix: true, fs: memoryFs }).validate()
+    assert.deepStrictEqual(validation.fixedFields, ['draft'])
+
+    await new GenerativeTags(postPath, { provider: new FakeLLMProvider([['edge', 'serverless']]), fs: memoryFs }).run()
+    assert.strictEqual(memoryFs.getFiles()[postPath], '---\ntitle: Edge Functions\ndraft: true\ntags:\n  - edge\n  - serverless\n---\n\nEdge functions run close to users.\n')
+  })
+})
+
+describe('readStream', () => {
+  test('should read every chunk of a stream as text', async () => {
+    const content = await readStream(Readable.from([Buffer.from('---\ntitle: Caf'), Buffer.from([0xc3]), Buffer.from([0xa9]), '\n---\n']))
+
+    assert.strictEqual(content, '---\ntitle: Café\n---\n')
+  })
+})
@@ -0,0 +1,77 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { applyOperationsInString, getChangedFields, parseContent, parseFrontmatter, replaceFrontmatterInString, updateFrontmatterInString } from '../src/utils/frontmatter-content.js'
+
+describe('Frontmatter Content', () => {
+  const post = [
+    '---',
+    'title: "Streams in Node.js" # shown in the header',
+    'author:',
+    '  name: Jane Smith',
+    'tags: [nodejs]',
+    '---',
+    '',
+    '# Streams',
+    '',
+    'Process data *piece by piece*.',
+    ''
+  ].join('\n')
+
+  describe('Parsing', () => {
+    test('should parse frontmatter, optionally filtered to fields', () => {
+      assert.deepStrictEqual(parseFrontmatter(post), { title: 'Streams in Node.js', author: { name: 'Jane Smith' }, tags: ['nodejs'] })
+      assert.deepStrictEqual(parseFrontmatter(post, { fields: ['title', 'author.name'] }), { title: 'Streams in Node.js', 'author.name': 'Jane Smith' })
+      assert.deepStrictEqual(parseFrontmatter('+++\ntitle = "Hugo"\n+++\n'), { title: 'Hugo' })
+      assert.strictEqual(parseFrontmatter('# No frontmatter\n'), null)
+      assert.strictEqual(parseFrontmatter(post, { format: 'toml' }), null)
+    })
+
+    test('should report invalid frontmatter', () => {
+      assert.throws(() => parseFrontmatter('---\ntitle: [unclosed\n---\n'), /Failed to parse frontmatter/)
+    })
+
+    test('should parse the body with the given syntax', () => {
+      const content = parseContent('---\ntitle: MDX\n---\n\nimport Chart from "./chart"\n\n<Chart />\n', { syntax: 'mdx' })
+
+      assert.deepStrictEqual(content.frontmatter, { title: 'MDX' })
+      assert.strictEqual(content.syntax, 'mdx')
+      assert.deepStrictEqual(content.tree.children.map(node => node.type), ['mdxjsEsm', 'mdxJsxFlowElement'])
+    })
+  })
+
+  describe('Updating', () => {
+    test('should set fields and keep comments and the body as they are', () => {
+      const updated = updateFrontmatterInString(post, { 'author.name': 'Jane Doe', draft: false })
+
+      assert.strictEqual(updated, post
+        .replace('  name: Jane Smith', '  name: Jane Doe')
+        .replace('tags: [nodejs]\n', 'tags: [nodejs]\ndraft: false\n'))
+      assert.deepStrictEqual(getChangedFields(post, updated), ['author', 'draft'])
+    })
+
+    test('should replace the whole frontmatter', () => {
+      const updated = replaceFrontmatterInString(post, { title: 'Streams', tags: ['JS'] }, { tagNormalization: { synonyms: { JS: 'javascript' } } })
+
+      assert.deepStrictEqual(parseFrontmatter(updated), { title: 'Streams', tags: ['javascript'] })
+      assert.ok(updated.endsWith('---\n\n# Streams\n\nProcess data *piece by piece*.\n'))
+    })
+
+    test('should apply operations in order', () => {
+      const updated = applyOperationsInString(post, [
+        { type: 'append', field: 'tags', values: ['streams'] },
+        { type: 'remove-value', field: 'tags', values: ['nodejs'] },
+        { type: 'remove', field: 'author' }
+      ])
+
+      assert.deepStrictEqual(parseFrontmatter(updated), { title: 'Streams in Node.js', tags: ['streams'] })
+    })
+
+    test('should only add frontmatter to content without it when asked to', () => {
+      const content = '# Untitled\n'
+
+      assert.throws(() => updateFrontmatterInString(content, { title: 'New' }), /No frontmatter found and createIfMissing is false/)
+      assert.strictEqual(updateFrontmatterInString(content, { title: 'New' }, { createIfMissing: true }), '---\ntitle: New\n---\n\n# Untitled\n')
+      assert.strictEqual(applyOperationsInString(content, [{ type: 'remove', field: 'draft' }]), content)
+    })
+  })
+})
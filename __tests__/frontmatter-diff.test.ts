@@ -0,0 +1,61 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import { Writable } from 'node:stream'
+import { colorizeDiff, createFrontmatterDiff, summarizeUpdates } from '../src/utils/frontmatter-diff.js'
+import type { FrontmatterUpdateResult } from '../src/utils/markdown-frontmatter-updater.js'
+
+function createResult (overrides: Partial<FrontmatterUpdateResult> = {}): FrontmatterUpdateResult {
+  return {
+    filePath: path.resolve('content/post.md'),
+    changed: true,
+    written: false,
+    changedFields: ['title'],
+    originalContent: '---\ntitle: Old\n---\n\n# Post\n',
+    updatedContent: '---\ntitle: New\n---\n\n# Post\n',
+    ...overrides
+  }
+}
+
+describe('Frontmatter Diff', () => {
+  describe('Unit Tests', () => {
+    test('should create a unified diff with paths relative to cwd', () => {
+      const { diff } = createFrontmatterDiff(createResult())
+
+      assert.strictEqual(diff, [
+        '--- a/content/post.md',
+        '+++ b/content/post.md',
+        '@@ -1,5 +1,5 @@',
+        ' ---',
+        '-title: Old',
+        '+title: New',
+        ' ---',
+        ' ',
+        ' # Post',
+        ''
+      ].join('\n'))
+    })
+
+    test('should return an empty diff for unchanged files', () => {
+      const result = createResult({ changed: false, changedFields: [], updatedContent: createResult().originalContent })
+      assert.strictEqual(createFrontmatterDiff(result).diff, '')
+    })
+
+    test('should leave diffs uncolored for streams that are not a TTY', () => {
+      const { diff } = createFrontmatterDiff(createResult())
+      const stream = new Writable() as NodeJS.WriteStream
+
+      assert.strictEqual(colorizeDiff(diff, stream), diff)
+    })
+
+    test('should summarize changed files and fields', () => {
+      const summary = summarizeUpdates([
+        createResult({ changedFields: ['title', 'draft'] }),
+        createResult({ changedFields: ['tags', 'title'] }),
+        createResult({ changed: false, changedFields: [] })
+      ])
+
+      assert.deepStrictEqual(summary, { filesChecked: 3, filesChanged: 2, changedFields: ['draft', 'tags', 'title'] })
+    })
+  })
+})
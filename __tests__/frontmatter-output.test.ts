@@ -0,0 +1,40 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { formatFrontmatterRecords } from '../src/utils/frontmatter-output.js'
+import type { FrontmatterRecord } from '../src/utils/frontmatter-output.js'
+
+describe('Frontmatter Output', () => {
+  const records: FrontmatterRecord[] = [
+    { path: 'posts/a.md', frontmatter: { title: 'Commas, "quotes"\nand lines', author: { name: 'Jane' } } },
+    { path: 'posts/b.md', frontmatter: { draft: true, title: 'B' } },
+    { path: 'posts/c.md', frontmatter: null }
+  ]
+
+  test('should key JSON and YAML by path, or print a single record as is', () => {
+    assert.deepStrictEqual(JSON.parse(formatFrontmatterRecords(records, 'json')), {
+      'posts/a.md': records[0]!.frontmatter,
+      'posts/b.md': records[1]!.frontmatter,
+      'posts/c.md': null
+    })
+    assert.strictEqual(formatFrontmatterRecords([records[2]!], 'json', { single: true }), 'null')
+    assert.strictEqual(formatFrontmatterRecords([records[1]!], 'yaml', { single: true }), 'draft: true\ntitle: B')
+  })
+
+  test('should quote CSV cells and print lists and mappings as JSON', () => {
+    assert.strictEqual(formatFrontmatterRecords(records, 'csv'), [
+      'path,title,author,draft',
+      'posts/a.md,"Commas, ""quotes""\nand lines","{""name"":""Jane""}",',
+      'posts/b.md,B,,true',
+      'posts/c.md,,,'
+    ].join('\n'))
+  })
+
+  test('should keep table rows on one line and cut off long cells', () => {
+    const table = formatFrontmatterRecords([{ path: 'a.md', frontmatter: { summary: 'word '.repeat(20) } }], 'table')
+    const [header, separator, row] = table.split('\n')
+
+    assert.strictEqual(header, `path  summary`)
+    assert.strictEqual(separator, `----  ${'-'.repeat(60)}`)
+    assert.strictEqual(row, `a.md  ${'word '.repeat(11)}word…`)
+  })
+})
@@ -0,0 +1,215 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import fs from 'node:fs/promises'
+import { z } from 'zod'
+import { FrontmatterValidator, loadFrontmatterSchema } from '../src/utils/frontmatter-validator.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const fixturesDir = path.join(__dirname, '__fixtures__')
+
+describe('FrontmatterValidator', () => {
+  async function createTestFile(fixtureName: string): Promise<string> {
+    const testFilePath = path.join(fixturesDir, `test-validate-${fixtureName}`)
+    const originalContent = await fs.readFile(path.join(fixturesDir, fixtureName), 'utf-8')
+    await fs.writeFile(testFilePath, originalContent, 'utf-8')
+    return testFilePath
+  }
+
+  async function cleanupTestFile(testFilePath: string): Promise<void> {
+    try {
+      await fs.unlink(testFilePath)
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  }
+
+  describe('Unit Tests', () => {
+    test('should create instance with resolved file path', async () => {
+      const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.json'))
+      const validator = new FrontmatterValidator('./test.md', { schema })
+      assert.strictEqual(validator.getFilePath(), path.resolve('./test.md'))
+    })
+
+    test('should load a JSON Schema file', async () => {
+      const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.json'))
+      assert.strictEqual(schema.type, 'json-schema')
+    })
+
+    test('should load a zod schema from a module', async () => {
+      const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.mjs'))
+      assert.strictEqual(schema.type, 'zod')
+    })
+
+    test('should reject schema files that cannot be loaded', async () => {
+      await assert.rejects(
+        loadFrontmatterSchema(path.join(fixturesDir, 'missing-schema.json')),
+        /Failed to load schema/
+      )
+    })
+  })
+
+  describe('Integration Tests', () => {
+    test('should pass valid frontmatter', async () => {
+      const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.json'))
+      const validator = new FrontmatterValidator(path.join(fixturesDir, 'sample-blog-post.md'), { schema })
+
+      const result = await validator.validate()
+
+      assert.strictEqual(result.valid, true)
+      assert.deepStrictEqual(result.violations, [])
+    })
+
+    test('should report every JSON Schema violation with file and field path', async () => {
+      const filePath = path.join(fixturesDir, 'invalid-frontmatter.md')
+      const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.json'))
+      const validator = new FrontmatterValidator(filePath, { schema })
+
+      const result = await validator.validate()
+
+      assert.strictEqual(result.valid, false)
+      assert.deepStrictEqual(result.violations.map(violation => violation.field).sort(), ['date', 'tags', 'title'])
+      assert.ok(result.violations.every(violation => violation.filePath === filePath))
+    })
+
+    test('should report zod schema violations', async () => {
+      const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.mjs'))
+      const validator = new FrontmatterValidator(path.join(fixturesDir, 'invalid-frontmatter.md'), { schema })
+
+      const result = await validator.validate()
+
+      assert.strictEqual(result.valid, false)
+      assert.deepStrictEqual(result.violations.map(violation => violation.field).sort(), ['date', 'tags', 'title'])
+    })
+
+    test('should report array item paths with bracket notation', async () => {
+      const schema = {
+        type: 'zod' as const,
+        schema: z.object({ tags: z.array(z.string()) })
+      }
+      const testFilePath = await createTestFile('sample-blog-post.md')
+      try {
+        await fs.writeFile(testFilePath, '---\ntags: [valid, 42]\n---\n', 'utf-8')
+        const validator = new FrontmatterValidator(testFilePath, { schema })
+
+        const result = await validator.validate()
+
+        assert.deepStrictEqual(result.violations.map(violation => violation.field), ['tags[1]'])
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should report files without frontmatter', async () => {
+      const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.json'))
+      const validator = new FrontmatterValidator(path.join(fixturesDir, 'no-frontmatter.md'), { schema })
+
+      const result = await validator.validate()
+
+      assert.strictEqual(result.valid, false)
+      assert.strictEqual(result.violations[0]?.message, 'No frontmatter found')
+    })
+
+    test('should apply defaults and coercions with fix', async () => {
+      const testFilePath = await createTestFile('invalid-frontmatter.md')
+      try {
+        const schema = await loadFrontmatterSchema(path.join(fixturesDir, 'frontmatter-schema.json'))
+        const validator = new FrontmatterValidator(testFilePath, { schema, fix: true })
+
+        const result = await validator.validate()
+
+        assert.deepStrictEqual(result.fixedFields.sort(), ['draft', 'tags'])
+        assert.deepStrictEqual(result.violations.map(violation => violation.field).sort(), ['date', 'title'])
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(updatedContent, /^tags:\n {2}- javascript$/m)
+        assert.match(updatedContent, /^draft: false$/m)
+        assert.match(updatedContent, /^author: Jane Doe$/m) // Preserved
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+  })
+
+  describe('End-to-End Tests', () => {
+    test('should run CLI and exit non-zero when violations are found', async () => {
+      const { spawn } = await import('node:child_process')
+
+      return new Promise<void>((resolve, reject) => {
+        const cliProcess = spawn('node', [
+          'dist/bin/cli.cjs',
+          'validate-frontmatter',
+          path.join(fixturesDir, 'sample-blog-post.md'),
+          path.join(fixturesDir, 'invalid-frontmatter.md'),
+          `--schema=${path.join(fixturesDir, 'frontmatter-schema.json')}`
+        ], {
+          stdio: ['pipe', 'pipe', 'pipe']
+        })
+
+        let stderr = ''
+
+        cliProcess.stderr.on('data', (data) => {
+          stderr += data.toString()
+        })
+
+        cliProcess.on('close', (code) => {
+          try {
+            assert.strictEqual(code, 7)
+            assert.match(stderr, /invalid-frontmatter\.md: title: must have required property 'title'/)
+            assert.match(stderr, /invalid-frontmatter\.md: tags: must be array/)
+            assert.match(stderr, /Found 3 violation\(s\) in 1 of 2 file\(s\)/)
+            resolve()
+          } catch (error) {
+            reject(error)
+          }
+        })
+
+        cliProcess.on('error', (error) => {
+          reject(new Error(`Failed to spawn CLI process: ${error}`))
+        })
+      })
+    })
+
+    test('should run CLI and pass valid files', async () => {
+      const { spawn } = await import('node:child_process')
+
+      return new Promise<void>((resolve, reject) => {
+        const cliProcess = spawn('node', [
+          'dist/bin/cli.cjs',
+          'validate-frontmatter',
+          path.join(fixturesDir, 'sample-blog-post.md'),
+          `--schema=${path.join(fixturesDir, 'frontmatter-schema.mjs')}`
+        ], {
+          stdio: ['pipe', 'pipe', 'pipe']
+        })
+
+        let stdout = ''
+        let stderr = ''
+
+        cliProcess.stdout.on('data', (data) => {
+          stdout += data.toString()
+        })
+
+        cliProcess.stderr.on('data', (data) => {
+          stderr += data.toString()
+        })
+
+        cliProcess.on('close', (code) => {
+          if (code !== 0) {
+            reject(new Error(`CLI process exited with code ${code}. Stderr: ${stderr}`))
+            return
+          }
+
+          assert.strictEqual(stdout.trim(), 'All 1 file(s) passed validation')
+          resolve()
+        })
+
+        cliProcess.on('error', (error) => {
+          reject(new Error(`Failed to spawn CLI process: ${error}`))
+        })
+      })
+    })
+  })
+})
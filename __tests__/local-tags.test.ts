@@ -0,0 +1,101 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { KeywordCorpus, LocalTagProvider, buildKeywordCorpus } from '../src/utils/local-tags.js'
+import { FakeLLMProvider, createFallbackProvider, createLLMProvider } from '../src/utils/llm-providers.js'
+import type { TagGenerationRequest } from '../src/utils/llm-providers.js'
+import type { TagContextInput } from '../src/utils/tag-context.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const fixturesDir = path.join(__dirname, '__fixtures__')
+
+describe('LocalTagProvider', () => {
+  function createRequest (context: TagContextInput, tagCount = 3): TagGenerationRequest {
+    return { system: '', prompt: '', context, tagCount, maxTokens: 150, temperature: 0.7 }
+  }
+
+  const streamsPost: TagContextInput = {
+    frontmatter: { title: 'Streams in Node.js', description: 'How to use streams for large files' },
+    summary: {
+      text: '# Streams in Node.js\nStreams process data piece by piece instead of loading it into memory.\n## Backpressure\nBackpressure keeps streams from using too much memory.',
+      codeLanguages: ['js']
+    }
+  }
+
+  describe('Unit Tests', () => {
+    test('should rank known technology terms and frequent words, without stopwords', async () => {
+      const tags = await new LocalTagProvider().generateTags(createRequest(streamsPost))
+
+      assert.deepStrictEqual(tags, ['nodejs', 'streams', 'javascript'])
+    })
+
+    test('should return at most the requested number of tags', async () => {
+      const tags = await new LocalTagProvider().generateTags(createRequest(streamsPost, 5))
+
+      assert.strictEqual(tags.length, 5)
+      assert.ok(!tags.includes('the'))
+      assert.ok(!tags.includes('how'))
+    })
+
+    test('should apply configured stopwords and technology terms', async () => {
+      const provider = new LocalTagProvider({
+        stopwords: ['streams'],
+        terms: { backpressure: 'flow-control' }
+      })
+      const tags = await provider.generateTags(createRequest(streamsPost))
+
+      assert.ok(!tags.includes('streams'))
+      assert.ok(tags.includes('flow-control'))
+    })
+
+    test('should match multi-word technology terms', async () => {
+      const tags = await new LocalTagProvider().generateTags(createRequest({
+        frontmatter: { title: 'Deploying with GitHub Actions' },
+        summary: null
+      }, 1))
+
+      assert.deepStrictEqual(tags, ['github-actions'])
+    })
+
+    test('should score terms that are common across the corpus lower', async () => {
+      const corpus = new KeywordCorpus()
+      for (let index = 0; index < 5; index++) {
+        corpus.addDocument(['streams', 'performance'])
+      }
+      corpus.addDocument(['backpressure'])
+
+      const context: TagContextInput = { frontmatter: { title: 'Streams backpressure' }, summary: null }
+      const tags = await new LocalTagProvider({ corpus }).generateTags(createRequest(context, 1))
+
+      assert.deepStrictEqual(tags, ['backpressure'])
+      assert.strictEqual(corpus.getDocumentCount(), 6)
+    })
+  })
+
+  describe('Integration Tests', () => {
+    test('should build a corpus from content files', async () => {
+      const corpus = await buildKeywordCorpus(path.join(fixturesDir, '*.md'))
+
+      assert.ok(corpus.getDocumentCount() > 5)
+      assert.ok(corpus.getInverseDocumentFrequency('title') < corpus.getInverseDocumentFrequency('backpressure'))
+    })
+
+    test('should fall back to local tags when the provider fails', async () => {
+      const primary = new FakeLLMProvider([new Error('Service unavailable')])
+      const provider = createFallbackProvider(primary, new LocalTagProvider())
+
+      const tags = await provider.generateTags(createRequest(streamsPost))
+
+      assert.strictEqual(primary.calls.length, 1)
+      assert.deepStrictEqual(tags, ['nodejs', 'streams', 'javascript'])
+    })
+
+    test('should create the local provider by name without an API key', () => {
+      const provider = createLLMProvider({ provider: 'local', model: 'tf-idf', baseUrl: '' })
+
+      assert.ok(provider instanceof LocalTagProvider)
+    })
+  })
+})
@@ -2,7 +2,8 @@ import { test, describe } from 'node:test'
 import assert from 'node:assert'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { MarkdownFrontmatterExtractor } from '../src/utils/markdown-frontmatter-extractor.js'
+import { MarkdownFrontmatterExtractor, extractFrontmatterFromFiles } from '../src/utils/markdown-frontmatter-extractor.js'
+import { runCli } from './__fixtures__/run-cli.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -51,6 +52,22 @@ describe('MarkdownFrontmatterExtractor', () => {
       })
     })
 
+    test('should filter nested fields by path', async () => {
+      const filePath = path.join(fixturesDir, 'nested-frontmatter-post.md')
+      const extractor = new MarkdownFrontmatterExtractor(filePath, {
+        fields: ['title', 'author.name', 'images[1].alt', 'seo["og.image"]', 'images[5].src']
+      })
+
+      const result = await extractor.extract()
+
+      assert.deepStrictEqual(result, {
+        title: 'Shipping Images at the Edge',
+        'author.name': 'Jane Smith',
+        'images[1].alt': 'Latency chart',
+        'seo["og.image"]': '/images/edge-og.png'
+      })
+    })
+
     test('should handle files without frontmatter', async () => {
       const filePath = path.join(fixturesDir, 'no-frontmatter.md')
       const extractor = new MarkdownFrontmatterExtractor(filePath)
@@ -61,6 +78,122 @@ describe('MarkdownFrontmatterExtractor', () => {
     })
   })
 
+  describe('Frontmatter Format Tests', () => {
+    test('should extract TOML frontmatter', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'hugo-toml-post.md'))
+
+      const result = await extractor.extract()
+
+      assert.deepStrictEqual(result, {
+        title: 'Deploying Hugo Sites',
+        date: '2024-02-01',
+        tags: ['hugo', 'deployment'],
+        draft: false
+      })
+    })
+
+    test('should extract fenced JSON frontmatter', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'eleventy-json-post.md'))
+
+      const result = await extractor.extract()
+
+      assert.deepStrictEqual(result, {
+        title: 'Eleventy Data Cascade',
+        date: '2024-03-10',
+        tags: ['eleventy', 'ssg']
+      })
+    })
+
+    test('should extract bare JSON frontmatter', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'hugo-json-post.md'))
+
+      const result = await extractor.extract()
+
+      assert.deepStrictEqual(result, {
+        title: 'Hugo JSON Frontmatter',
+        draft: true
+      })
+    })
+
+    test('should only detect the forced format', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'hugo-toml-post.md'), { format: 'yaml' })
+
+      const result = await extractor.extract()
+
+      assert.strictEqual(result, null)
+    })
+  })
+
+  describe('Content Syntax Tests', () => {
+    test('should extract frontmatter from MDX files', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'mdx-post.mdx'))
+
+      const result = await extractor.extract()
+
+      assert.deepStrictEqual(result, {
+        title: 'Building Interactive Docs with MDX',
+        tags: ['mdx']
+      })
+    })
+
+    test('should parse MDX bodies with ESM and JSX support', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'mdx-post.mdx'))
+
+      const content = await extractor.extractContent()
+      const nodeTypes = content.tree.children.map(node => node.type)
+
+      assert.strictEqual(content.syntax, 'mdx')
+      assert.deepStrictEqual(content.frontmatter, {
+        title: 'Building Interactive Docs with MDX',
+        tags: ['mdx']
+      })
+      assert.ok(nodeTypes.includes('mdxjsEsm'))
+      assert.ok(nodeTypes.includes('mdxJsxFlowElement'))
+      assert.ok(content.body.startsWith('\nimport { Callout }'))
+    })
+
+    test('should parse Markdoc bodies without tag syntax', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'markdoc-post.mdoc'))
+
+      const content = await extractor.extractContent()
+      const paragraphs = content.tree.children
+        .filter(node => node.type === 'paragraph')
+        .map(node => JSON.stringify(node))
+
+      assert.strictEqual(content.syntax, 'markdoc')
+      assert.strictEqual(paragraphs.length, 2)
+      assert.ok(paragraphs.every(paragraph => !paragraph.includes('{%')))
+      assert.match(paragraphs[0] ?? '', /Markdoc tags wrap regular markdown content/)
+    })
+  })
+
+  describe('Multiple File Tests', () => {
+    test('should extract frontmatter from glob matches keyed by path', async () => {
+      const results = await extractFrontmatterFromFiles(
+        path.join(fixturesDir, '{sample-blog-post,minimal-frontmatter,no-frontmatter}.md'),
+        { fields: ['title'] }
+      )
+
+      assert.deepStrictEqual(results, {
+        [path.join(fixturesDir, 'minimal-frontmatter.md')]: { title: 'Minimal Post' },
+        [path.join(fixturesDir, 'no-frontmatter.md')]: null,
+        [path.join(fixturesDir, 'sample-blog-post.md')]: { title: 'Getting Started with TypeScript' }
+      })
+    })
+
+    test('should extract frontmatter from multiple paths', async () => {
+      const results = await extractFrontmatterFromFiles([
+        path.join(fixturesDir, 'hugo-toml-post.md'),
+        path.join(fixturesDir, '*.mdx')
+      ], { fields: ['title'] })
+
+      assert.deepStrictEqual(Object.keys(results), [
+        path.join(fixturesDir, 'hugo-toml-post.md'),
+        path.join(fixturesDir, 'mdx-post.mdx')
+      ])
+    })
+  })
+
   describe('End-to-End Tests', () => {
     test('should work with real file system operations', async () => {
       const filePath = path.join(fixturesDir, 'minimal-frontmatter.md')
@@ -180,6 +313,56 @@ describe('MarkdownFrontmatterExtractor', () => {
       })
     })
 
+    test('should run CLI with multiple paths and print results keyed by path', async () => {
+      const { spawn } = await import('node:child_process')
+
+      return new Promise<void>((resolve, reject) => {
+        const cliProcess = spawn('node', [
+          'dist/bin/cli.cjs',
+          'extract-frontmatter',
+          path.join(fixturesDir, '{sample-blog-post,minimal-frontmatter}.md'),
+          path.join(fixturesDir, 'mdx-post.mdx'),
+          '--fields=title'
+        ], {
+          stdio: ['pipe', 'pipe', 'pipe']
+        })
+
+        let stdout = ''
+        let stderr = ''
+
+        cliProcess.stdout.on('data', (data) => {
+          stdout += data.toString()
+        })
+
+        cliProcess.stderr.on('data', (data) => {
+          stderr += data.toString()
+        })
+
+        cliProcess.on('close', (code) => {
+          if (code !== 0) {
+            reject(new Error(`CLI process exited with code ${code}. Stderr: ${stderr}`))
+            return
+          }
+
+          try {
+            const result = JSON.parse(stdout)
+            assert.deepStrictEqual(result, {
+              [path.relative(process.cwd(), path.join(fixturesDir, 'minimal-frontmatter.md'))]: { title: 'Minimal Post' },
+              [path.relative(process.cwd(), path.join(fixturesDir, 'sample-blog-post.md'))]: { title: 'Getting Started with TypeScript' },
+              [path.relative(process.cwd(), path.join(fixturesDir, 'mdx-post.mdx'))]: { title: 'Building Interactive Docs with MDX' }
+            })
+            resolve()
+          } catch (error) {
+            reject(new Error(`Failed to parse CLI output: ${error}. Stdout: ${stdout}`))
+          }
+        })
+
+        cliProcess.on('error', (error) => {
+          reject(new Error(`Failed to spawn CLI process: ${error}`))
+        })
+      })
+    })
+
     test('should run CLI and handle files without frontmatter', async () => {
       const { spawn } = await import('node:child_process')
       
@@ -209,7 +392,7 @@ describe('MarkdownFrontmatterExtractor', () => {
             return
           }
 
-          assert.strictEqual(stdout.trim(), 'No frontmatter found')
+          assert.strictEqual(stdout.trim(), 'null')
           resolve()
         })
 
@@ -219,6 +402,76 @@ describe('MarkdownFrontmatterExtractor', () => {
       })
     })
 
+    describe('Output Formats', () => {
+      const postPaths = ['sample-blog-post.md', 'minimal-frontmatter.md', 'no-frontmatter.md'].map(name => path.join(fixturesDir, name))
+      const relativePaths = postPaths.map(postPath => path.relative(process.cwd(), postPath))
+
+      test('should read the document from stdin for -', async () => {
+        const { code, stdout } = await runCli(['extract-frontmatter', '-', '--fields=title', '--format=ndjson'], { input: '---\ntitle: From stdin\n---\n\nBody\n' })
+
+        assert.strictEqual(code, 0)
+        assert.deepStrictEqual(JSON.parse(stdout), { path: '-', frontmatter: { title: 'From stdin' } })
+      })
+
+      test('should print one NDJSON record per file with its path', async () => {
+        const { code, stdout } = await runCli(['extract-frontmatter', ...postPaths, '--fields=title', '--format=ndjson'])
+
+        assert.strictEqual(code, 0)
+        assert.deepStrictEqual(stdout.trim().split('\n').map(line => JSON.parse(line)), [
+          { path: relativePaths[0], frontmatter: { title: 'Getting Started with TypeScript' } },
+          { path: relativePaths[1], frontmatter: { title: 'Minimal Post' } },
+          { path: relativePaths[2], frontmatter: null }
+        ])
+      })
+
+      test('should print CSV with the union of fields as columns', async () => {
+        const { code, stdout } = await runCli(['extract-frontmatter', ...postPaths, '--fields=title,tags,draft', '--format=csv'])
+
+        assert.strictEqual(code, 0)
+        assert.deepStrictEqual(stdout.trim().split('\n'), [
+          'path,title,tags,draft',
+          `${relativePaths[0]},Getting Started with TypeScript,"[""typescript"",""programming"",""tutorial""]",false`,
+          `${relativePaths[1]},Minimal Post,,`,
+          `${relativePaths[2]},,,`
+        ])
+      })
+
+      test('should print an aligned table', async () => {
+        const { code, stdout } = await runCli(['extract-frontmatter', postPaths[0]!, '--fields=title,draft', '--format=table'])
+        const width = relativePaths[0]!.length
+
+        assert.strictEqual(code, 0)
+        assert.deepStrictEqual(stdout.trimEnd().split('\n'), [
+          `${'path'.padEnd(width)}  title                            draft`,
+          `${'-'.repeat(width)}  -------------------------------  -----`,
+          `${relativePaths[0]}  Getting Started with TypeScript  false`
+        ])
+      })
+
+      test('should print YAML', async () => {
+        const { code, stdout } = await runCli(['extract-frontmatter', postPaths[0]!, '--fields=title,tags', '--format=yaml'])
+
+        assert.strictEqual(code, 0)
+        assert.strictEqual(stdout, 'title: Getting Started with TypeScript\ntags:\n  - typescript\n  - programming\n  - tutorial\n')
+      })
+
+      test('should exit with code 2 for files without frontmatter when asked to', async () => {
+        const missing = await runCli(['extract-frontmatter', postPaths[2]!, '--fail-on-missing'])
+        assert.strictEqual(missing.code, 2)
+        assert.strictEqual(missing.stdout.trim(), 'null')
+
+        const found = await runCli(['extract-frontmatter', postPaths[0]!, '--fail-on-missing'])
+        assert.strictEqual(found.code, 0)
+      })
+
+      test('should reject unknown output formats', async () => {
+        const { code, stderr } = await runCli(['extract-frontmatter', postPaths[0]!, '--format=xml'])
+
+        assert.strictEqual(code, 3)
+        assert.match(stderr, /Unsupported output format 'xml', expected one of json, ndjson, yaml, csv, table/)
+      })
+    })
+
     test('should run CLI and show usage for no arguments', async () => {
       const { spawn } = await import('node:child_process')
       
@@ -241,13 +494,16 @@ describe('MarkdownFrontmatterExtractor', () => {
         })
 
         cliProcess.on('close', (code) => {
-          // CLI should exit with error code 1 when no arguments provided
-          if (code !== 1) {
-            reject(new Error(`CLI process exited with code ${code}, but expected 1`))
+          // CLI should exit with the usage error code when no arguments provided
+          if (code !== 3) {
+            reject(new Error(`CLI process exited with code ${code}, but expected 3`))
             return
           }
 
-          assert.strictEqual(stderr.trim(), 'Usage: devrel-blog-utils <command> [options]\n\nCommands:\n  extract-frontmatter <file-path> [--fields field1,field2]\n    Extract frontmatter from a markdown file\n  \n  update-frontmatter <file-path> [--update \'{"field":"value"}\' | --set field="value" | --remove field1,field2 | --create]\n    Update frontmatter in a markdown file\n  \n  generate-tags <file-path> [--create]\n    Generate AI-powered tags for a markdown file\n\nExamples:\n  devrel-blog-utils extract-frontmatter ./blog-post.md\n  devrel-blog-utils extract-frontmatter ./blog-post.md --fields=title,author\n  devrel-blog-utils update-frontmatter ./blog-post.md --update=\'{"title":"New Title"}\'\n  devrel-blog-utils update-frontmatter ./blog-post.md --set title="New Title" author="New Author"\n  devrel-blog-utils update-frontmatter ./blog-post.md --remove tags,draft\n  devrel-blog-utils update-frontmatter ./blog-post.md --create --update=\'{"title":"New Post"}\'\n  devrel-blog-utils generate-tags ./blog-post.md\n  devrel-blog-utils generate-tags ./blog-post.md --create')
+          assert.match(stderr, /^Usage: devrel-blog-utils <command> \[options\]\n/)
+          for (const command of ['extract-frontmatter', 'update-frontmatter', 'generate-tags', 'validate-frontmatter', 'build-index', 'generate-feed', 'generate-sitemap', 'undo', 'config', 'cache']) {
+            assert.match(stderr, new RegExp(`^  ${command}( |$)`, 'm'), `usage should list the ${command} command`)
+          }
           resolve()
         })
 
@@ -3,7 +3,9 @@ import assert from 'node:assert'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
 import fs from 'node:fs/promises'
+import os from 'node:os'
 import { MarkdownFrontmatterUpdater } from '../src/utils/markdown-frontmatter-updater.js'
+import { runCli } from './__fixtures__/run-cli.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -187,6 +189,462 @@ describe('MarkdownFrontmatterUpdater', () => {
         await cleanupTestFile(testFilePath)
       }
     })
+
+    test('should leave the markdown body byte-for-byte untouched', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const body = [
+          '# Heading',
+          '',
+          '* star bullet',
+          '+ plus bullet',
+          '',
+          '_emphasis_ and __strong__',
+          '',
+          '| a | b |',
+          '|---|---|',
+          '| 1 | 2 |',
+          '',
+          '<div class="note">*raw*</div>',
+          '',
+          '{% include "card.njk" %}',
+          '<Callout type="info">{props.text}</Callout>',
+          ''
+        ].join('\n')
+        await fs.writeFile(testFilePath, `---\ntitle: Original\n---\n${body}`, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ title: 'Updated' })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, `---\ntitle: Updated\n---\n${body}`)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should preserve CRLF line endings and a byte order mark', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const original = '\uFEFF---\r\ntitle: Original\r\ndraft: true\r\n---\r\n\r\n# Post\r\n\r\nBody text.\r\n'
+        await fs.writeFile(testFilePath, original, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.removeFields(['draft'])
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, '\uFEFF---\r\ntitle: Original\r\n---\r\n\r\n# Post\r\n\r\nBody text.\r\n')
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+  })
+
+  describe('Formatting Preservation Tests', () => {
+    const commentedFrontmatter = [
+      '---',
+      '# Post metadata',
+      'title: "Original Title" # shown in the header',
+      "date: '2024-01-15'",
+      'tags: [javascript, node]',
+      'draft: true',
+      '---',
+      '',
+      '# Post',
+      ''
+    ].join('\n')
+
+    test('should keep comments, key order and quoting styles of untouched keys', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.writeFile(testFilePath, commentedFrontmatter, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ draft: false })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, commentedFrontmatter.replace('draft: true', 'draft: false'))
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should keep the style of replaced values', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.writeFile(testFilePath, commentedFrontmatter, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ title: 'New Title', tags: ['react', 'astro'] })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(updatedContent, /^title: "New Title" # shown in the header$/m)
+        assert.match(updatedContent, /^tags: \[react, astro\]$/m)
+        assert.match(updatedContent, /^# Post metadata$/m)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should append new keys at the end by default', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.writeFile(testFilePath, commentedFrontmatter, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ author: 'Jane' })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(updatedContent, /draft: true\nauthor: Jane\n---\n/)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should insert new keys at the configured position', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.writeFile(testFilePath, commentedFrontmatter, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath, { newKeyPosition: { after: 'title' } })
+        await updater.updateFields({ author: 'Jane' })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(updatedContent, /# shown in the header\nauthor: Jane\ndate: '2024-01-15'/)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should keep comments when removing fields', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.writeFile(testFilePath, commentedFrontmatter, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.removeFields(['tags'])
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, commentedFrontmatter.replace('tags: [javascript, node]\n', ''))
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should reformat the whole block when preserveFormatting is false', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.writeFile(testFilePath, commentedFrontmatter, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath, { preserveFormatting: false })
+        await updater.updateFields({ draft: false })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.doesNotMatch(updatedContent, /# Post metadata/)
+        assert.match(updatedContent, /tags:\n {2}- javascript\n {2}- node/)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+  })
+
+  describe('Dry Run Tests', () => {
+    test('should compute the update without writing in dry-run mode', async () => {
+      const { testFilePath, originalContent } = await createTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath, { dryRun: true })
+        const result = await updater.updateFields({ title: 'Dry Run Title', draft: true })
+
+        assert.strictEqual(result.changed, true)
+        assert.strictEqual(result.written, false)
+        assert.deepStrictEqual(result.changedFields.sort(), ['draft', 'title'])
+        assert.strictEqual(result.originalContent, originalContent)
+        assert.match(result.updatedContent, /title: Dry Run Title/)
+        assert.strictEqual(await fs.readFile(testFilePath, 'utf-8'), originalContent)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should report written updates and unchanged files', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+
+        const removal = await updater.removeFields(['status'])
+        assert.strictEqual(removal.written, true)
+        assert.deepStrictEqual(removal.changedFields, ['status'])
+
+        const repeated = await updater.removeFields(['status'])
+        assert.strictEqual(repeated.changed, false)
+        assert.strictEqual(repeated.written, false)
+        assert.deepStrictEqual(repeated.changedFields, [])
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should write atomically without leaving temp files behind', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-atomic-'))
+      try {
+        const postPath = path.join(tempDir, 'post.md')
+        await fs.copyFile(path.join(fixturesDir, 'updatable-post.md'), postPath)
+        await fs.chmod(postPath, 0o640)
+
+        const updater = new MarkdownFrontmatterUpdater(postPath)
+        await updater.updateFields({ title: 'Atomic Title' })
+
+        assert.deepStrictEqual(await fs.readdir(tempDir), ['post.md'])
+        assert.strictEqual((await fs.stat(postPath)).mode & 0o777, 0o640)
+        assert.match(await fs.readFile(postPath, 'utf-8'), /title: Atomic Title/)
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('Frontmatter Format Tests', () => {
+    test('should update TOML frontmatter and keep the +++ fences', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const original = await fs.readFile(path.join(fixturesDir, 'hugo-toml-post.md'), 'utf-8')
+        await fs.writeFile(testFilePath, original, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ tags: ['hugo', 'netlify'] })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(updatedContent, /^\+\+\+\ntitle = "Deploying Hugo Sites"\n/)
+        assert.match(updatedContent, /date = 2024-02-01\n/) // TOML date type kept
+        assert.match(updatedContent, /tags = \[ "hugo", "netlify" \]/)
+        assert.ok(updatedContent.endsWith('+++\n\n# Deploying Hugo Sites\n\nThis post uses TOML frontmatter.\n'))
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should update fenced JSON frontmatter and keep its indentation', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const original = await fs.readFile(path.join(fixturesDir, 'eleventy-json-post.md'), 'utf-8')
+        await fs.writeFile(testFilePath, original, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.removeFields(['date'])
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, original.replace('  "date": "2024-03-10",\n', ''))
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should update bare JSON frontmatter', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const original = await fs.readFile(path.join(fixturesDir, 'hugo-json-post.md'), 'utf-8')
+        await fs.writeFile(testFilePath, original, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ draft: false })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, original.replace('"draft": true', '"draft": false'))
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should create frontmatter in the forced format', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.writeFile(testFilePath, '# No Frontmatter Post\n', 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath, { createIfMissing: true, format: 'toml' })
+        await updater.updateFields({ title: 'New Post' })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, '+++\ntitle = "New Post"\n+++\n\n# No Frontmatter Post\n')
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+  })
+
+  describe('Content Syntax Tests', () => {
+    test('should update MDX frontmatter without touching imports or JSX', async () => {
+      const testFilePath = path.join(fixturesDir, 'test-update-post.mdx')
+      try {
+        const original = await fs.readFile(path.join(fixturesDir, 'mdx-post.mdx'), 'utf-8')
+        await fs.writeFile(testFilePath, original, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ tags: ['mdx', 'react'] })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, original.replace('tags: [mdx]', 'tags: [mdx, react]'))
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should update Markdoc frontmatter without touching tags', async () => {
+      const testFilePath = path.join(fixturesDir, 'test-update-post.mdoc')
+      try {
+        const original = await fs.readFile(path.join(fixturesDir, 'markdoc-post.mdoc'), 'utf-8')
+        await fs.writeFile(testFilePath, original, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ draft: true })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, original.replace('title: Writing Content with Markdoc\n', 'title: Writing Content with Markdoc\ndraft: true\n'))
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+  })
+
+  describe('Tag Normalization Tests', () => {
+    test('should normalize tags set through updates and leave other fields alone', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath, {
+          tagNormalization: { case: 'kebab-case', synonyms: { js: 'javascript' } }
+        })
+        await updater.updateFields({ tags: ['JS', 'Web Performance', 'javascript'], title: 'Mixed Case Title' })
+
+        const frontmatter = await updater.getCurrentFrontmatter()
+        assert.deepStrictEqual(frontmatter?.tags, ['javascript', 'web-performance'])
+        assert.strictEqual(frontmatter?.title, 'Mixed Case Title')
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+  })
+
+  describe('Field Path Tests', () => {
+    async function createNestedTestFile (): Promise<string> {
+      const { testFilePath } = await createTestFile()
+      await fs.copyFile(path.join(fixturesDir, 'nested-frontmatter-post.md'), testFilePath)
+      return testFilePath
+    }
+
+    test('should set and remove nested fields and keep comments', async () => {
+      const testFilePath = await createNestedTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        const result = await updater.applyOperations([
+          { type: 'set', field: 'author.name', value: 'Jane Doe' },
+          { type: 'set', field: 'images[1].alt', value: 'Latency by region' },
+          { type: 'remove', field: 'images[0].credit' }
+        ])
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(updatedContent, /author:\n {2}name: Jane Doe\n {2}twitter: "@janesmith" # shown in the byline\n/)
+        assert.match(updatedContent, /alt: Latency by region\n/)
+        assert.doesNotMatch(updatedContent, /credit:/)
+        assert.deepStrictEqual(result.changedFields, ['author', 'images'])
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should create missing mappings and quote keys that contain dots', async () => {
+      const testFilePath = await createNestedTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ 'social.mastodon.handle': '@jane', 'seo["og.image"]': '/images/new-og.png' })
+
+        const frontmatter = await updater.getCurrentFrontmatter()
+        assert.deepStrictEqual(frontmatter?.social, { mastodon: { handle: '@jane' } })
+        assert.deepStrictEqual(frontmatter?.seo, { 'og.image': '/images/new-og.png' })
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should refuse to set a field below a scalar', async () => {
+      const testFilePath = await createNestedTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await assert.rejects(updater.updateFields({ 'title.text': 'New' }), /Cannot set title\.text, title is not a mapping or list/)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should only rewrite the changed keys of TOML frontmatter', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        const frontmatter = '# Hugo post\ntitle = "Deploying Hugo Sites" # shown in lists\ndate = 2024-02-01T10:00:00+02:00\nlastmod = 2024-03-05\ntags = ["hugo",\n  "deployment"]\ndraft = false\n\n[params]\nseries = "Hosting"\n'
+        await fs.writeFile(testFilePath, `+++\n${frontmatter}+++\n\nBody\n`, 'utf-8')
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ draft: true, weight: 3 })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.strictEqual(updatedContent, `+++\n${frontmatter.replace('draft = false\n', 'draft = true\nweight = 3\n')}+++\n\nBody\n`)
+        assert.deepStrictEqual(await updater.getCurrentFrontmatter(), {
+          title: 'Deploying Hugo Sites',
+          date: '2024-02-01T10:00:00.000+02:00',
+          lastmod: '2024-03-05',
+          tags: ['hugo', 'deployment'],
+          draft: true,
+          weight: 3,
+          params: { series: 'Hosting' }
+        })
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should set nested fields in TOML frontmatter', async () => {
+      const { testFilePath } = await createTestFile()
+      try {
+        await fs.copyFile(path.join(fixturesDir, 'hugo-toml-post.md'), testFilePath)
+
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.updateFields({ 'params.series': 'Hosting' })
+
+        const updatedContent = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(updatedContent, /\[params\]\nseries = "Hosting"\n/)
+        assert.match(updatedContent, /date = 2024-02-01\n/)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should append, prepend and remove list values', async () => {
+      const testFilePath = await createNestedTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await updater.appendValues({ tags: ['images', 'cdn'], keywords: ['edge'] })
+        await updater.prependValues({ tags: ['featured'] })
+        await updater.removeValues({ tags: ['performance'], missing: ['anything'] })
+
+        const frontmatter = await updater.getCurrentFrontmatter()
+        assert.deepStrictEqual(frontmatter?.tags, ['featured', 'cdn', 'images'])
+        assert.deepStrictEqual(frontmatter?.keywords, ['edge'])
+        assert.ok(!('missing' in frontmatter!))
+        assert.match(await fs.readFile(testFilePath, 'utf-8'), /tags: \[featured, cdn, images\]/)
+
+        const unchanged = await updater.appendValues({ tags: ['cdn'] })
+        assert.strictEqual(unchanged.changed, false)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should refuse list operations on fields that are not lists', async () => {
+      const testFilePath = await createNestedTestFile()
+      try {
+        const updater = new MarkdownFrontmatterUpdater(testFilePath)
+        await assert.rejects(updater.appendValues({ 'author.name': ['Joe'] }), /Failed to apply field operations in [^:]*: Cannot append values of author\.name, it is not a list/)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
   })
 
   describe('End-to-End Tests', () => {
@@ -288,6 +746,107 @@ describe('MarkdownFrontmatterUpdater', () => {
       })
     })
 
+    test('should run CLI and apply the same update to every matched file', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-update-'))
+      const postPaths = [path.join(tempDir, 'posts', 'first.md'), path.join(tempDir, 'posts', 'nested', 'second.md')]
+      for (const postPath of postPaths) {
+        await fs.mkdir(path.dirname(postPath), { recursive: true })
+        await fs.copyFile(path.join(fixturesDir, 'updatable-post.md'), postPath)
+      }
+      const { spawn } = await import('node:child_process')
+
+      return new Promise<void>((resolve, reject) => {
+        const cliProcess = spawn('node', [
+          'dist/bin/cli.cjs',
+          'update-frontmatter',
+          path.join(tempDir, 'posts', '**', '*.md'),
+          '--set',
+          'draft=false'
+        ], {
+          stdio: ['pipe', 'pipe', 'pipe']
+        })
+
+        let stdout = ''
+        let stderr = ''
+
+        cliProcess.stdout.on('data', (data) => {
+          stdout += data.toString()
+        })
+
+        cliProcess.stderr.on('data', (data) => {
+          stderr += data.toString()
+        })
+
+        cliProcess.on('close', (code) => {
+          if (code !== 0) {
+            reject(new Error(`CLI process exited with code ${code}. Stderr: ${stderr}`))
+            return
+          }
+
+          assert.strictEqual(stdout.trim(), 'Fields updated successfully in 2 file(s)')
+
+          Promise.all(postPaths.map(postPath => fs.readFile(postPath, 'utf-8'))).then(contents => {
+            for (const content of contents) {
+              assert.match(content, /^draft: "?false"?$/m)
+            }
+          }).then(resolve, reject).finally(() => fs.rm(tempDir, { recursive: true, force: true }))
+        })
+
+        cliProcess.on('error', (error) => {
+          reject(new Error(`Failed to spawn CLI process: ${error}`))
+        })
+      })
+    })
+
+    test('should run CLI in dry-run mode and print diffs as JSON without writing', async () => {
+      const { testFilePath, originalContent } = await createTestFile()
+      const { spawn } = await import('node:child_process')
+
+      return new Promise<void>((resolve, reject) => {
+        const cliProcess = spawn('node', [
+          'dist/bin/cli.cjs',
+          'update-frontmatter',
+          testFilePath,
+          '--remove=status',
+          '--dry-run',
+          '--diff-format=json'
+        ], {
+          stdio: ['pipe', 'pipe', 'pipe']
+        })
+
+        let stdout = ''
+        let stderr = ''
+
+        cliProcess.stdout.on('data', (data) => {
+          stdout += data.toString()
+        })
+
+        cliProcess.stderr.on('data', (data) => {
+          stderr += data.toString()
+        })
+
+        cliProcess.on('close', (code) => {
+          if (code !== 0) {
+            reject(new Error(`CLI process exited with code ${code}. Stderr: ${stderr}`))
+            return
+          }
+
+          Promise.resolve().then(async () => {
+            const output = JSON.parse(stdout)
+            assert.deepStrictEqual(output.summary, { filesChecked: 1, filesChanged: 1, changedFields: ['status'] })
+            assert.strictEqual(output.files[0].filePath, path.relative(process.cwd(), testFilePath))
+            assert.match(output.files[0].diff, /^--- a\/.*test-update-post\.md\n\+\+\+ b\//)
+            assert.match(output.files[0].diff, /^-status: published$/m)
+            assert.strictEqual(await fs.readFile(testFilePath, 'utf-8'), originalContent)
+          }).then(resolve, reject).finally(() => cleanupTestFile(testFilePath))
+        })
+
+        cliProcess.on('error', (error) => {
+          reject(new Error(`Failed to spawn CLI process: ${error}`))
+        })
+      })
+    })
+
     test('should run CLI and remove fields', async () => {
       // Use a separate fixture file that exists on disk
       const fixturePath = path.join(fixturesDir, 'cli-test-remove.md')
@@ -388,5 +947,216 @@ describe('MarkdownFrontmatterUpdater', () => {
         })
       })
     })
+
+    test('should run CLI and combine nested sets with list operations in one write', async () => {
+      const { testFilePath } = await createTestFile()
+      await fs.copyFile(path.join(fixturesDir, 'nested-frontmatter-post.md'), testFilePath)
+      const { spawn } = await import('node:child_process')
+
+      try {
+        const { code, stdout, stderr } = await new Promise<{ code: number | null, stdout: string, stderr: string }>((resolve, reject) => {
+          const cliProcess = spawn('node', [
+            'dist/bin/cli.cjs',
+            'update-frontmatter',
+            testFilePath,
+            '--set', 'author.name=Jane Doe',
+            '--append', 'tags=images', 'tags=edge',
+            '--remove-value', 'tags=cdn',
+            '--remove', 'images[1]'
+          ], {
+            stdio: ['pipe', 'pipe', 'pipe']
+          })
+
+          let stdout = ''
+          let stderr = ''
+          cliProcess.stdout.on('data', (data) => { stdout += data.toString() })
+          cliProcess.stderr.on('data', (data) => { stderr += data.toString() })
+          cliProcess.on('close', (code) => resolve({ code, stdout, stderr }))
+          cliProcess.on('error', reject)
+        })
+
+        assert.strictEqual(code, 0, stderr)
+        assert.strictEqual(stdout.trim(), 'Frontmatter updated successfully')
+
+        const frontmatter = await new MarkdownFrontmatterUpdater(testFilePath).getCurrentFrontmatter()
+        assert.strictEqual((frontmatter?.author as Record<string, unknown>).name, 'Jane Doe')
+        assert.deepStrictEqual(frontmatter?.tags, ['performance', 'images', 'edge'])
+        assert.strictEqual((frontmatter?.images as unknown[]).length, 1)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should run CLI and set typed values', async () => {
+      const { testFilePath } = await createTestFile()
+      const { spawn } = await import('node:child_process')
+
+      try {
+        const { code, stderr } = await new Promise<{ code: number | null, stdout: string, stderr: string }>((resolve, reject) => {
+          const cliProcess = spawn('node', [
+            'dist/bin/cli.cjs',
+            'update-frontmatter',
+            testFilePath,
+            '--set', 'draft=false', 'weight=3', 'series=null', 'tags=[hugo, netlify]', 'version:str=1.10',
+            'link=/search?q=a=b'
+          ], {
+            stdio: ['pipe', 'pipe', 'pipe']
+          })
+
+          let stdout = ''
+          let stderr = ''
+          cliProcess.stdout.on('data', (data) => { stdout += data.toString() })
+          cliProcess.stderr.on('data', (data) => { stderr += data.toString() })
+          cliProcess.on('close', (code) => resolve({ code, stdout, stderr }))
+          cliProcess.on('error', reject)
+        })
+
+        assert.strictEqual(code, 0, stderr)
+
+        const content = await fs.readFile(testFilePath, 'utf-8')
+        assert.match(content, /^draft: false$/m)
+        assert.match(content, /^weight: 3$/m)
+        assert.match(content, /^series: null$/m)
+        assert.match(content, /^version: "1.10"$/m)
+        assert.match(content, /^link: \/search\?q=a=b$/m)
+        const frontmatter = await new MarkdownFrontmatterUpdater(testFilePath).getCurrentFrontmatter()
+        assert.deepStrictEqual(frontmatter?.tags, ['hugo', 'netlify'])
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should run CLI and reject values that do not match their type hint', async () => {
+      const { testFilePath, originalContent } = await createTestFile()
+      const { spawn } = await import('node:child_process')
+
+      try {
+        const { code, stderr } = await new Promise<{ code: number | null, stdout: string, stderr: string }>((resolve, reject) => {
+          const cliProcess = spawn('node', ['dist/bin/cli.cjs', 'update-frontmatter', testFilePath, '--set', 'weight:int=heavy'], {
+            stdio: ['pipe', 'pipe', 'pipe']
+          })
+
+          let stdout = ''
+          let stderr = ''
+          cliProcess.stdout.on('data', (data) => { stdout += data.toString() })
+          cliProcess.stderr.on('data', (data) => { stderr += data.toString() })
+          cliProcess.on('close', (code) => resolve({ code, stdout, stderr }))
+          cliProcess.on('error', reject)
+        })
+
+        assert.strictEqual(code, 3)
+        assert.match(stderr, /Invalid value for weight:int, expected an integer but got 'heavy'/)
+        assert.strictEqual(await fs.readFile(testFilePath, 'utf-8'), originalContent)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+  })
+
+  describe('Streaming Tests', () => {
+    const post = '---\ntitle: Edge Functions\ntags: [edge]\n---\n\nEdge functions run close to users.\n'
+
+    test('should read the document from stdin and print the updated document', async () => {
+      const { code, stdout, stderr } = await runCli(['update-frontmatter', '-', '--set', 'draft=false', '--append', 'tags=serverless'], { input: post })
+
+      assert.strictEqual(code, 0, stderr)
+      assert.strictEqual(stdout, '---\ntitle: Edge Functions\ntags: [edge, serverless]\ndraft: false\n---\n\nEdge functions run close to users.\n')
+    })
+
+    test('should print a document without changes as it was read', async () => {
+      const { code, stdout } = await runCli(['update-frontmatter', '-', '--remove', 'missing'], { input: post })
+
+      assert.strictEqual(code, 0)
+      assert.strictEqual(stdout, post)
+    })
+
+    test('should print the updated file with --stdout and leave the file as it is', async () => {
+      const { testFilePath, originalContent } = await createTestFile()
+
+      try {
+        const { code, stdout, stderr } = await runCli(['update-frontmatter', testFilePath, '--set', 'title=Streamed', '--stdout'])
+
+        assert.strictEqual(code, 0, stderr)
+        assert.match(stdout, /^title: Streamed$/m)
+        assert.strictEqual(stdout.replace('title: Streamed', ''), originalContent.replace(/^title: .*$/m, ''))
+        assert.strictEqual(await fs.readFile(testFilePath, 'utf-8'), originalContent)
+      } finally {
+        await cleanupTestFile(testFilePath)
+      }
+    })
+
+    test('should print the document with generated tags and keep progress messages off stdout', async () => {
+      const { code, stdout, stderr } = await runCli(['generate-tags', '-', '--provider', 'local', '--tag-count', '2', '--no-cache'], { input: post })
+
+      assert.strictEqual(code, 0, stderr)
+      assert.match(stdout, /^---\ntitle: Edge Functions\ntags: \[edge, .+\]\n---\n\nEdge functions run close to users\.\n$/)
+      assert.match(stderr, /Generated tags for/)
+    })
+
+    test('should print the fixed document when validating stdin with --fix', async () => {
+      const schemaPath = path.join(os.tmpdir(), `stream-schema-${process.pid}.json`)
+      await fs.writeFile(schemaPath, JSON.stringify({ type: 'object', properties: { draft: { type: 'boolean' } } }), 'utf-8')
+
+      try {
+        const { code, stdout, stderr } = await runCli(['validate-frontmatter', '-', `--schema=${schemaPath}`, '--fix'], { input: '---\ntitle: Draft\ndraft: "true"\n---\n' })
+
+        assert.strictEqual(code, 0, stderr)
+        assert.strictEqual(stdout, '---\ntitle: Draft\ndraft: true\n---\n')
+        assert.match(stderr, /Fixed -: draft/)
+      } finally {
+        await fs.rm(schemaPath, { force: true })
+      }
+    })
+
+    test('should reject stdin combined with other paths, and --stdout with several files or --dry-run', async () => {
+      const fixturePath = path.join(fixturesDir, 'updatable-post.md')
+
+      const combined = await runCli(['update-frontmatter', '-', fixturePath, '--set', 'a=1'], { input: post })
+      assert.strictEqual(combined.code, 3)
+      assert.match(combined.stderr, /- reads from stdin and cannot be combined with other paths/)
+
+      const several = await runCli(['update-frontmatter', path.join(fixturesDir, '*.md'), '--set', 'a=1', '--stdout'])
+      assert.strictEqual(several.code, 3)
+      assert.match(several.stderr, /--stdout requires a single file path/)
+
+      const dryRun = await runCli(['update-frontmatter', fixturePath, '--set', 'a=1', '--stdout', '--dry-run'])
+      assert.strictEqual(dryRun.code, 3)
+      assert.match(dryRun.stderr, /--stdout cannot be combined with --dry-run/)
+    })
+  })
+
+  describe('JSON Output Tests', () => {
+    test('should print the result of every file and exit with the partial failure code', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-json-'))
+      try {
+        await fs.writeFile(path.join(tempDir, 'a.md'), '---\ntitle: A\n---\n\nBody\n', 'utf-8')
+        await fs.writeFile(path.join(tempDir, 'b.md'), '# No frontmatter\n', 'utf-8')
+
+        const { code, stdout } = await runCli(['update-frontmatter', path.join(tempDir, '*.md'), '--set', 'draft=false', '--json'])
+        const result = JSON.parse(stdout)
+
+        assert.strictEqual(code, 6)
+        assert.strictEqual(result.command, 'update-frontmatter')
+        assert.strictEqual(result.exitCode, 6)
+        assert.deepStrictEqual(result.files.map((file: { path: string, action: string, changedFields?: string[], error?: { code: string } }) => [path.basename(file.path), file.action, file.changedFields ?? file.error?.code]), [
+          ['a.md', 'updated', ['draft']],
+          ['b.md', 'failed', 'MISSING_FRONTMATTER']
+        ])
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should print usage errors as JSON', async () => {
+      const { code, stdout } = await runCli(['update-frontmatter', path.join(fixturesDir, 'updatable-post.md'), '--set', 'weight:int=heavy', '--json'])
+
+      assert.strictEqual(code, 3)
+      assert.deepStrictEqual(JSON.parse(stdout), {
+        command: 'update-frontmatter',
+        exitCode: 3,
+        files: [],
+        error: { code: 'USAGE_ERROR', message: "Invalid value for weight:int, expected an integer but got 'heavy'" }
+      })
+    })
   })
 })
@@ -0,0 +1,121 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import os from 'node:os'
+import fs from 'node:fs/promises'
+import { ResponseCache, createCacheKey } from '../src/utils/response-cache.js'
+import { FakeLLMProvider, createLLMProvider } from '../src/utils/llm-providers.js'
+import { GenerativeTags } from '../src/utils/generative-tags.js'
+
+describe('ResponseCache', () => {
+  async function createTempDir (): Promise<string> {
+    return fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-cache-'))
+  }
+
+  describe('Unit Tests', () => {
+    test('should create the same key regardless of key order', () => {
+      const key = createCacheKey({ model: 'gpt', settings: { temperature: 0, maxTokens: 10 } })
+
+      assert.strictEqual(key, createCacheKey({ settings: { maxTokens: 10, temperature: 0 }, model: 'gpt' }))
+      assert.notStrictEqual(key, createCacheKey({ model: 'gpt', settings: { temperature: 0.5, maxTokens: 10 } }))
+      assert.match(key, /^[0-9a-f]{64}$/)
+    })
+  })
+
+  describe('Integration Tests', () => {
+    test('should reuse stored responses across cache instances', async () => {
+      const root = await createTempDir()
+      try {
+        let calls = 0
+        const create = async () => ['tag', String(++calls)]
+
+        assert.deepStrictEqual(await new ResponseCache({ root }).getOrCreate({ prompt: 'a' }, create), ['tag', '1'])
+
+        const cache = new ResponseCache({ root })
+        assert.deepStrictEqual(await cache.getOrCreate({ prompt: 'a' }, create), ['tag', '1'])
+        assert.deepStrictEqual(await cache.getOrCreate({ prompt: 'b' }, create), ['tag', '2'])
+        assert.deepStrictEqual(cache.getUsage(), { hits: 1, misses: 1 })
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    })
+
+    test('should replace stored responses when refreshing', async () => {
+      const root = await createTempDir()
+      try {
+        await new ResponseCache({ root }).getOrCreate({ prompt: 'a' }, async () => 'old')
+
+        assert.strictEqual(await new ResponseCache({ root, refresh: true }).getOrCreate({ prompt: 'a' }, async () => 'new'), 'new')
+        assert.strictEqual(await new ResponseCache({ root }).getOrCreate({ prompt: 'a' }, async () => 'other'), 'new')
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    })
+
+    test('should treat corrupt entries as misses', async () => {
+      const root = await createTempDir()
+      try {
+        const cache = new ResponseCache({ root })
+        await cache.getOrCreate({ prompt: 'a' }, async () => 'first')
+        await fs.writeFile(path.join(cache.getDirectory(), `${createCacheKey({ prompt: 'a' })}.json`), '{not json', 'utf-8')
+
+        assert.strictEqual(await cache.getOrCreate({ prompt: 'a' }, async () => 'second'), 'second')
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    })
+
+    test('should report stats and clear every entry', async () => {
+      const root = await createTempDir()
+      try {
+        const cache = new ResponseCache({ root })
+        await cache.getOrCreate({ prompt: 'a' }, async () => 'a')
+        await cache.getOrCreate({ prompt: 'b' }, async () => 'b')
+
+        const stats = await cache.getStats()
+        assert.strictEqual(stats.entries, 2)
+        assert.ok(stats.bytes > 0)
+        assert.strictEqual(stats.directory, path.join(root, '.devrel-blog-utils', 'cache'))
+
+        assert.strictEqual(await cache.clear(), 2)
+        assert.deepStrictEqual(await cache.getStats(), { directory: stats.directory, entries: 0, bytes: 0 })
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    })
+
+    test('should cache provider tags but not local fallback tags', async () => {
+      const root = await createTempDir()
+      try {
+        const request = { system: 'Suggest tags', prompt: 'Streams in Node.js', context: { frontmatter: { title: 'Streams in Node.js' }, summary: null }, tagCount: 2, maxTokens: 150, temperature: 0.7 }
+        const failing = new FakeLLMProvider([new Error('Service unavailable'), ['streams']])
+        const provider = createLLMProvider({ provider: failing, model: 'fake', baseUrl: '', fallback: 'local', cache: new ResponseCache({ root }) })
+
+        assert.deepStrictEqual(await provider.generateTags(request), ['nodejs', 'streams'])
+        assert.deepStrictEqual(await provider.generateTags(request), ['streams'])
+        assert.deepStrictEqual(await provider.generateTags(request), ['streams'])
+        assert.strictEqual(failing.calls.length, 2)
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    })
+
+    test('should reuse tags for a post whose only change is its generated tags', async () => {
+      const root = await createTempDir()
+      try {
+        const filePath = path.join(root, 'post.md')
+        await fs.writeFile(filePath, '---\ntitle: Streams in Node.js\n---\n\nStreams process data piece by piece.\n', 'utf-8')
+        const provider = new FakeLLMProvider([['nodejs', 'streams']])
+
+        await new GenerativeTags(filePath, { provider, cache: new ResponseCache({ root }) }).run()
+        const [result] = await new GenerativeTags(filePath, { provider, cache: new ResponseCache({ root }) }).run()
+
+        assert.strictEqual(provider.calls.length, 1)
+        assert.doesNotMatch(provider.calls[0]!.prompt, /"tags"/)
+        assert.strictEqual(result!.changed, false)
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    })
+  })
+})
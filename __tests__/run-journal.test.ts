@@ -0,0 +1,140 @@
+import { test, describe, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import os from 'node:os'
+import fs from 'node:fs/promises'
+import { RunJournal, listJournalRuns, undoJournalRun } from '../src/utils/run-journal.js'
+import { MarkdownFrontmatterUpdater } from '../src/utils/markdown-frontmatter-updater.js'
+import { runCli } from './__fixtures__/run-cli.js'
+
+const originalPost = '---\ntitle: Original\ndraft: true\n---\n\n# Post\n'
+
+describe('RunJournal', () => {
+  let tempDir: string
+  let postPath: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-journal-'))
+    postPath = path.join(tempDir, 'post.md')
+    await fs.writeFile(postPath, originalPost, 'utf-8')
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  describe('Integration Tests', () => {
+    test('should record original contents and restore them on undo', async () => {
+      const journal = new RunJournal({ root: tempDir, command: 'update-frontmatter post.md' })
+      const updater = new MarkdownFrontmatterUpdater(postPath, { journal })
+
+      await updater.updateFields({ title: 'First' })
+      await updater.removeFields(['draft'])
+      assert.deepStrictEqual(journal.getFiles(), [postPath])
+
+      const result = await undoJournalRun({ root: tempDir })
+
+      assert.strictEqual(result.run.id, journal.getRunId())
+      assert.deepStrictEqual(result.restored, [postPath])
+      assert.strictEqual(await fs.readFile(postPath, 'utf-8'), originalPost)
+    })
+
+    test('should not create a run when nothing is written', async () => {
+      const journal = new RunJournal({ root: tempDir })
+      const updater = new MarkdownFrontmatterUpdater(postPath, { journal, dryRun: true })
+
+      await updater.updateFields({ title: 'Dry Run' })
+
+      assert.deepStrictEqual(await listJournalRuns(tempDir), [])
+    })
+
+    test('should undo the most recent run first, or a chosen run', async () => {
+      const firstJournal = new RunJournal({ root: tempDir, command: 'first' })
+      await new MarkdownFrontmatterUpdater(postPath, { journal: firstJournal }).updateFields({ title: 'First' })
+      const secondJournal = new RunJournal({ root: tempDir, command: 'second' })
+      await new MarkdownFrontmatterUpdater(postPath, { journal: secondJournal }).updateFields({ title: 'Second' })
+
+      const runs = await listJournalRuns(tempDir)
+      assert.deepStrictEqual(runs.map(run => run.command), ['second', 'first'])
+
+      await undoJournalRun({ root: tempDir })
+      assert.match(await fs.readFile(postPath, 'utf-8'), /title: First/)
+
+      await undoJournalRun({ root: tempDir, runId: firstJournal.getRunId() })
+      assert.strictEqual(await fs.readFile(postPath, 'utf-8'), originalPost)
+
+      await assert.rejects(undoJournalRun({ root: tempDir, runId: firstJournal.getRunId() }), /already undone/)
+      await assert.rejects(undoJournalRun({ root: tempDir }), /No run to undo/)
+    })
+
+    test('should skip files edited after the run unless forced, keeping the run undoable', async () => {
+      const journal = new RunJournal({ root: tempDir })
+      await new MarkdownFrontmatterUpdater(postPath, { journal }).updateFields({ title: 'Updated' })
+      await fs.appendFile(postPath, '\nEdited by hand\n', 'utf-8')
+
+      const result = await undoJournalRun({ root: tempDir })
+      assert.deepStrictEqual(result.skipped, [postPath])
+      assert.match(await fs.readFile(postPath, 'utf-8'), /Edited by hand/)
+      assert.strictEqual((await listJournalRuns(tempDir))[0]!.undoneAt, undefined)
+
+      const forced = await undoJournalRun({ root: tempDir, force: true })
+      assert.strictEqual(forced.run.id, journal.getRunId())
+      assert.deepStrictEqual(forced.restored, [postPath])
+      assert.strictEqual(await fs.readFile(postPath, 'utf-8'), originalPost)
+      await assert.rejects(undoJournalRun({ root: tempDir }), /No run to undo/)
+    })
+
+    test('should leave files restored by an earlier partial undo alone', async () => {
+      const otherPath = path.join(tempDir, 'other.md')
+      await fs.writeFile(otherPath, originalPost, 'utf-8')
+      const journal = new RunJournal({ root: tempDir })
+      await new MarkdownFrontmatterUpdater(postPath, { journal }).updateFields({ title: 'Updated' })
+      await new MarkdownFrontmatterUpdater(otherPath, { journal }).updateFields({ title: 'Updated' })
+      await fs.appendFile(otherPath, '\nEdited by hand\n', 'utf-8')
+
+      const partial = await undoJournalRun({ root: tempDir })
+      assert.deepStrictEqual([partial.restored, partial.skipped], [[postPath], [otherPath]])
+
+      const again = await undoJournalRun({ root: tempDir })
+      assert.deepStrictEqual([again.restored, again.skipped], [[postPath], [otherPath]])
+      assert.strictEqual(await fs.readFile(postPath, 'utf-8'), originalPost)
+    })
+  })
+
+  describe('End-to-End Tests', () => {
+    test('should run CLI and undo the last update', async () => {
+      // The journal lives next to the config file
+      const configPath = path.join(tempDir, 'devrel-blog-utils.config.json')
+      await fs.writeFile(configPath, '{}\n', 'utf-8')
+
+      const update = await runCli(['update-frontmatter', postPath, '--set', 'title=Changed', `--config=${configPath}`])
+      assert.strictEqual(update.code, 0, update.stderr)
+      assert.match(await fs.readFile(postPath, 'utf-8'), /title: Changed/)
+
+      const list = await runCli(['undo', '--list', `--config=${configPath}`])
+      assert.match(list.stdout, /1 file\(s\) {2}devrel-blog-utils update-frontmatter/)
+
+      const undo = await runCli(['undo', `--config=${configPath}`])
+      assert.strictEqual(undo.code, 0, undo.stderr)
+      assert.match(undo.stdout, /^Restored 1 file\(s\) from run /)
+      assert.strictEqual(await fs.readFile(postPath, 'utf-8'), originalPost)
+    })
+
+    test('should exit with code 6 when files changed after the run are skipped', async () => {
+      const configPath = path.join(tempDir, 'devrel-blog-utils.config.json')
+      await fs.writeFile(configPath, '{}\n', 'utf-8')
+
+      const update = await runCli(['update-frontmatter', postPath, '--set', 'title=Changed', `--config=${configPath}`])
+      assert.strictEqual(update.code, 0, update.stderr)
+      await fs.appendFile(postPath, '\nEdited by hand\n', 'utf-8')
+
+      const undo = await runCli(['undo', `--config=${configPath}`])
+      assert.strictEqual(undo.code, 6)
+      assert.match(undo.stderr, /changed after run .*, use --force to restore it anyway/)
+
+      const forced = await runCli(['undo', '--force', `--config=${configPath}`])
+      assert.strictEqual(forced.code, 0, forced.stderr)
+      assert.strictEqual(await fs.readFile(postPath, 'utf-8'), originalPost)
+    })
+  })
+})
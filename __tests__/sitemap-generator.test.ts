@@ -0,0 +1,172 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { execFileSync } from 'node:child_process'
+import { SitemapGenerator } from '../src/utils/sitemap-generator.js'
+import { createContentDir } from './__fixtures__/content-dir.js'
+import { runCli } from './__fixtures__/run-cli.js'
+
+describe('SitemapGenerator', () => {
+  const posts = {
+    'posts/streams.md': '---\ntitle: Streams in Node.js\ndate: 2024-03-01\n---\n\nStreams move data.\n',
+    'posts/edge.md': '---\ntitle: Edge Functions\ndate: 2024-05-10T08:30:00Z\nupdated: 2024-07-02\n---\n\nClose to users.\n',
+    'posts/guides/index.md': '---\ntitle: Guides\n---\n\nAll guides.\n',
+    'posts/draft.md': '---\ntitle: Upcoming\ndate: 2024-04-01\ndraft: true\n---\n\nNot yet.\n',
+    'posts/hidden.md': '---\ntitle: Hidden\ndate: 2024-04-01\nnoindex: "true"\n---\n\nNot listed.\n'
+  }
+
+  test('should build URLs from the permalink and read lastmod from the updated or date field', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const generator = new SitemapGenerator('posts/**/*.md', { cwd: tempDir, siteUrl: 'https://example.com', permalink: '/blog/:year/:month/:slug/', gitLastmod: false })
+      const entries = await generator.build()
+
+      assert.deepStrictEqual(entries, [
+        { url: 'https://example.com/blog/2024/05/edge/', lastmod: new Date('2024-07-02') },
+        { url: 'https://example.com/blog/2024/03/streams/', lastmod: new Date('2024-03-01') }
+      ])
+      assert.deepStrictEqual(generator.getFileStatuses().map(({ filePath, status, reason }) => [path.relative(tempDir, filePath), status, reason]), [
+        [path.join('posts', 'draft.md'), 'skipped', 'draft'],
+        [path.join('posts', 'edge.md'), 'included', undefined],
+        [path.join('posts', 'guides', 'index.md'), 'skipped', 'no valid date field for the permalink'],
+        [path.join('posts', 'hidden.md'), 'skipped', 'noindex'],
+        [path.join('posts', 'streams.md'), 'included', undefined]
+      ])
+      assert.strictEqual(generator.render(), [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        '  <url>',
+        '    <loc>https://example.com/blog/2024/05/edge/</loc>',
+        '    <lastmod>2024-07-02</lastmod>',
+        '  </url>',
+        '  <url>',
+        '    <loc>https://example.com/blog/2024/03/streams/</loc>',
+        '    <lastmod>2024-03-01</lastmod>',
+        '  </url>',
+        '</urlset>',
+        ''
+      ].join('\n'))
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should fall back to the time of the last git commit of each file', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: tempDir,
+        env: { ...process.env, GIT_COMMITTER_DATE: '2024-06-01T12:00:00+02:00' },
+        stdio: 'ignore'
+      })
+      git('init', '-q')
+      git('add', '.')
+      git('commit', '-q', '-m', 'Add posts')
+
+      const generator = new SitemapGenerator('posts/guides/*.md', { cwd: tempDir, siteUrl: 'https://example.com/docs' })
+      const [entry] = await generator.build()
+
+      assert.deepStrictEqual(entry, { url: 'https://example.com/docs/guides/', lastmod: new Date('2024-06-01T10:00:00Z') })
+      assert.match(generator.render(), /<lastmod>2024-06-01T10:00:00Z<\/lastmod>/)
+
+      // Each file gets the time of the last commit that changed it, and files not committed get none
+      await fs.appendFile(path.join(tempDir, 'posts', 'streams.md'), '\nMore on streams.\n', 'utf-8')
+      execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-am', 'Update streams'], {
+        cwd: tempDir,
+        env: { ...process.env, GIT_COMMITTER_DATE: '2024-08-15T09:30:00Z' },
+        stdio: 'ignore'
+      })
+      await fs.writeFile(path.join(tempDir, 'posts', 'new.md'), '---\ntitle: New\n---\n\nNot committed.\n', 'utf-8')
+
+      const history = new SitemapGenerator('posts/**/*.md', { cwd: tempDir, siteUrl: 'https://example.com', lastmodFields: [] })
+      assert.deepStrictEqual((await history.build()).map(({ url, lastmod }) => [url, lastmod?.toISOString()]), [
+        ['https://example.com/edge/', '2024-06-01T10:00:00.000Z'],
+        ['https://example.com/guides/', '2024-06-01T10:00:00.000Z'],
+        ['https://example.com/new/', undefined],
+        ['https://example.com/streams/', '2024-08-15T09:30:00.000Z']
+      ])
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should split the sitemap into numbered sitemaps and an index past the URL limit', async () => {
+    const tempDir = await createContentDir(posts)
+    try {
+      const generator = new SitemapGenerator('posts/*.md', { cwd: tempDir, siteUrl: 'https://example.com', gitLastmod: false, maxUrls: 1 })
+      await generator.build()
+
+      assert.throws(() => generator.render(), /2 URLs are more than one sitemap can list \(1\)/)
+
+      const written = await generator.write(path.join(tempDir, 'public', 'sitemap.xml'))
+      assert.deepStrictEqual(written.map(filePath => path.relative(tempDir, filePath)), [
+        path.join('public', 'sitemap.xml'),
+        path.join('public', 'sitemap-1.xml'),
+        path.join('public', 'sitemap-2.xml')
+      ])
+
+      const index = await fs.readFile(path.join(tempDir, 'public', 'sitemap.xml'), 'utf-8')
+      assert.match(index, /^<\?xml version="1\.0" encoding="UTF-8"\?>\n<sitemapindex xmlns="http:\/\/www\.sitemaps\.org\/schemas\/sitemap\/0\.9">/)
+      assert.match(index, /<loc>https:\/\/example\.com\/sitemap-2\.xml<\/loc>\n {4}<lastmod>2024-03-01<\/lastmod>/)
+      assert.match(await fs.readFile(path.join(tempDir, 'public', 'sitemap-1.xml'), 'utf-8'), /<loc>https:\/\/example\.com\/edge\/<\/loc>/)
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('should reject unknown permalink placeholders', () => {
+    assert.throws(
+      () => new SitemapGenerator('posts/*.md', { siteUrl: 'https://example.com', permalink: '/:category/:slug/' }),
+      /Unknown permalink placeholder ':category', expected one of :year, :month, :day, :slug/
+    )
+  })
+
+  test('should reject a URL limit that is not a positive integer', () => {
+    for (const maxUrls of [0, -1, 1.5, Number.NaN]) {
+      assert.throws(
+        () => new SitemapGenerator('posts/*.md', { siteUrl: 'https://example.com', maxUrls }),
+        /maxUrls must be a positive integer/
+      )
+    }
+  })
+
+  describe('CLI Integration Tests', () => {
+    test('should write a sitemap with the permalink from the config file', async () => {
+      const tempDir = await createContentDir(posts)
+      try {
+        await fs.writeFile(path.join(tempDir, 'devrel-blog-utils.config.json'), JSON.stringify({ content: ['posts/*.md'], site: { url: 'https://example.com', permalink: '/blog/:year/:slug/' } }), 'utf-8')
+        const { code, stdout, stderr } = await runCli(['generate-sitemap', '--output', 'public/sitemap.xml', '--no-git-lastmod'], { cwd: tempDir })
+
+        assert.strictEqual(code, 0, stderr)
+        assert.strictEqual(stdout.trim(), 'Wrote 2 URL(s) to public/sitemap.xml')
+        const sitemap = await fs.readFile(path.join(tempDir, 'public', 'sitemap.xml'), 'utf-8')
+        assert.deepStrictEqual([...sitemap.matchAll(/<loc>(.*)<\/loc>/g)].map(match => match[1]), [
+          'https://example.com/blog/2024/edge/',
+          'https://example.com/blog/2024/streams/'
+        ])
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should require an output and a site URL, and reject a URL limit below one', async () => {
+      const tempDir = await createContentDir(posts)
+      try {
+        const noOutput = await runCli(['generate-sitemap', 'posts/*.md', '--site-url', 'https://example.com'], { cwd: tempDir })
+        assert.strictEqual(noOutput.code, 3)
+        assert.match(noOutput.stderr, /--output is required for generate-sitemap command/)
+
+        const noSite = await runCli(['generate-sitemap', 'posts/*.md', '--output', 'sitemap.xml'], { cwd: tempDir, env: { SITE_URL: undefined } })
+        assert.strictEqual(noSite.code, 3)
+        assert.match(noSite.stderr, /--site-url, SITE_URL or site\.url in the config file is required/)
+
+        const noUrls = await runCli(['generate-sitemap', 'posts/*.md', '--output', 'sitemap.xml', '--site-url', 'https://example.com', '--max-urls', '0'], { cwd: tempDir })
+        assert.strictEqual(noUrls.code, 3)
+        assert.match(noUrls.stderr, /--max-urls must be a positive integer, got '0'/)
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
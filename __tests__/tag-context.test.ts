@@ -0,0 +1,84 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { MarkdownFrontmatterExtractor } from '../src/utils/markdown-frontmatter-extractor.js'
+import { buildTagPrompt, estimateTokens, summarizeContent, truncateToTokenBudget } from '../src/utils/tag-context.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const fixturesDir = path.join(__dirname, '__fixtures__')
+
+describe('Tag Context', () => {
+  describe('Unit Tests', () => {
+    test('should estimate tokens from text length', () => {
+      assert.strictEqual(estimateTokens(''), 0)
+      assert.strictEqual(estimateTokens('twelve chars'), 3)
+    })
+
+    test('should truncate text to the token budget at a word boundary', () => {
+      const text = 'alpha beta gamma delta epsilon'
+
+      assert.strictEqual(truncateToTokenBudget(text, 100), text)
+      assert.strictEqual(truncateToTokenBudget(text, 3), 'alpha beta…')
+    })
+
+    test('should include only the requested parts of a post', () => {
+      const input = {
+        frontmatter: { title: 'Streams' },
+        summary: { text: '# Streams\nStreams process data.', codeLanguages: ['js'] }
+      }
+
+      const both = buildTagPrompt(input)
+      assert.match(both, /^Frontmatter:\n\{\n {2}"title": "Streams"\n\}/)
+      assert.match(both, /Article:\n# Streams\nStreams process data\./)
+      assert.match(both, /Code languages: js$/)
+
+      assert.doesNotMatch(buildTagPrompt(input, { source: 'frontmatter' }), /Article:|Code languages/)
+      assert.doesNotMatch(buildTagPrompt(input, { source: 'body' }), /Frontmatter:/)
+    })
+
+    test('should describe posts without any content', () => {
+      assert.strictEqual(buildTagPrompt({ frontmatter: null, summary: null }), 'No content available')
+    })
+
+    test('should list the allowed tags of a vocabulary', () => {
+      const input = { frontmatter: { title: 'Streams' }, summary: null }
+
+      assert.match(buildTagPrompt(input, { allowedTags: ['nodejs', 'streams'] }), /\n\nAllowed tags \(choose only from these\): nodejs, streams$/)
+      assert.match(buildTagPrompt(input, { allowedTags: ['nodejs'], allowNewTags: true }), /Existing tags \(prefer these, suggest a new tag only when none of them fits\): nodejs$/)
+    })
+  })
+
+  describe('Integration Tests', () => {
+    test('should keep headings, prose and code-fence languages of a markdown body', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'article-with-code.md'))
+      const { tree } = await extractor.extractContent()
+
+      const summary = summarizeContent(tree)
+
+      assert.deepStrictEqual(summary.text.split('\n'), [
+        '# Streams in Node.js',
+        'Streams process data piece by piece instead of loading it all into memory.',
+        '## Reading a file',
+        'Use fs.createReadStream() to read large files:',
+        'Backpressure keeps memory usage flat',
+        'Pipelines propagate errors'
+      ])
+      assert.deepStrictEqual(summary.codeLanguages, ['js', 'bash'])
+    })
+
+    test('should drop imports, exports and expressions from MDX bodies', async () => {
+      const extractor = new MarkdownFrontmatterExtractor(path.join(fixturesDir, 'mdx-post.mdx'))
+      const { tree } = await extractor.extractContent()
+
+      const summary = summarizeContent(tree)
+
+      assert.deepStrictEqual(summary.text.split('\n'), [
+        '# Building Interactive Docs with MDX',
+        'MDX lets you use components inside markdown.',
+        'The answer is .'
+      ])
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { getExistingTags, mergeTags, normalizeTagValue, normalizeTags } from '../src/utils/tag-normalization.js'
+
+describe('Tag normalization', () => {
+  describe('normalizeTags', () => {
+    test('should trim tags and drop duplicates that differ only in case', () => {
+      const tags = normalizeTags([' React ', 'react', 'TypeScript', '', 42, 'typescript'])
+
+      assert.deepStrictEqual(tags, ['React', 'TypeScript'])
+    })
+
+    test('should apply the case rule', () => {
+      assert.deepStrictEqual(normalizeTags(['Web Performance', 'NodeJS'], { case: 'lowercase' }), ['web performance', 'nodejs'])
+      assert.deepStrictEqual(normalizeTags(['Web Performance', 'web_performance', 'GitHub  Actions'], { case: 'kebab-case' }), ['web-performance', 'github-actions'])
+    })
+
+    test('should replace synonyms before applying the case rule', () => {
+      const tags = normalizeTags(['JS', 'javascript', 'K8s'], {
+        case: 'lowercase',
+        synonyms: { js: 'JavaScript', k8s: 'Kubernetes' }
+      })
+
+      assert.deepStrictEqual(tags, ['javascript', 'kubernetes'])
+    })
+
+    test('should keep at most the maximum number of tags', () => {
+      assert.deepStrictEqual(normalizeTags(['a', 'b', 'c'], { maxCount: 2 }), ['a', 'b'])
+    })
+
+    test('should fail when there are fewer tags than the minimum', () => {
+      assert.throws(() => normalizeTags(['react', 'React'], { minCount: 2 }), /Expected at least 2 tag\(s\), got 1: react/)
+      assert.throws(() => normalizeTags([], { minCount: 1 }), /Expected at least 1 tag\(s\), got 0$/)
+    })
+  })
+
+  describe('normalizeTagValue', () => {
+    test('should normalize lists and single tags and leave other values alone', () => {
+      const options = { case: 'kebab-case' as const, minCount: 2 }
+
+      assert.deepStrictEqual(normalizeTagValue(['Web Performance', 'React'], options), ['web-performance', 'react'])
+      assert.strictEqual(normalizeTagValue('Web Performance', options), 'web-performance')
+      assert.strictEqual(normalizeTagValue(null, options), null)
+    })
+  })
+
+  describe('mergeTags', () => {
+    test('should combine tags according to the strategy', () => {
+      assert.deepStrictEqual(mergeTags(['react'], ['nodejs']), ['nodejs'])
+      assert.deepStrictEqual(mergeTags(['react'], ['nodejs'], 'merge'), ['react', 'nodejs'])
+      assert.strictEqual(mergeTags(['react'], ['nodejs'], 'fill-missing'), null)
+      assert.deepStrictEqual(mergeTags([], ['nodejs'], 'fill-missing'), ['nodejs'])
+    })
+
+    test('should read existing tags from lists and single strings', () => {
+      assert.deepStrictEqual(getExistingTags({ tags: ['react', '', 1] }), ['react'])
+      assert.deepStrictEqual(getExistingTags({ tags: 'react' }), ['react'])
+      assert.deepStrictEqual(getExistingTags(null), [])
+    })
+  })
+})
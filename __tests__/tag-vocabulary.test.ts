@@ -0,0 +1,92 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import path from 'node:path'
+import os from 'node:os'
+import fs from 'node:fs/promises'
+import { TagVocabulary, collectTagVocabulary, loadTagVocabulary } from '../src/utils/tag-vocabulary.js'
+
+describe('TagVocabulary', () => {
+  async function createTempDir (): Promise<string> {
+    return fs.mkdtemp(path.join(os.tmpdir(), 'devrel-blog-utils-vocabulary-'))
+  }
+
+  describe('Unit Tests', () => {
+    const vocabulary = new TagVocabulary(['nodejs', 'TypeScript', 'react', 'web-performance'])
+
+    test('should match tags written differently or with a known alias', () => {
+      assert.strictEqual(vocabulary.match('Node.js'), 'nodejs')
+      assert.strictEqual(vocabulary.match('node'), 'nodejs')
+      assert.strictEqual(vocabulary.match('typescript'), 'TypeScript')
+      assert.strictEqual(vocabulary.match('ts'), 'TypeScript')
+      assert.strictEqual(vocabulary.match('Web Performance'), 'web-performance')
+    })
+
+    test('should match close misspellings and nothing else', () => {
+      assert.strictEqual(vocabulary.match('typscript'), 'TypeScript')
+      assert.strictEqual(vocabulary.match('web-perfomance'), 'web-performance')
+      assert.strictEqual(vocabulary.match('cooking'), null)
+      assert.strictEqual(vocabulary.match('java'), null)
+    })
+
+    test('should keep the first spelling of each tag', () => {
+      const tags = new TagVocabulary(['nodejs', 'node.js', 'Node', 'react']).getTags()
+
+      assert.deepStrictEqual(tags, ['nodejs', 'react'])
+    })
+
+    test('should map and drop tags in strict mode', () => {
+      const result = vocabulary.constrain(['Node.js', 'cooking', 'node', 'react'])
+
+      assert.deepStrictEqual(result.tags, ['nodejs', 'react'])
+      assert.deepStrictEqual(result.rejected, ['cooking'])
+      assert.deepStrictEqual(result.proposed, [])
+      assert.deepStrictEqual(result.mapped, [{ from: 'Node.js', to: 'nodejs' }, { from: 'node', to: 'nodejs' }])
+    })
+
+    test('should keep new tags as proposals when allowed', () => {
+      const result = vocabulary.constrain(['react', 'bun'], { allowNew: true })
+
+      assert.deepStrictEqual(result.tags, ['react', 'bun'])
+      assert.deepStrictEqual(result.proposed, ['bun'])
+      assert.deepStrictEqual(result.rejected, [])
+    })
+
+    test('should use configured technology terms as aliases', () => {
+      const custom = new TagVocabulary(['javascript'], { terms: { ecmascript: 'javascript' } })
+
+      assert.strictEqual(custom.match('ECMAScript'), 'javascript')
+    })
+  })
+
+  describe('Integration Tests', () => {
+    test('should collect the tags used across content files', async () => {
+      const tempDir = await createTempDir()
+      try {
+        await fs.writeFile(path.join(tempDir, 'a.md'), '---\ntitle: A\ntags:\n  - nodejs\n  - streams\n---\n\nBody\n', 'utf-8')
+        await fs.writeFile(path.join(tempDir, 'b.md'), '+++\ntitle = "B"\ntags = ["Node.js", "hugo"]\n+++\n\nBody\n', 'utf-8')
+        await fs.writeFile(path.join(tempDir, 'c.md'), '# No frontmatter\n', 'utf-8')
+
+        const vocabulary = await collectTagVocabulary(path.join(tempDir, '*.md'))
+
+        assert.deepStrictEqual(vocabulary.getTags(), ['hugo', 'nodejs', 'streams'])
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('should load allowlist files as text or JSON', async () => {
+      const tempDir = await createTempDir()
+      try {
+        await fs.writeFile(path.join(tempDir, 'tags.txt'), '# Approved tags\nnodejs\nc#\n\nreact\n', 'utf-8')
+        await fs.writeFile(path.join(tempDir, 'tags.json'), '["nodejs", "react"]', 'utf-8')
+        await fs.writeFile(path.join(tempDir, 'invalid.json'), '{"tags": []}', 'utf-8')
+
+        assert.deepStrictEqual((await loadTagVocabulary(path.join(tempDir, 'tags.txt'))).getTags(), ['c#', 'nodejs', 'react'])
+        assert.deepStrictEqual((await loadTagVocabulary(path.join(tempDir, 'tags.json'))).getTags(), ['nodejs', 'react'])
+        await assert.rejects(loadTagVocabulary(path.join(tempDir, 'invalid.json')), /Failed to load tag vocabulary from .*Expected a JSON array of strings/)
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
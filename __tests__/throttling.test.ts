@@ -0,0 +1,144 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { RateLimiter, getRetryAfter, isRetryableError, mapWithConcurrency, withRetry } from '../src/utils/throttling.js'
+
+describe('Throttling', () => {
+  /**
+   * A clock that only moves when the code under test sleeps
+   */
+  function createClock () {
+    const clock = {
+      time: 0,
+      sleeps: [] as number[],
+      now: () => clock.time,
+      sleep: async (ms: number) => {
+        clock.sleeps.push(ms)
+        clock.time += ms
+      }
+    }
+    return clock
+  }
+
+  function createApiError (statusCode: number, responseHeaders?: Record<string, string>): Error {
+    return Object.assign(new Error(`Request failed with status ${statusCode}`), { statusCode, responseHeaders })
+  }
+
+  describe('RateLimiter', () => {
+    test('should hold requests back to the requests-per-minute limit', async () => {
+      const clock = createClock()
+      const limiter = new RateLimiter({ requestsPerMinute: 2 }, clock)
+
+      await limiter.acquire()
+      clock.time = 10_000
+      await limiter.acquire()
+      await limiter.acquire()
+
+      assert.deepStrictEqual(clock.sleeps, [50_000])
+      assert.strictEqual(clock.time, 60_000)
+    })
+
+    test('should hold requests back to the tokens-per-minute limit', async () => {
+      const clock = createClock()
+      const limiter = new RateLimiter({ tokensPerMinute: 1000 }, clock)
+
+      await limiter.acquire(600)
+      await limiter.acquire(300)
+      await limiter.acquire(300)
+
+      assert.deepStrictEqual(clock.sleeps, [60_000])
+    })
+
+    test('should let a request larger than the token limit through an empty window', async () => {
+      const clock = createClock()
+      const limiter = new RateLimiter({ tokensPerMinute: 100 }, clock)
+
+      await limiter.acquire(500)
+
+      assert.deepStrictEqual(clock.sleeps, [])
+    })
+  })
+
+  describe('withRetry', () => {
+    test('should retry rate limits with exponential backoff', async () => {
+      const clock = createClock()
+      let attempts = 0
+
+      const result = await withRetry(async () => {
+        if (++attempts < 4) {
+          throw createApiError(429)
+        }
+        return 'done'
+      }, { retries: 3, initialDelay: 100, sleep: clock.sleep })
+
+      assert.strictEqual(result, 'done')
+      assert.deepStrictEqual(clock.sleeps, [100, 200, 400])
+    })
+
+    test('should wait as long as the Retry-After header asks', async () => {
+      const clock = createClock()
+      let attempts = 0
+      const retries: Array<[number, number]> = []
+
+      await withRetry(async () => {
+        if (++attempts === 1) {
+          throw createApiError(429, { 'retry-after': '7' })
+        }
+      }, { sleep: clock.sleep, onRetry: (_error, attempt, delay) => retries.push([attempt, delay]) })
+
+      assert.deepStrictEqual(retries, [[1, 7000]])
+    })
+
+    test('should give up after the last retry and rethrow the error', async () => {
+      const clock = createClock()
+      const error = createApiError(503)
+
+      await assert.rejects(withRetry(async () => { throw error }, { retries: 2, sleep: clock.sleep }), error)
+      assert.strictEqual(clock.sleeps.length, 2)
+    })
+
+    test('should not retry errors that will fail again', async () => {
+      const clock = createClock()
+      let attempts = 0
+
+      await assert.rejects(withRetry(async () => {
+        attempts++
+        throw createApiError(401)
+      }, { sleep: clock.sleep }), /status 401/)
+      assert.strictEqual(attempts, 1)
+    })
+  })
+
+  describe('Error inspection', () => {
+    test('should recognize transient errors through their causes', () => {
+      assert.strictEqual(isRetryableError(new Error('Failed', { cause: createApiError(429) })), true)
+      assert.strictEqual(isRetryableError(Object.assign(new Error('Reset'), { code: 'ECONNRESET' })), true)
+      assert.strictEqual(isRetryableError(Object.assign(new Error('Overloaded'), { isRetryable: false, statusCode: 529 })), false)
+      assert.strictEqual(isRetryableError(new Error('Invalid schema')), false)
+    })
+
+    test('should read Retry-After in milliseconds, seconds or as a date', () => {
+      assert.strictEqual(getRetryAfter(createApiError(429, { 'retry-after-ms': '1500' })), 1500)
+      assert.strictEqual(getRetryAfter(createApiError(429, { 'retry-after': '2' })), 2000)
+      assert.strictEqual(getRetryAfter(createApiError(429, { 'retry-after': 'Wed, 21 Oct 2015 07:28:00 GMT' })), 0)
+      assert.strictEqual(getRetryAfter(createApiError(429)), undefined)
+    })
+  })
+
+  describe('mapWithConcurrency', () => {
+    test('should run at most the given number of tasks at a time and keep the order', async () => {
+      let running = 0
+      let maxRunning = 0
+
+      const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (delay, index) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, delay))
+        running--
+        return index
+      })
+
+      assert.deepStrictEqual(results, [0, 1, 2, 3])
+      assert.strictEqual(maxRunning, 2)
+    })
+  })
+})
@@ -1,173 +1,1566 @@
 #!/usr/bin/env node
 
+import path from 'node:path'
 import { parseArgs } from 'node:util'
-import { MarkdownFrontmatterExtractor } from '../utils/markdown-frontmatter-extractor.js'
+import type { ParseArgsConfig } from 'node:util'
+import { MarkdownFrontmatterExtractor, extractFrontmatterFromFiles } from '../utils/markdown-frontmatter-extractor.js'
 import { MarkdownFrontmatterUpdater } from '../utils/markdown-frontmatter-updater.js'
 import { GenerativeTags } from '../utils/generative-tags.js'
+import type { TagEvent, TagFileStatus } from '../utils/generative-tags.js'
+import { FrontmatterValidator, loadFrontmatterSchema } from '../utils/frontmatter-validator.js'
+import type { FrontmatterSchema } from '../utils/frontmatter-validator.js'
+import { isFrontmatterFormat } from '../utils/frontmatter-formats.js'
+import type { FrontmatterFormat } from '../utils/frontmatter-formats.js'
+import { getCommandDefaults, getSettingConfigKey, getSettingValues, getTagNormalization, loadProjectConfig, resolveSettings } from '../utils/config.js'
+import type { LoadedProjectConfig, ProjectSettings, ResolvedSetting } from '../utils/config.js'
+import { isGlobPattern, resolveContentFiles } from '../utils/content-files.js'
+import type { ContentFileStatus } from '../utils/content-files.js'
+import { colorizeDiff, createFrontmatterDiff, summarizeUpdates } from '../utils/frontmatter-diff.js'
+import type { FrontmatterUpdateResult } from '../utils/markdown-frontmatter-updater.js'
+import type { FieldOperation } from '../utils/frontmatter-content.js'
+import { RunJournal, listJournalRuns, undoJournalRun } from '../utils/run-journal.js'
+import { ResponseCache } from '../utils/response-cache.js'
+import { mapWithConcurrency } from '../utils/throttling.js'
+import { TAG_CONTENT_SOURCES } from '../utils/tag-context.js'
+import type { TagContentSource } from '../utils/tag-context.js'
+import { TAG_FALLBACKS, createLazyProvider, createLLMProvider, isLLMProvider } from '../utils/llm-providers.js'
+import type { TagFallback } from '../utils/llm-providers.js'
+import { collectTagVocabulary, loadTagVocabulary } from '../utils/tag-vocabulary.js'
+import { TAG_CASES, TAG_STRATEGIES } from '../utils/tag-normalization.js'
+import type { TagCase, TagStrategy } from '../utils/tag-normalization.js'
+import { parseFieldAssignment } from '../utils/field-values.js'
+import { FRONTMATTER_OUTPUT_FORMATS, formatFrontmatterRecords, isFrontmatterOutputFormat } from '../utils/frontmatter-output.js'
+import type { FrontmatterOutputFormat, FrontmatterRecord } from '../utils/frontmatter-output.js'
+import type { FieldAssignment } from '../utils/field-values.js'
+import { MemoryFileSystem, STDIN_PATH, nodeFileSystem, readStream } from '../utils/file-system.js'
+import { getErrorCode } from '../utils/errors.js'
+import type { ErrorCode } from '../utils/errors.js'
+import { EXIT_CODES, getErrorExitCode, getExitCode, toFailedFileResult, toUpdateFileResult } from '../utils/command-results.js'
+import type { CommandResult, FileResult } from '../utils/command-results.js'
+import { ContentIndex, INCREMENTAL_MODES, loadContentIndex, writeContentIndex } from '../utils/content-index.js'
+import type { IncrementalMode, IndexFileStatus } from '../utils/content-index.js'
+import { FeedGenerator } from '../utils/feed-generator.js'
+import type { FeedFieldMap } from '../utils/feed-generator.js'
+import type { FeedFormat } from '../utils/feed-formats.js'
+import { SitemapGenerator } from '../utils/sitemap-generator.js'
+import { withTrailingSlash } from '../utils/site-urls.js'
 
-function showUsage () {
+/**
+ * Set from the global --json flag: commands print one JSON result instead of text
+ */
+const output = { json: false, command: '' }
+
+function showUsage (exitCode: number = EXIT_CODES.usage): never {
   console.error(`Usage: devrel-blog-utils <command> [options]
 
 Commands:
-  extract-frontmatter <file-path> [--fields field1,field2]
-    Extract frontmatter from a markdown file
+  extract-frontmatter <path...|-> [--fields field1,field2] [--format json|ndjson|yaml|csv|table] [--fail-on-missing]
+    Extract frontmatter from markdown files, keyed by path when more than one file matches
+    Files without frontmatter print null; --fail-on-missing exits with code 2 when there are any
+  
+  update-frontmatter <path...|-> [--update '{"field":"value"}' | --set field="value" | --remove field1,field2 | --append list=value | --prepend list=value | --remove-value list=value | --create] [--dry-run | --stdout]
+    Update frontmatter in every matched markdown file. Fields can be paths such as author.name or images[0].alt
+    Values are read as YAML (false, 3, null, [a, b], {k: v}); add a type to the field to force one: count:int=3, title:str=true
+  
+  generate-tags [path...|-] [--create] [--provider name] [--model name] [--base-url url] [--max-tokens n] [--temperature n] [--tag-count n] [--source frontmatter|body|both] [--body-token-budget n] [--fallback local|none] [--vocabulary content|file [--allow-new-tags]] [--strategy replace|merge|fill-missing] [--tag-case preserve|lowercase|kebab-case] [--min-tags n] [--max-tags n] [--no-cache | --refresh] [--concurrency n] [--requests-per-minute n] [--tokens-per-minute n] [--retries n] [--dry-run | --stdout]
+    Generate AI-powered tags from the frontmatter and article body of markdown files, or of the config's content globs
+  
+  validate-frontmatter <path...|-> --schema <schema-file> [--fix [--dry-run | --stdout]]
+    Validate frontmatter against a JSON Schema file or a module exporting a zod schema
+  
+  build-index [path...] [--output file] [--fields field1,field2] [--sort [-]field] [--exclude-drafts] [--incremental mtime|hash] [--words-per-minute n]
+    Write a JSON manifest of every post with its slug, frontmatter, word count, reading time and headings, for the given files or the config's content globs
+    --incremental reuses the entries of unchanged files from the existing --output file
+  
+  generate-feed [path...] --rss file | --atom file | --json-feed file [--site-url url] [--site-title title] [--site-description text] [--field-map property=field,...] [--limit n] [--exclude-drafts] [--exclude-future] [--full-content]
+    Write RSS 2.0, Atom 1.0 and JSON Feed 1.1 files from the frontmatter of the given files or the config's content globs, newest first
+    --field-map reads title, date, description, tags or url from other fields, such as url=permalink,date=published_at
+  
+  generate-sitemap [path...] --output file [--site-url url] [--permalink pattern] [--lastmod-fields field1,field2] [--no-git-lastmod] [--max-urls n]
+    Write an XML sitemap of the given files or the config's content globs, leaving out drafts and noindex posts
+    --permalink builds each URL from :year, :month, :day and :slug, such as /blog/:year/:slug/ (default: /:slug/)
+    lastmod comes from the updated or date field, or else from the file's last git commit
+    Past --max-urls (default: 50000) URLs, --output becomes a sitemap index of numbered sitemaps
   
-  update-frontmatter <file-path> [--update '{"field":"value"}' | --set field="value" | --remove field1,field2 | --create]
-    Update frontmatter in a markdown file
+  undo [--run <id>] [--list] [--force]
+    Restore the files changed by the last run, or by the given run, from the .devrel-blog-utils/ journal
   
-  generate-tags <file-path> [--create]
-    Generate AI-powered tags for a markdown file
+  config print
+    Print the resolved settings and where each value came from
+  
+  cache stats|clear
+    Show the size of the AI response cache in .devrel-blog-utils/cache/, or remove every entry
+
+Paths:
+  Each path can be a file, a directory or a glob pattern with **, brace sets like {md,mdx} and !negation.
+  A directory matches the markdown, MDX and Markdoc files inside it, and !negation also excludes files given by path.
+  Glob matches skip files ignored by .gitignore.
+  A single - reads the document from stdin; commands that change it print the result to stdout.
+
+Global options:
+  --frontmatter-format auto|yaml|toml|json
+    Force the frontmatter format instead of detecting YAML (---), TOML (+++) or JSON
+  --config <path>
+    Use this config file instead of discovering devrel-blog-utils.config.(json|js|mjs|ts)
+  --dry-run [--diff-format unified|json]
+    Show the changes a command would make as a unified diff, or as JSON, without writing files
+  --stdout
+    Print the changed document to stdout instead of writing the file, for a single file
+  --json
+    Print one JSON result with the path, action, changed fields and error code of every file instead of text
+
+Exit codes:
+  0  Success
+  1  Unexpected error, or a file that cannot be read or written
+  2  Missing frontmatter
+  3  Usage error, such as an unknown option or a glob that matches nothing
+  4  Frontmatter that cannot be parsed
+  5  Tag provider error
+  6  Some files of a batch failed, the others succeeded
+  7  Frontmatter that does not match the schema
 
 Examples:
   devrel-blog-utils extract-frontmatter ./blog-post.md
   devrel-blog-utils extract-frontmatter ./blog-post.md --fields=title,author
+  devrel-blog-utils extract-frontmatter 'content/**/*.{md,mdx}' '!content/drafts/**' --fields=title
+  devrel-blog-utils extract-frontmatter ./blog-post.md --fields=title,author.name,images[0].src
+  devrel-blog-utils extract-frontmatter 'content/**/*.md' --fields=title,date,tags --format=csv > posts.csv
+  git show HEAD:blog-post.md | devrel-blog-utils extract-frontmatter -
   devrel-blog-utils update-frontmatter ./blog-post.md --update='{"title":"New Title"}'
   devrel-blog-utils update-frontmatter ./blog-post.md --set title="New Title" author="New Author"
   devrel-blog-utils update-frontmatter ./blog-post.md --remove tags,draft
+  devrel-blog-utils update-frontmatter ./blog-post.md --set draft=false weight=3 version:str=1.10
+  devrel-blog-utils update-frontmatter ./blog-post.md --set seo.description="Short summary" --remove images[0].credit
+  devrel-blog-utils update-frontmatter 'content/**/*.md' --append tags=react --remove-value tags=reactjs
+  devrel-blog-utils update-frontmatter 'content/posts/**/*.md' --set draft=false
+  devrel-blog-utils update-frontmatter 'content/posts/**/*.md' --remove draft --dry-run
   devrel-blog-utils update-frontmatter ./blog-post.md --create --update='{"title":"New Post"}'
+  devrel-blog-utils update-frontmatter ./blog-post.md --set draft=false --stdout > published.md
+  cat blog-post.md | devrel-blog-utils update-frontmatter - --append tags=react
   devrel-blog-utils generate-tags ./blog-post.md
-  devrel-blog-utils generate-tags ./blog-post.md --create`)
-  process.exit(1)
+  devrel-blog-utils generate-tags ./blog-post.md --create
+  devrel-blog-utils generate-tags ./blog-post.md --provider local
+  devrel-blog-utils generate-tags 'content/**/*.md' --strategy fill-missing --tag-case kebab-case
+  devrel-blog-utils generate-tags 'content/**/*.md' --refresh
+  devrel-blog-utils generate-tags 'content/**/*.md' --concurrency 4 --requests-per-minute 50
+  devrel-blog-utils update-frontmatter ./hugo-post.md --frontmatter-format=toml --set draft=false
+  devrel-blog-utils validate-frontmatter ./post-1.md ./post-2.md --schema=./frontmatter.schema.json
+  devrel-blog-utils validate-frontmatter ./blog-post.md --schema=./frontmatter-schema.mjs --fix
+  devrel-blog-utils update-frontmatter 'content/**/*.md' --set draft=false --json
+  devrel-blog-utils build-index 'content/**/*.md' --output public/content-index.json --fields title,date,tags --sort=-date --exclude-drafts
+  devrel-blog-utils build-index 'content/**/*.md' --output public/content-index.json --incremental hash
+  devrel-blog-utils generate-feed 'content/**/*.md' --rss public/rss.xml --json-feed public/feed.json --site-url https://example.com/blog --limit 20 --exclude-drafts --exclude-future
+  devrel-blog-utils generate-sitemap 'content/**/*.md' --output public/sitemap.xml --site-url https://example.com --permalink /blog/:year/:slug/
+  devrel-blog-utils undo
+  devrel-blog-utils config print
+  devrel-blog-utils cache clear`)
+  process.exit(exitCode)
 }
 
-async function handleExtractFrontmatter (args: string[]) {
-  if (args.length === 0) {
-    console.error('Error: File path is required for extract-frontmatter command')
-    process.exit(1)
+/**
+ * Report a failure of the whole command and exit with the code of its kind
+ */
+function exitWithError (message: string, code: ErrorCode = 'USAGE_ERROR'): never {
+  if (output.json) {
+    printJsonResult([], getErrorExitCode(code), { error: { code, message } })
+  } else {
+    console.error(`Error: ${message}`)
+  }
+  process.exit(getErrorExitCode(code))
+}
+
+/**
+ * Report an error thrown by a command
+ */
+function failCommand (error: unknown): never {
+  exitWithError(error instanceof Error ? error.message : 'Unknown error', getErrorCode(error))
+}
+
+/**
+ * Print the result of the command as JSON and set the exit code
+ */
+function printJsonResult (files: FileResult[], exitCode: number, extra: Partial<CommandResult> & Record<string, unknown> = {}) {
+  const result: CommandResult = { command: output.command, exitCode, files, ...extra }
+  console.log(JSON.stringify(result, null, 2))
+  process.exitCode = exitCode
+}
+
+function parseFrontmatterFormat (value: string | undefined): FrontmatterFormat | 'auto' {
+  if (value === undefined || value === 'auto') {
+    return 'auto'
   }
 
-  const filePath = args[0]
-  if (!filePath) {
-    console.error('Error: File path is required for extract-frontmatter command')
-    process.exit(1)
+  if (!isFrontmatterFormat(value)) {
+    exitWithError(`Unsupported frontmatter format '${value}', expected one of auto, yaml, toml, json`)
   }
 
-  const options: { fields?: string[] } = {}
+  return value
+}
+
+function parseOutputFormat (value: string | undefined): FrontmatterOutputFormat {
+  if (value === undefined || isFrontmatterOutputFormat(value)) {
+    return value ?? 'json'
+  }
+
+  exitWithError(`Unsupported output format '${value}', expected one of ${FRONTMATTER_OUTPUT_FORMATS.join(', ')}`)
+}
+
+type DiffFormat = 'unified' | 'json'
+
+function parseDiffFormat (value: string | undefined): DiffFormat {
+  if (value === undefined || value === 'unified' || value === 'json') {
+    return value ?? 'unified'
+  }
+
+  exitWithError(`Unsupported diff format '${value}', expected one of unified, json`)
+}
+
+/**
+ * Print the changes a dry run would make, followed by a summary
+ */
+function printDryRun (results: FrontmatterUpdateResult[], diffFormat: DiffFormat) {
+  const summary = summarizeUpdates(results)
+  const diffs = results.map(result => createFrontmatterDiff(result))
+
+  if (diffFormat === 'json') {
+    console.log(JSON.stringify({
+      files: diffs.map(diff => ({ ...diff, filePath: path.relative(process.cwd(), diff.filePath) })),
+      summary
+    }, null, 2))
+    return
+  }
+
+  for (const { diff } of diffs) {
+    if (diff) {
+      console.log(colorizeDiff(diff))
+    }
+  }
+
+  const fields = summary.changedFields.length > 0 ? ` (fields: ${summary.changedFields.join(', ')})` : ''
+  console.log(`Dry run: ${summary.filesChanged} of ${summary.filesChecked} file(s) would change${fields}`)
+}
+
+/**
+ * The project root holds the run journal: the config file's directory, or the cwd without one
+ */
+function getProjectRoot (projectConfig: LoadedProjectConfig): string {
+  return projectConfig.filePath ? path.dirname(projectConfig.filePath) : process.cwd()
+}
+
+/**
+ * Get the content globs, with those from the config file resolved against its
+ * directory so they match the same files when the CLI runs from a subdirectory
+ */
+function getContentPatterns (projectConfig: LoadedProjectConfig, content: ResolvedSetting<string[]>): string[] {
+  if (content.source !== 'config') {
+    return content.value
+  }
+
+  const root = getProjectRoot(projectConfig)
+  return content.value.map(pattern => pattern.startsWith('!') ? `!${path.resolve(root, pattern.slice(1))}` : path.resolve(root, pattern))
+}
+
+/**
+ * Create the journal that records original file contents for `undo`, or none for dry runs
+ */
+function createRunJournal (projectConfig: LoadedProjectConfig, dryRun: boolean): RunJournal | undefined {
+  if (dryRun) {
+    return undefined
+  }
+
+  return new RunJournal({
+    root: getProjectRoot(projectConfig),
+    command: ['devrel-blog-utils', ...process.argv.slice(2)].join(' ')
+  })
+}
+
+/**
+ * Print the status of every file of a batch, failed and skipped files with their reason
+ */
+function printTagReport (statuses: TagFileStatus[], log: (message: string) => void) {
+  const count = (status: TagFileStatus['status']) => statuses.filter(entry => entry.status === status).length
+
+  log(`Summary: ${count('succeeded')} succeeded, ${count('skipped')} skipped, ${count('failed')} failed`)
+  for (const status of ['succeeded', 'skipped', 'failed'] as const) {
+    for (const entry of statuses.filter(candidate => candidate.status === status)) {
+      log(`  ${status.padEnd(9)}  ${path.relative(process.cwd(), entry.filePath)}${entry.reason ? `: ${entry.reason}` : ''}`)
+    }
+  }
+}
+
+/**
+ * Print the progress of a tag run to `log`, and warnings and failures to stderr
+ */
+function printTagEvent (event: TagEvent, log: (message: string) => void, dryRun: boolean) {
+  const reason = (error: unknown) => error instanceof Error ? error.message : 'Unknown error'
+
+  switch (event.type) {
+    case 'files-found':
+      log(event.count === 0 ? 'No files found matching the pattern' : `Found ${event.count} file(s) to process`)
+      break
+    case 'file-skipped':
+      log(`⏭ Skipped ${event.filePath}, it ${event.reason}`)
+      break
+    case 'tags-generated':
+      if (!dryRun) {
+        log(`✅ Generated tags for ${event.filePath}: ${event.tags.join(', ')}`)
+      }
+      break
+    case 'file-failed':
+      console.error(`❌ Failed to process ${event.filePath}: ${reason(event.error)}`)
+      break
+    case 'tag-mapped':
+      log(`↪ Mapped tag '${event.from}' to '${event.to}' in ${event.filePath}`)
+      break
+    case 'tags-dropped':
+      console.warn(`⚠️ Dropped tags outside the vocabulary in ${event.filePath}: ${event.tags.join(', ')}`)
+      break
+    case 'tags-proposed':
+      console.warn(`⚠️ New tags to review in ${event.filePath}: ${event.tags.join(', ')}`)
+      break
+    case 'provider-retry':
+      console.warn(`⚠️ ${event.provider} request failed, retry ${event.attempt} of ${event.retries} in ${Math.ceil(event.delay / 1000)}s: ${reason(event.error)}`)
+      break
+    case 'provider-fallback':
+      console.warn(`⚠️ ${event.provider} failed, using ${event.fallback} tags instead: ${reason(event.error)}`)
+      break
+  }
+}
+
+/**
+ * Describe what a tag run did to one file
+ */
+function toTagFileResult (status: TagFileStatus, result: FrontmatterUpdateResult | undefined, options: { dryRun: boolean, streamed: boolean }): FileResult {
+  if (status.status === 'failed' || !result) {
+    return {
+      path: path.relative(process.cwd(), status.filePath),
+      action: 'failed',
+      error: { code: status.code ?? 'UNKNOWN_ERROR', message: status.reason ?? 'Unknown error' }
+    }
+  }
+
+  return {
+    ...toUpdateFileResult(result),
+    ...(status.status === 'skipped' ? { action: 'skipped', reason: status.reason } : { tags: status.tags }),
+    ...(options.dryRun ? { diff: createFrontmatterDiff(result).diff } : {}),
+    ...(options.streamed ? { content: result.updatedContent } : {})
+  }
+}
+
+function parseContentSource (value: string | undefined): TagContentSource | undefined {
+  if (value === undefined || TAG_CONTENT_SOURCES.includes(value as TagContentSource)) {
+    return value as TagContentSource | undefined
+  }
+
+  exitWithError(`Unsupported source '${value}', expected one of ${TAG_CONTENT_SOURCES.join(', ')}`)
+}
+
+function parseFallback (value: string | undefined): TagFallback | undefined {
+  if (value === undefined || TAG_FALLBACKS.includes(value as TagFallback)) {
+    return value as TagFallback | undefined
+  }
+
+  exitWithError(`Unsupported fallback '${value}', expected one of ${TAG_FALLBACKS.join(', ')}`)
+}
+
+function parseStrategy (value: string | undefined): TagStrategy | undefined {
+  if (value === undefined || TAG_STRATEGIES.includes(value as TagStrategy)) {
+    return value as TagStrategy | undefined
+  }
+
+  exitWithError(`Unsupported strategy '${value}', expected one of ${TAG_STRATEGIES.join(', ')}`)
+}
+
+function parseTagCase (value: string | undefined): TagCase | undefined {
+  if (value === undefined || TAG_CASES.includes(value as TagCase)) {
+    return value as TagCase | undefined
+  }
+
+  exitWithError(`Unsupported tag case '${value}', expected one of ${TAG_CASES.join(', ')}`)
+}
+
+function parseNumberOption (name: string, value: string | undefined, range?: 'positive' | 'non-negative'): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const parsed = Number(value)
+  if (Number.isNaN(parsed) || (range === 'positive' && parsed <= 0) || (range === 'non-negative' && parsed < 0)) {
+    exitWithError(`--${name} must be ${range ? `a ${range}` : 'a'} number, got '${value}'`)
+  }
+
+  return parsed
+}
+
+/**
+ * Parse an option that counts or limits something, like the config file does:
+ * a whole number of at least 1, or of at least 0 where none is meaningful
+ */
+function parseIntegerOption (name: string, value: string | undefined, min: 0 | 1 = 1): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const parsed = Number(value)
+  if (value.trim() === '' || !Number.isInteger(parsed) || parsed < min) {
+    exitWithError(`--${name} must be ${min === 0 ? 'a non-negative' : 'a positive'} integer, got '${value}'`)
+  }
+
+  return parsed
+}
+
+/**
+ * The parseArgs options of a command
+ */
+type CommandOptions = NonNullable<ParseArgsConfig['options']>
+
+/**
+ * Apply the default options the config file defines for a command. Flags given on the CLI win.
+ * Defaults are checked against the command's options: lists become the comma-separated
+ * value the CLI would receive, and other mismatches are reported as config errors.
+ */
+function withCommandDefaults<T extends object> (projectConfig: LoadedProjectConfig, command: string, values: T, options: CommandOptions): T {
+  const defaults: Record<string, unknown> = {}
 
-  // Parse --fields option
-  const fieldsOption = args.find(arg => arg.startsWith('--fields='))
-  if (fieldsOption) {
-    const fields = fieldsOption.split('=')[1]
-    if (fields) {
-      options.fields = fields.split(',').map(f => f.trim())
+  for (const [name, value] of Object.entries(getCommandDefaults(projectConfig.config, command))) {
+    const option = options[name]
+    const configKey = `commands.${command}.${name}`
+
+    if (!option) {
+      exitWithError(`Invalid config: ${configKey}: ${command} has no --${name} option`)
     }
+
+    if (option.type === 'boolean') {
+      if (typeof value !== 'boolean') {
+        exitWithError(`Invalid config: ${configKey}: expected true or false`)
+      }
+      defaults[name] = value
+      continue
+    }
+
+    const items = Array.isArray(value) ? value : [value]
+    if (!items.every(item => typeof item === 'string' || typeof item === 'number')) {
+      exitWithError(`Invalid config: ${configKey}: expected a string, a number or a list of them`)
+    }
+    defaults[name] = option.multiple ? items.map(String) : items.join(',')
+  }
+
+  return { ...defaults, ...values } as T
+}
+
+/**
+ * Take a global option out of the arguments, supporting both `--name=value` and `--name value`
+ */
+function extractGlobalOption (args: string[], name: string): string | undefined {
+  const index = args.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`))
+  if (index === -1) {
+    return undefined
+  }
+
+  const arg = args[index]!
+  if (arg.includes('=')) {
+    args.splice(index, 1)
+    return arg.slice(arg.indexOf('=') + 1)
   }
 
+  const value = args[index + 1]
+  args.splice(index, 2)
+  return value
+}
+
+/**
+ * Take a global boolean flag out of the arguments
+ */
+function extractGlobalFlag (args: string[], name: string): boolean {
+  const index = args.indexOf(`--${name}`)
+  if (index === -1) {
+    return false
+  }
+
+  args.splice(index, 1)
+  return true
+}
+
+/**
+ * Resolve the file paths and glob patterns given on the command line, exiting when a glob matches nothing
+ */
+async function resolveFileArgs (patterns: string[]): Promise<string[]> {
+  const filePaths = await resolveContentFiles(patterns)
+  if (filePaths.length === 0) {
+    exitWithError(`No files found matching ${patterns.join(' ')}`)
+  }
+  return filePaths
+}
+
+/**
+ * Get the single document a command streams: `-` reads it from stdin, and
+ * --stdout prints the result instead of writing the file. Returns undefined
+ * when the command reads and writes files as usual.
+ */
+function getStreamPath (patterns: string[], options: { stdout?: boolean, dryRun?: boolean } = {}): string | undefined {
+  if (patterns.includes(STDIN_PATH) && patterns.length > 1) {
+    exitWithError(`${STDIN_PATH} reads from stdin and cannot be combined with other paths`)
+  }
+
+  if (options.stdout && (patterns.length !== 1 || isGlobPattern(patterns[0]!))) {
+    exitWithError('--stdout requires a single file path')
+  }
+
+  if (options.stdout && options.dryRun) {
+    exitWithError('--stdout cannot be combined with --dry-run')
+  }
+
+  return patterns[0] === STDIN_PATH || options.stdout ? patterns[0] : undefined
+}
+
+/**
+ * Hold the streamed document in memory, so commands change it without writing the file
+ */
+async function createStreamFileSystem (filePath: string): Promise<MemoryFileSystem> {
   try {
-    const extractor = new MarkdownFrontmatterExtractor(filePath, options)
-    const result = await extractor.extract()
+    const content = filePath === STDIN_PATH ? await readStream(process.stdin) : await nodeFileSystem.readFile(filePath)
+    return new MemoryFileSystem({ [filePath]: content })
+  } catch (error) {
+    exitWithError(`Failed to read ${filePath === STDIN_PATH ? 'stdin' : filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, getErrorCode(error))
+  }
+}
+
+/**
+ * Show the document read from stdin as `-` instead of a path in the current directory
+ */
+function formatStreamPath (filePath: string): string {
+  return filePath === path.resolve(STDIN_PATH) ? STDIN_PATH : filePath
+}
+
+async function handleExtractFrontmatter (args: string[], projectConfig: LoadedProjectConfig) {
+  const commandOptions = {
+    fields: { type: 'string' },
+    format: { type: 'string' },
+    'fail-on-missing': { type: 'boolean' },
+    'frontmatter-format': { type: 'string' }
+  } as const
+  const parsedArgs = parseArgs({ args, options: commandOptions, allowPositionals: true })
+  const values = withCommandDefaults(projectConfig, 'extract-frontmatter', parsedArgs.values, commandOptions)
+  const outputFormat = parseOutputFormat(values.format)
+
+  const patterns = parsedArgs.positionals
+  if (patterns.length === 0) {
+    exitWithError('File path is required for extract-frontmatter command')
+  }
 
-    if (result) {
-      console.log(JSON.stringify(result, null, 2))
+  const options: { fields?: string[], format?: FrontmatterFormat | 'auto' } = {
+    format: parseFrontmatterFormat(values['frontmatter-format'] ?? projectConfig.config.frontmatterFormat)
+  }
+
+  if (values.fields) {
+    options.fields = values.fields.split(',').map(f => f.trim())
+  }
+
+  try {
+    // A single file prints its frontmatter as is, anything else prints results keyed by path
+    const single = patterns.length === 1 && !isGlobPattern(patterns[0]!)
+    const streamPath = getStreamPath(patterns)
+    let records: FrontmatterRecord[]
+
+    if (single) {
+      const extractor = new MarkdownFrontmatterExtractor(patterns[0]!, {
+        ...options,
+        fs: streamPath ? await createStreamFileSystem(streamPath) : undefined
+      })
+      records = [{ path: path.relative(process.cwd(), extractor.getFilePath()), frontmatter: await extractor.extract() }]
     } else {
-      console.log('No frontmatter found')
+      await resolveFileArgs(patterns)
+      const results = await extractFrontmatterFromFiles(patterns, options)
+      records = Object.entries(results).map(([filePath, frontmatter]) => ({ path: path.relative(process.cwd(), filePath), frontmatter }))
     }
+
+    const files: FileResult[] = records.map(record => ({
+      path: record.path,
+      action: record.frontmatter ? 'extracted' : 'missing',
+      frontmatter: record.frontmatter
+    }))
+    const exitCode = getExitCode(files, { failOnMissing: values['fail-on-missing'] })
+
+    if (output.json) {
+      printJsonResult(files, exitCode)
+      return
+    }
+
+    console.log(formatFrontmatterRecords(records, outputFormat, { single }))
+    process.exitCode = exitCode
   } catch (error) {
-    console.error('Error:', error instanceof Error ? error.message : 'Unknown error')
-    process.exit(1)
+    failCommand(error)
   }
 }
 
-async function handleUpdateFrontmatter (args: string[]) {
-  if (args.length === 0) {
-    console.error('Error: File path is required for update-frontmatter command')
-    process.exit(1)
+/**
+ * Options of update-frontmatter that take `key=value` arguments
+ */
+const ASSIGNMENT_OPTIONS = ['set', 'append', 'prepend', 'remove-value'] as const
+
+/**
+ * The options update-frontmatter accepts
+ */
+const UPDATE_OPTIONS = {
+  update: { type: 'string' },
+  set: { type: 'string', multiple: true },
+  remove: { type: 'string' },
+  append: { type: 'string', multiple: true },
+  prepend: { type: 'string', multiple: true },
+  'remove-value': { type: 'string', multiple: true },
+  create: { type: 'boolean' },
+  'frontmatter-format': { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  'diff-format': { type: 'string' },
+  stdout: { type: 'boolean' }
+} as const
+
+/**
+ * Parse update-frontmatter arguments. Bare `key=value` arguments that follow `--set`,
+ * `--append`, `--prepend` or `--remove-value` belong to it, so
+ * `--set title="New Title" author="New Author"` sets both fields.
+ */
+function parseUpdateArgs (args: string[]) {
+  const parsedArgs = parseArgs({ args, options: UPDATE_OPTIONS, allowPositionals: true, tokens: true })
+
+  const patterns: string[] = []
+  const assignments = Object.fromEntries(ASSIGNMENT_OPTIONS.map(option => [option, [...(parsedArgs.values[option] ?? [])]]))
+  let lastOption: string | undefined
+
+  for (const token of parsedArgs.tokens) {
+    if (token.kind === 'option') {
+      lastOption = token.name
+    } else if (token.kind === 'positional') {
+      const optionArgs = lastOption ? assignments[lastOption] : undefined
+      if (optionArgs && token.value.includes('=')) {
+        optionArgs.push(token.value)
+      } else {
+        patterns.push(token.value)
+      }
+    }
   }
 
-  const filePath = args[0]
-  if (!filePath) {
-    console.error('Error: File path is required for update-frontmatter command')
-    process.exit(1)
+  const values = { ...parsedArgs.values }
+  for (const option of ASSIGNMENT_OPTIONS) {
+    values[option] = assignments[option]!.length > 0 ? assignments[option] : undefined
   }
 
-  const parsedArgs = parseArgs({
-    args: args.slice(1),
-    options: {
-      update: { type: 'string' },
-      set: { type: 'string', multiple: true },
-      remove: { type: 'string' },
-      create: { type: 'boolean' }
+  return { values, patterns }
+}
+
+/**
+ * Parse `key=value` arguments into fields and typed values
+ */
+function parseAssignments (args: string[] | undefined): FieldAssignment[] {
+  return (args ?? []).map(parseFieldAssignment)
+}
+
+async function handleUpdateFrontmatter (args: string[], projectConfig: LoadedProjectConfig) {
+  const parsedArgs = parseUpdateArgs(args)
+  const values = withCommandDefaults(projectConfig, 'update-frontmatter', parsedArgs.values, UPDATE_OPTIONS)
+
+  if (parsedArgs.patterns.length === 0) {
+    exitWithError('File path is required for update-frontmatter command')
+  }
+
+  let update: (updater: MarkdownFrontmatterUpdater) => Promise<FrontmatterUpdateResult>
+  let message: string
+
+  try {
+    if (values.update && typeof values.update === 'string') {
+      const updateData = JSON.parse(values.update)
+      update = updater => updater.updateFields(updateData)
+      message = 'Frontmatter updated successfully'
+    } else if (values.set || values.remove || values.append || values.prepend || values['remove-value']) {
+      // Sets run first, then list operations, then removals, all in one write per file
+      const operations: FieldOperation[] = [
+        ...parseAssignments(values.set).map(({ field, value }) => ({ type: 'set' as const, field, value })),
+        ...(['append', 'prepend', 'remove-value'] as const).flatMap(type =>
+          parseAssignments(values[type]).map(({ field, value }) => ({ type, field, values: [value] }))),
+        ...(typeof values.remove === 'string' ? values.remove.split(',').map(field => ({ type: 'remove' as const, field: field.trim() })) : [])
+      ]
+
+      if (operations.length === 0) {
+        return
+      }
+
+      update = updater => updater.applyOperations(operations)
+      message = operations.every(operation => operation.type === 'set')
+        ? 'Fields updated successfully'
+        : operations.every(operation => operation.type === 'remove')
+          ? 'Fields removed successfully'
+          : 'Frontmatter updated successfully'
+    } else {
+      exitWithError('One of --update, --set, --remove, --append, --prepend or --remove-value is required for update-frontmatter command')
+    }
+  } catch (error) {
+    // Invalid JSON and typed values are usage errors
+    exitWithError(error instanceof Error ? error.message : 'Unknown error')
+  }
+
+  try {
+    // The same change is applied to every matched file
+    const dryRun = !!values['dry-run']
+    const diffFormat = parseDiffFormat(values['diff-format'])
+    const streamPath = getStreamPath(parsedArgs.patterns, { stdout: values.stdout, dryRun })
+    const streamFs = streamPath ? await createStreamFileSystem(streamPath) : undefined
+    const filePaths = streamPath ? [streamPath] : await resolveFileArgs(parsedArgs.patterns)
+    const results: FrontmatterUpdateResult[] = []
+    const files: FileResult[] = []
+    // Streamed documents are never written, so there is nothing to undo
+    const journal = createRunJournal(projectConfig, dryRun || !!streamFs)
+    // Tags set by hand follow the same normalization rules as generated tags
+    const tagNormalization = getTagNormalization(getSettingValues(resolveSettings({ config: projectConfig.config, env: process.env })))
+    for (const filePath of filePaths) {
+      const updater = new MarkdownFrontmatterUpdater(filePath, {
+        createIfMissing: !!values.create,
+        format: parseFrontmatterFormat(values['frontmatter-format'] ?? projectConfig.config.frontmatterFormat),
+        dryRun,
+        journal,
+        tagNormalization,
+        fs: streamFs
+      })
+
+      try {
+        const result = await update(updater)
+        results.push(result)
+        files.push({
+          ...toUpdateFileResult(result),
+          ...(dryRun ? { diff: createFrontmatterDiff(result).diff } : {}),
+          ...(streamFs ? { content: result.updatedContent } : {})
+        })
+      } catch (error) {
+        // A single file fails the command, the files of a batch are reported and the others continue
+        if (filePaths.length === 1 && !output.json) {
+          throw error
+        }
+        files.push(toFailedFileResult(filePath, error))
+        if (!output.json) {
+          console.error(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+      }
+    }
+
+    const exitCode = getExitCode(files)
+    if (output.json) {
+      printJsonResult(files, exitCode)
+      return
+    }
+
+    const failedCount = files.filter(file => file.action === 'failed').length
+    if (dryRun) {
+      printDryRun(results, diffFormat)
+    } else if (streamPath && streamFs) {
+      process.stdout.write(await streamFs.readFile(streamPath))
+    } else if (results.length > 0) {
+      console.log(filePaths.length === 1 ? message : `${message} in ${results.length} file(s)`)
+    }
+
+    if (failedCount > 0) {
+      console.error(`Error: Failed to update ${failedCount} of ${filePaths.length} file(s)`)
+      process.exit(exitCode)
+    }
+  } catch (error) {
+    failCommand(error)
+  }
+}
+
+async function handleGenerateTags (args: string[], projectConfig: LoadedProjectConfig) {
+  const commandOptions = {
+    create: { type: 'boolean' },
+    'frontmatter-format': { type: 'string' },
+    provider: { type: 'string' },
+    model: { type: 'string' },
+    'base-url': { type: 'string' },
+    'max-tokens': { type: 'string' },
+    temperature: { type: 'string' },
+    'tag-count': { type: 'string' },
+    source: { type: 'string' },
+    'body-token-budget': { type: 'string' },
+    fallback: { type: 'string' },
+    vocabulary: { type: 'string' },
+    'allow-new-tags': { type: 'boolean' },
+    strategy: { type: 'string' },
+    'tag-case': { type: 'string' },
+    'min-tags': { type: 'string' },
+    'max-tags': { type: 'string' },
+    'no-cache': { type: 'boolean' },
+    refresh: { type: 'boolean' },
+    concurrency: { type: 'string' },
+    'requests-per-minute': { type: 'string' },
+    'tokens-per-minute': { type: 'string' },
+    retries: { type: 'string' },
+    'dry-run': { type: 'boolean' },
+    'diff-format': { type: 'string' },
+    stdout: { type: 'boolean' }
+  } as const
+  const parsedArgs = parseArgs({ args, options: commandOptions, allowPositionals: true })
+  const values = withCommandDefaults(projectConfig, 'generate-tags', parsedArgs.values, commandOptions)
+
+  const settings = resolveSettings({
+    cli: {
+      provider: values.provider,
+      model: values.model,
+      baseUrl: values['base-url'],
+      maxTokens: parseIntegerOption('max-tokens', values['max-tokens']),
+      temperature: parseNumberOption('temperature', values.temperature, 'non-negative'),
+      cache: values['no-cache'] ? false : undefined,
+      concurrency: parseIntegerOption('concurrency', values.concurrency),
+      requestsPerMinute: parseNumberOption('requests-per-minute', values['requests-per-minute'], 'positive'),
+      tokensPerMinute: parseNumberOption('tokens-per-minute', values['tokens-per-minute'], 'positive'),
+      retries: parseIntegerOption('retries', values.retries, 0),
+      tagCount: parseIntegerOption('tag-count', values['tag-count']),
+      contentSource: parseContentSource(values.source),
+      bodyTokenBudget: parseIntegerOption('body-token-budget', values['body-token-budget']),
+      fallback: parseFallback(values.fallback),
+      vocabulary: values.vocabulary,
+      allowNewTags: values['allow-new-tags'],
+      strategy: parseStrategy(values.strategy),
+      tagCase: parseTagCase(values['tag-case']),
+      minTags: parseIntegerOption('min-tags', values['min-tags'], 0),
+      maxTags: parseIntegerOption('max-tags', values['max-tags']),
+      frontmatterFormat: values['frontmatter-format'] === undefined ? undefined : parseFrontmatterFormat(values['frontmatter-format'])
     },
-    allowPositionals: true
+    config: projectConfig.config,
+    env: process.env
   })
 
+  // Without a file path, fall back to the content globs from the config file
+  const patterns = parsedArgs.positionals.length > 0 ? parsedArgs.positionals : getContentPatterns(projectConfig, settings.content)
+  if (patterns.length === 0) {
+    exitWithError('File path is required for generate-tags command')
+  }
+
   try {
-    const updater = new MarkdownFrontmatterUpdater(filePath, {
-      createIfMissing: !!parsedArgs.values.create
-    })
+    const dryRun = !!values['dry-run']
+    const diffFormat = parseDiffFormat(values['diff-format'])
+    const streamPath = getStreamPath(patterns, { stdout: values.stdout, dryRun })
+    const streamFs = streamPath ? await createStreamFileSystem(streamPath) : undefined
+    const filePaths = streamPath ? [streamPath] : await resolveFileArgs(patterns)
+    const results: FrontmatterUpdateResult[] = []
+    const journal = createRunJournal(projectConfig, dryRun || !!streamFs)
+    const format = parseFrontmatterFormat(settings.frontmatterFormat.value)
 
-    if (parsedArgs.values.update && typeof parsedArgs.values.update === 'string') {
-      const updateData = JSON.parse(parsedArgs.values.update)
-      await updater.updateFields(updateData)
-      console.log('Frontmatter updated successfully')
-    } else if (parsedArgs.values.set && parsedArgs.values.set.length > 0) {
-      // Parse --set key1="value1" key2="value2" format
-      const fieldUpdates: Record<string, unknown> = {}
-
-      for (const setArg of parsedArgs.values.set) {
-        if (setArg.includes('=')) {
-          const parts = setArg.split('=', 2)
-          if (parts.length === 2) {
-            const key = parts[0]
-            const value = parts[1]
-            if (key && value) {
-              fieldUpdates[key] = value.replace(/^["']|["']$/g, '') // Remove quotes
-            }
-          }
+    // Progress is left out of JSON output, and goes to stderr when stdout holds the streamed document
+    const log = output.json ? () => {} : streamFs && !dryRun ? console.error : console.log
+    const onEvent = (event: TagEvent) => printTagEvent(event, log, dryRun)
+
+    // Tags used across the content, or an allowlist file, built once for all files.
+    // A document read from stdin is not on disk to be part of it.
+    const contentFiles = settings.content.value.length > 0 ? getContentPatterns(projectConfig, settings.content) : filePaths.filter(filePath => filePath !== STDIN_PATH)
+    const vocabulary = settings.vocabulary.value === undefined
+      ? undefined
+      : settings.vocabulary.value === 'content'
+        ? await collectTagVocabulary(contentFiles, { format, terms: settings.terms.value })
+        : await loadTagVocabulary(settings.vocabulary.value, { terms: settings.terms.value })
+
+    // Unchanged posts reuse their earlier tags, --refresh replaces the cached tags
+    const cache = settings.cache.value
+      ? new ResponseCache({ root: getProjectRoot(projectConfig), refresh: !!values.refresh })
+      : undefined
+
+    // One provider for all files, so the local provider reads the corpus once.
+    // It is created for the first file that needs tags generated.
+    const providerSetting = settings.provider.value
+    const provider = createLazyProvider(typeof providerSetting === 'string' ? providerSetting : providerSetting.name, () => createLLMProvider({
+      provider: settings.provider.value,
+      model: settings.model.value,
+      baseUrl: settings.baseUrl.value,
+      apiKey: settings.apiKey.value,
+      stopwords: settings.stopwords.value,
+      terms: settings.terms.value,
+      fallback: settings.fallback.value,
+      // Keywords are scored against the whole content corpus when the config defines it
+      corpus: contentFiles,
+      format,
+      cache,
+      // One rate limit for all files
+      requestsPerMinute: settings.requestsPerMinute.value,
+      tokensPerMinute: settings.tokensPerMinute.value,
+      retries: settings.retries.value,
+      onRetry: (error, attempt, delay) => onEvent({ type: 'provider-retry', provider: provider.name, error, attempt, retries: settings.retries.value, delay }),
+      onFallback: (error, fallback) => onEvent({ type: 'provider-fallback', provider: provider.name, fallback: fallback.name, error })
+    }))
+
+    const statuses: TagFileStatus[] = []
+    await mapWithConcurrency(filePaths, settings.concurrency.value, async filePath => {
+      const generativeTags = new GenerativeTags(filePath, {
+        createIfMissing: !!values.create,
+        format,
+        provider,
+        vocabulary,
+        allowNewTags: settings.allowNewTags.value,
+        strategy: settings.strategy.value,
+        normalization: getTagNormalization(getSettingValues(settings)),
+        maxTokens: settings.maxTokens.value,
+        temperature: settings.temperature.value,
+        tagCount: settings.tagCount.value,
+        prompt: settings.prompt.value,
+        contentSource: settings.contentSource.value,
+        bodyTokenBudget: settings.bodyTokenBudget.value,
+        // The shared provider already retries
+        retries: 0,
+        dryRun,
+        journal,
+        fs: streamFs,
+        onEvent
+      })
+
+      try {
+        results.push(...await generativeTags.run())
+      } catch (error) {
+        // Keep going with the remaining files, the failure was already reported
+        if (filePaths.length === 1 && !output.json) {
+          throw error
         }
+      } finally {
+        statuses.push(...generativeTags.getFileStatuses())
+      }
+    })
+    const failedCount = statuses.filter(status => status.status === 'failed').length
+
+    // Results are collected as files finish, print them in the order of the files
+    const fileIndex = (filePath: string) => filePaths.findIndex(candidate => path.resolve(candidate) === filePath)
+    results.sort((a, b) => fileIndex(a.filePath) - fileIndex(b.filePath))
+    statuses.sort((a, b) => fileIndex(a.filePath) - fileIndex(b.filePath))
+    const files = statuses.map(status => toTagFileResult(status, results.find(result => result.filePath === status.filePath), { dryRun, streamed: !!streamFs }))
+    const exitCode = getExitCode(files)
+
+    if (output.json) {
+      printJsonResult(files, exitCode)
+      return
+    }
+
+    if (dryRun) {
+      printDryRun(results, diffFormat)
+    }
+
+    if (filePaths.length > 1) {
+      printTagReport(statuses, dryRun && diffFormat === 'json' ? console.error : console.log)
+    }
+
+    if (failedCount > 0) {
+      console.error(`Error: Failed to generate tags for ${failedCount} of ${filePaths.length} file(s)`)
+      process.exit(exitCode)
+    }
+
+    if (streamPath && streamFs && !dryRun) {
+      process.stdout.write(await streamFs.readFile(streamPath))
+      return
+    }
+
+    if (!dryRun) {
+      const { hits } = cache?.getUsage() ?? { hits: 0 }
+      if (hits > 0) {
+        console.log(`Reused cached tags for ${hits} file(s)`)
       }
+      console.log('Tags generated successfully')
+    }
+  } catch (error) {
+    failCommand(error)
+  }
+}
+
+async function handleValidateFrontmatter (args: string[], projectConfig: LoadedProjectConfig) {
+  const commandOptions = {
+    schema: { type: 'string' },
+    fix: { type: 'boolean' },
+    'frontmatter-format': { type: 'string' },
+    'dry-run': { type: 'boolean' },
+    'diff-format': { type: 'string' },
+    stdout: { type: 'boolean' }
+  } as const
+  const parsedArgs = parseArgs({ args, options: commandOptions, allowPositionals: true })
+  const values = withCommandDefaults(projectConfig, 'validate-frontmatter', parsedArgs.values, commandOptions)
+
+  const patterns = parsedArgs.positionals
+  if (patterns.length === 0) {
+    exitWithError('At least one file path is required for validate-frontmatter command')
+  }
 
-      if (Object.keys(fieldUpdates).length > 0) {
-        await updater.updateFields(fieldUpdates)
-        console.log('Fields updated successfully')
+  if (!values.schema) {
+    exitWithError('--schema is required for validate-frontmatter command')
+  }
+
+  if (values.stdout && !values.fix) {
+    exitWithError('--stdout requires --fix for validate-frontmatter command')
+  }
+
+  const format = parseFrontmatterFormat(values['frontmatter-format'] ?? projectConfig.config.frontmatterFormat)
+  const diffFormat = parseDiffFormat(values['diff-format'])
+  const dryRun = !!values['dry-run']
+  const streamPath = getStreamPath(patterns, { stdout: values.stdout, dryRun })
+  const streamFs = streamPath ? await createStreamFileSystem(streamPath) : undefined
+  const filePaths = streamPath ? [streamPath] : await resolveFileArgs(patterns)
+  const updates: FrontmatterUpdateResult[] = []
+  const journal = values.fix ? createRunJournal(projectConfig, dryRun || !!streamFs) : undefined
+  // The fixed document goes to stdout, messages to stderr
+  const printsDocument = !!streamFs && !!values.fix && !dryRun
+  const log = output.json ? () => {} : printsDocument ? console.error : console.log
+  const report = output.json ? () => {} : console.error
+  const files: FileResult[] = []
+  let violationCount = 0
+  let schema: FrontmatterSchema
+
+  try {
+    schema = await loadFrontmatterSchema(values.schema)
+  } catch (error) {
+    failCommand(error)
+  }
+
+  for (const filePath of filePaths) {
+    try {
+      const validator = new FrontmatterValidator(filePath, {
+        schema,
+        fix: !!values.fix,
+        format,
+        dryRun,
+        journal,
+        fs: streamFs
+      })
+      const result = await validator.validate()
+
+      if (result.update) {
+        updates.push(result.update)
       }
-    } else if (parsedArgs.values.remove && typeof parsedArgs.values.remove === 'string') {
-      const fields = parsedArgs.values.remove.split(',').map(f => f.trim())
-      await updater.removeFields(fields)
-      console.log('Fields removed successfully')
-    } else {
-      console.error('Error: One of --update, --set, or --remove is required for update-frontmatter command')
-      process.exit(1)
+
+      if (result.fixedFields.length > 0 && !dryRun) {
+        log(`Fixed ${formatStreamPath(result.filePath)}: ${result.fixedFields.join(', ')}`)
+      }
+
+      for (const violation of result.violations) {
+        report(`${formatStreamPath(violation.filePath)}: ${violation.field || '(frontmatter)'}: ${violation.message}`)
+      }
+
+      violationCount += result.violations.length
+      files.push({
+        path: path.relative(process.cwd(), result.filePath),
+        action: result.valid ? 'valid' : 'invalid',
+        ...(values.fix ? { changedFields: result.fixedFields, written: result.update?.written ?? false } : {}),
+        ...(result.violations.length > 0 ? { violations: result.violations.map(({ field, message }) => ({ field, message })) } : {}),
+        ...(dryRun && result.update ? { diff: createFrontmatterDiff(result.update).diff } : {}),
+        ...(streamPath && streamFs && printsDocument ? { content: await streamFs.readFile(streamPath) } : {})
+      })
+    } catch (error) {
+      // A single file fails the command, the files of a batch are reported and the others continue
+      if (filePaths.length === 1 && !output.json) {
+        failCommand(error)
+      }
+      files.push(toFailedFileResult(filePath, error))
+      report(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const exitCode = getExitCode(files)
+  if (output.json) {
+    printJsonResult(files, exitCode)
+    return
+  }
+
+  if (dryRun && values.fix) {
+    printDryRun(updates, diffFormat)
+  }
+
+  // Invalid documents are printed too, with the fixes that could be made
+  if (streamPath && streamFs && printsDocument) {
+    process.stdout.write(await streamFs.readFile(streamPath))
+  }
+
+  const invalidFileCount = files.filter(file => file.action === 'invalid').length
+  const failedCount = files.filter(file => file.action === 'failed').length
+  if (invalidFileCount > 0) {
+    console.error(`Found ${violationCount} violation(s) in ${invalidFileCount} of ${filePaths.length} file(s)`)
+  }
+  if (failedCount > 0) {
+    console.error(`Error: Failed to validate ${failedCount} of ${filePaths.length} file(s)`)
+  }
+  if (exitCode !== EXIT_CODES.success) {
+    process.exit(exitCode)
+  }
+
+  // Keep JSON diffs the only output on stdout
+  if (!(dryRun && diffFormat === 'json')) {
+    log(`All ${filePaths.length} file(s) passed validation`)
+  }
+}
+
+async function handleBuildIndex (args: string[], projectConfig: LoadedProjectConfig) {
+  const commandOptions = {
+    output: { type: 'string' },
+    fields: { type: 'string' },
+    sort: { type: 'string' },
+    'exclude-drafts': { type: 'boolean' },
+    incremental: { type: 'string' },
+    'words-per-minute': { type: 'string' },
+    'frontmatter-format': { type: 'string' }
+  } as const
+  const parsedArgs = parseArgs({ args, options: commandOptions, allowPositionals: true })
+  const values = withCommandDefaults(projectConfig, 'build-index', parsedArgs.values, commandOptions)
+
+  // Without a file path, fall back to the content globs from the config file
+  const settings = resolveSettings({ config: projectConfig.config, env: process.env })
+  const patterns = parsedArgs.positionals.length > 0 ? parsedArgs.positionals : getContentPatterns(projectConfig, settings.content)
+  if (patterns.length === 0) {
+    exitWithError('File path is required for build-index command')
+  }
+
+  const incremental = parseIncrementalMode(values.incremental)
+  if (incremental && !values.output) {
+    exitWithError('--incremental requires --output, the index it updates')
+  }
+
+  try {
+    await resolveFileArgs(patterns)
+    const index = new ContentIndex(patterns, {
+      // Entries of the config's content globs are relative to the project, wherever the CLI runs
+      cwd: parsedArgs.positionals.length > 0 ? undefined : getProjectRoot(projectConfig),
+      fields: values.fields?.split(',').map(field => field.trim()),
+      sort: values.sort,
+      excludeDrafts: values['exclude-drafts'],
+      previous: incremental && values.output ? await loadContentIndex(values.output) : undefined,
+      incremental,
+      wordsPerMinute: parseIntegerOption('words-per-minute', values['words-per-minute']),
+      format: parseFrontmatterFormat(values['frontmatter-format'] ?? projectConfig.config.frontmatterFormat)
+    })
+    const manifest = await index.build()
+    const statuses = index.getFileStatuses()
+    const files = statuses.map(toIndexFileResult)
+    const exitCode = getExitCode(files)
+    const failed = statuses.filter(status => status.status === 'failed')
+
+    // An index is still written when some files failed, but not when all of them did
+    const written = !!values.output && (failed.length === 0 || failed.length < statuses.length)
+    if (written) {
+      await writeContentIndex(values.output!, manifest)
+    }
+
+    if (output.json) {
+      printJsonResult(files, exitCode, written ? { output: path.relative(process.cwd(), path.resolve(values.output!)) } : { index: manifest })
+      return
+    }
+
+    for (const status of failed) {
+      console.error(`❌ ${status.reason}`)
+    }
+
+    if (!values.output) {
+      console.log(JSON.stringify(manifest, null, 2))
+    } else if (written) {
+      const reused = statuses.filter(status => status.status === 'reused').length
+      const drafts = statuses.filter(status => status.status === 'skipped').length
+      console.log(`Indexed ${manifest.entries.length} post(s) to ${values.output} (${reused} reused, ${drafts} draft(s) left out)`)
+    }
+
+    if (failed.length > 0) {
+      console.error(`Error: Failed to index ${failed.length} of ${statuses.length} file(s)`)
+      process.exit(exitCode)
     }
   } catch (error) {
-    console.error('Error:', error instanceof Error ? error.message : 'Unknown error')
-    process.exit(1)
+    failCommand(error)
   }
 }
 
-async function handleGenerateTags (args: string[]) {
-  if (args.length === 0) {
-    console.error('Error: File path is required for generate-tags command')
-    process.exit(1)
+function parseIncrementalMode (value: string | undefined): IncrementalMode | undefined {
+  if (value === undefined || INCREMENTAL_MODES.includes(value as IncrementalMode)) {
+    return value as IncrementalMode | undefined
+  }
+
+  exitWithError(`Unsupported incremental mode '${value}', expected one of ${INCREMENTAL_MODES.join(', ')}`)
+}
+
+/**
+ * Describe what a build did with one file
+ */
+function toIndexFileResult (status: IndexFileStatus): FileResult {
+  const filePath = path.relative(process.cwd(), status.filePath)
+
+  switch (status.status) {
+    case 'indexed':
+      return { path: filePath, action: 'indexed' }
+    case 'reused':
+      return { path: filePath, action: 'unchanged' }
+    case 'skipped':
+      return { path: filePath, action: 'skipped', reason: status.reason }
+    case 'failed':
+      return { path: filePath, action: 'failed', error: { code: status.code ?? 'UNKNOWN_ERROR', message: status.reason ?? 'Unknown error' } }
+  }
+}
+
+/**
+ * Feed formats and the option that writes each of them
+ */
+const FEED_OUTPUT_OPTIONS: Array<[FeedFormat, 'rss' | 'atom' | 'json-feed']> = [['rss', 'rss'], ['atom', 'atom'], ['json', 'json-feed']]
+
+async function handleGenerateFeed (args: string[], projectConfig: LoadedProjectConfig) {
+  const commandOptions = {
+    rss: { type: 'string' },
+    atom: { type: 'string' },
+    'json-feed': { type: 'string' },
+    'site-url': { type: 'string' },
+    'site-title': { type: 'string' },
+    'site-description': { type: 'string' },
+    'field-map': { type: 'string' },
+    limit: { type: 'string' },
+    'exclude-drafts': { type: 'boolean' },
+    'exclude-future': { type: 'boolean' },
+    'full-content': { type: 'boolean' },
+    'frontmatter-format': { type: 'string' }
+  } as const
+  const parsedArgs = parseArgs({ args, options: commandOptions, allowPositionals: true })
+  const values = withCommandDefaults(projectConfig, 'generate-feed', parsedArgs.values, commandOptions)
+  const settings = resolveSettings({
+    cli: {
+      siteUrl: values['site-url'],
+      siteTitle: values['site-title'],
+      siteDescription: values['site-description']
+    },
+    config: projectConfig.config,
+    env: process.env
+  })
+
+  // Without a file path, fall back to the content globs from the config file
+  const patterns = parsedArgs.positionals.length > 0 ? parsedArgs.positionals : getContentPatterns(projectConfig, settings.content)
+  if (patterns.length === 0) {
+    exitWithError('File path is required for generate-feed command')
+  }
+
+  const outputs = FEED_OUTPUT_OPTIONS.flatMap(([format, option]) => values[option] ? [{ format, filePath: values[option] }] : [])
+  if (outputs.length === 0) {
+    exitWithError('One of --rss, --atom or --json-feed is required for generate-feed command')
+  }
+
+  const siteUrl = settings.siteUrl.value
+  if (!siteUrl || !URL.canParse(siteUrl)) {
+    exitWithError(siteUrl ? `Invalid site URL '${siteUrl}'` : '--site-url, SITE_URL or site.url in the config file is required for generate-feed command')
+  }
+
+  try {
+    await resolveFileArgs(patterns)
+    const generator = new FeedGenerator(patterns, {
+      site: {
+        url: siteUrl,
+        title: settings.siteTitle.value ?? new URL(siteUrl).host,
+        description: settings.siteDescription.value,
+        language: settings.siteLanguage.value,
+        author: settings.siteAuthor.value
+      },
+      fields: parseFieldMap(values['field-map']),
+      limit: parseIntegerOption('limit', values.limit),
+      excludeDrafts: values['exclude-drafts'],
+      excludeFuture: values['exclude-future'],
+      fullContent: values['full-content'],
+      format: parseFrontmatterFormat(values['frontmatter-format'] ?? projectConfig.config.frontmatterFormat)
+    })
+    const items = await generator.build()
+    const statuses = generator.getFileStatuses()
+    const files = statuses.map(toIncludedFileResult)
+    const exitCode = getExitCode(files)
+    const failed = statuses.filter(status => status.status === 'failed')
+
+    // Feeds are still written when some files failed, but not when all of them did
+    const written = failed.length === 0 || failed.length < statuses.length
+    // Feeds link themselves at their file name below the site URL, where they are expected to be published
+    if (written) {
+      for (const { format, filePath } of outputs) {
+        await generator.write(filePath, format, new URL(path.basename(filePath), withTrailingSlash(siteUrl)).href)
+      }
+    }
+
+    if (output.json) {
+      printJsonResult(files, exitCode, { outputs: written ? outputs.map(({ filePath }) => path.relative(process.cwd(), path.resolve(filePath))) : [] })
+      return
+    }
+
+    for (const status of failed) {
+      console.error(`❌ ${status.reason}`)
+    }
+
+    if (written) {
+      console.log(`Wrote ${items.length} item(s) to ${outputs.map(({ filePath }) => filePath).join(', ')}`)
+    }
+
+    if (failed.length > 0) {
+      console.error(`Error: Failed to read ${failed.length} of ${statuses.length} file(s)`)
+      process.exit(exitCode)
+    }
+  } catch (error) {
+    failCommand(error)
+  }
+}
+
+/**
+ * Parse `property=field` pairs, such as `url=permalink,date=published_at`
+ */
+function parseFieldMap (value: string | undefined): Partial<FeedFieldMap> | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const properties = ['title', 'date', 'description', 'tags', 'url']
+  const fields: Partial<FeedFieldMap> = {}
+
+  for (const pair of value.split(',')) {
+    const [property, field] = pair.split('=').map(part => part.trim())
+    if (!property || !field || !properties.includes(property)) {
+      exitWithError(`Invalid --field-map entry '${pair}', expected property=field with a property of ${properties.join(', ')}`)
+    }
+    fields[property as keyof FeedFieldMap] = field
+  }
+
+  return fields
+}
+
+/**
+ * Describe what a feed or sitemap build did with one file
+ */
+function toIncludedFileResult (status: ContentFileStatus<'included' | 'skipped' | 'failed'>): FileResult {
+  const filePath = path.relative(process.cwd(), status.filePath)
+
+  switch (status.status) {
+    case 'included':
+      return { path: filePath, action: 'included' }
+    case 'skipped':
+      return { path: filePath, action: 'skipped', reason: status.reason }
+    case 'failed':
+      return { path: filePath, action: 'failed', error: { code: status.code ?? 'UNKNOWN_ERROR', message: status.reason ?? 'Unknown error' } }
   }
+}
+
+async function handleGenerateSitemap (args: string[], projectConfig: LoadedProjectConfig) {
+  const commandOptions = {
+    output: { type: 'string' },
+    'site-url': { type: 'string' },
+    permalink: { type: 'string' },
+    'lastmod-fields': { type: 'string' },
+    'no-git-lastmod': { type: 'boolean' },
+    'max-urls': { type: 'string' },
+    'frontmatter-format': { type: 'string' }
+  } as const
+  const parsedArgs = parseArgs({ args, options: commandOptions, allowPositionals: true })
+  const values = withCommandDefaults(projectConfig, 'generate-sitemap', parsedArgs.values, commandOptions)
+  const settings = resolveSettings({
+    cli: {
+      siteUrl: values['site-url'],
+      sitePermalink: values.permalink
+    },
+    config: projectConfig.config,
+    env: process.env
+  })
 
-  const filePath = args[0]
-  if (!filePath) {
-    console.error('Error: File path is required for generate-tags command')
-    process.exit(1)
+  // Without a file path, fall back to the content globs from the config file
+  const patterns = parsedArgs.positionals.length > 0 ? parsedArgs.positionals : getContentPatterns(projectConfig, settings.content)
+  if (patterns.length === 0) {
+    exitWithError('File path is required for generate-sitemap command')
   }
 
+  if (!values.output) {
+    exitWithError('--output is required for generate-sitemap command')
+  }
+
+  const siteUrl = settings.siteUrl.value
+  if (!siteUrl || !URL.canParse(siteUrl)) {
+    exitWithError(siteUrl ? `Invalid site URL '${siteUrl}'` : '--site-url, SITE_URL or site.url in the config file is required for generate-sitemap command')
+  }
+
+  try {
+    await resolveFileArgs(patterns)
+    const generator = new SitemapGenerator(patterns, {
+      siteUrl,
+      permalink: settings.sitePermalink.value,
+      lastmodFields: values['lastmod-fields']?.split(',').map(field => field.trim()),
+      gitLastmod: !values['no-git-lastmod'],
+      maxUrls: parseIntegerOption('max-urls', values['max-urls']),
+      format: parseFrontmatterFormat(values['frontmatter-format'] ?? projectConfig.config.frontmatterFormat)
+    })
+    const entries = await generator.build()
+    const statuses = generator.getFileStatuses()
+    const files = statuses.map(toIncludedFileResult)
+    const exitCode = getExitCode(files)
+    const failed = statuses.filter(status => status.status === 'failed')
+
+    // A sitemap is still written when some files failed, but not when all of them did
+    const written = failed.length === 0 || failed.length < statuses.length ? await generator.write(values.output) : []
+
+    if (output.json) {
+      printJsonResult(files, exitCode, { outputs: written.map(filePath => path.relative(process.cwd(), filePath)) })
+      return
+    }
+
+    for (const status of failed) {
+      console.error(`❌ ${status.reason}`)
+    }
+
+    if (written.length > 1) {
+      console.log(`Wrote ${entries.length} URL(s) to ${written.length - 1} sitemaps and the sitemap index ${values.output}`)
+    } else if (written.length === 1) {
+      console.log(`Wrote ${entries.length} URL(s) to ${values.output}`)
+    }
+
+    if (failed.length > 0) {
+      console.error(`Error: Failed to read ${failed.length} of ${statuses.length} file(s)`)
+      process.exit(exitCode)
+    }
+  } catch (error) {
+    failCommand(error)
+  }
+}
+
+async function handleUndo (args: string[], projectConfig: LoadedProjectConfig) {
   const parsedArgs = parseArgs({
-    args: args.slice(1),
+    args,
     options: {
-      create: { type: 'boolean' }
-    },
-    allowPositionals: true
+      run: { type: 'string' },
+      list: { type: 'boolean' },
+      force: { type: 'boolean' }
+    }
   })
+  const root = getProjectRoot(projectConfig)
 
   try {
-    const generativeTags = new GenerativeTags(filePath, {
-      createIfMissing: !!parsedArgs.values.create
+    if (parsedArgs.values.list) {
+      const runs = await listJournalRuns(root)
+      if (output.json) {
+        printJsonResult([], EXIT_CODES.success, {
+          runs: runs.map(run => ({ id: run.id, command: run.command, startedAt: run.startedAt, undoneAt: run.undoneAt, files: run.files.length }))
+        })
+        return
+      }
+
+      if (runs.length === 0) {
+        console.log('No runs recorded')
+        return
+      }
+
+      for (const run of runs) {
+        const status = run.undoneAt ? ' (undone)' : ''
+        console.log(`${run.id}  ${run.files.length} file(s)${status}  ${run.command}`)
+      }
+      return
+    }
+
+    const result = await undoJournalRun({ root, runId: parsedArgs.values.run, force: !!parsedArgs.values.force })
+    const exitCode = result.skipped.length > 0 ? EXIT_CODES.partialFailure : EXIT_CODES.success
+
+    if (output.json) {
+      printJsonResult([
+        ...result.restored.map(filePath => ({ path: path.relative(process.cwd(), filePath), action: 'restored' as const })),
+        ...result.skipped.map(filePath => ({ path: path.relative(process.cwd(), filePath), action: 'skipped' as const, reason: `changed after run ${result.run.id}` }))
+      ], exitCode, { run: result.run.id })
+      return
+    }
+
+    for (const filePath of result.skipped) {
+      console.error(`Skipped ${filePath}: changed after run ${result.run.id}, use --force to restore it anyway`)
+    }
+    console.log(`Restored ${result.restored.length} file(s) from run ${result.run.id}`)
+    process.exitCode = exitCode
+  } catch (error) {
+    failCommand(error)
+  }
+}
+
+async function handleConfig (args: string[], projectConfig: LoadedProjectConfig) {
+  const subcommand = args[0]
+
+  if (subcommand !== 'print') {
+    exitWithError(`Unknown config subcommand '${subcommand ?? ''}', expected 'print'`)
+  }
+
+  const settings = resolveSettings({ config: projectConfig.config, env: process.env })
+
+  if (output.json) {
+    printJsonResult([], EXIT_CODES.success, {
+      configFile: projectConfig.filePath ?? null,
+      settings: Object.fromEntries(Object.entries(settings).map(([key, setting]) => [getSettingConfigKey(key as keyof ProjectSettings), {
+        value: key === 'apiKey' ? maskSecret(setting.value as string | undefined) : isLLMProvider(setting.value) ? formatSettingValue(setting.value) : setting.value,
+        source: setting.source,
+        ...(setting.origin ? { origin: setting.origin } : {})
+      }])),
+      commands: projectConfig.config.commands ?? {}
     })
+    return
+  }
+
+  console.log(`Config file: ${projectConfig.filePath ?? 'none found'}`)
+  console.log('')
+
+  const rows: Array<[string, string, string]> = []
+  for (const [key, setting] of Object.entries(settings) as Array<[keyof ProjectSettings, (typeof settings)[keyof ProjectSettings]]>) {
+    const value = key === 'apiKey' ? maskSecret(setting.value as string | undefined) : formatSettingValue(setting.value)
+    const source = setting.origin ? `${setting.source} (${setting.origin})` : setting.source
+    rows.push([getSettingConfigKey(key), value, source])
+  }
+
+  for (const [command, defaults] of Object.entries(projectConfig.config.commands ?? {})) {
+    for (const [option, value] of Object.entries(defaults)) {
+      rows.push([`commands.${command}.${option}`, formatSettingValue(value), 'config'])
+    }
+  }
 
-    await generativeTags.run()
-    console.log('Tags generated successfully')
+  const keyWidth = Math.max(...rows.map(([key]) => key.length))
+  const valueWidth = Math.max(...rows.map(([, value]) => value.length))
+  for (const [key, value, source] of rows) {
+    console.log(`${key.padEnd(keyWidth)}  ${value.padEnd(valueWidth)}  ${source}`)
+  }
+}
+
+async function handleCache (args: string[], projectConfig: LoadedProjectConfig) {
+  const subcommand = args[0]
+
+  if (subcommand !== 'stats' && subcommand !== 'clear') {
+    exitWithError(`Unknown cache subcommand '${subcommand ?? ''}', expected 'stats' or 'clear'`)
+  }
+
+  const cache = new ResponseCache({ root: getProjectRoot(projectConfig) })
+
+  try {
+    if (subcommand === 'clear') {
+      const removed = await cache.clear()
+      if (output.json) {
+        printJsonResult([], EXIT_CODES.success, { removed })
+        return
+      }
+      console.log(`Removed ${removed} cached response(s)`)
+      return
+    }
+
+    const stats = await cache.getStats()
+    if (output.json) {
+      printJsonResult([], EXIT_CODES.success, { cache: { ...stats, directory: path.relative(process.cwd(), stats.directory) || '.' } })
+      return
+    }
+    console.log(`Cache directory: ${path.relative(process.cwd(), stats.directory) || '.'}`)
+    console.log(`Entries: ${stats.entries}`)
+    console.log(`Size: ${formatBytes(stats.bytes)}`)
   } catch (error) {
-    console.error('Error:', error instanceof Error ? error.message : 'Unknown error')
-    process.exit(1)
+    failCommand(error)
   }
 }
 
+function formatBytes (bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function formatSettingValue (value: unknown): string {
+  if (value === undefined) {
+    return '(not set)'
+  }
+  if (isLLMProvider(value)) {
+    return `${value.name} (custom provider)`
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function maskSecret (value: string | undefined): string {
+  if (!value) {
+    return '(not set)'
+  }
+  return value.length > 8 ? `****${value.slice(-4)}` : '****'
+}
+
 async function main () {
   const args = process.argv.slice(2)
 
@@ -178,25 +1571,62 @@ async function main () {
   const command = args[0]
   const commandArgs = args.slice(1)
 
+  if (command === 'help' || command === '--help' || command === '-h') {
+    showUsage(EXIT_CODES.success)
+  }
+
+  output.command = command ?? ''
+  output.json = extractGlobalFlag(commandArgs, 'json')
+
+  let projectConfig: LoadedProjectConfig
+  try {
+    projectConfig = await loadProjectConfig({ configPath: extractGlobalOption(commandArgs, 'config') })
+  } catch (error) {
+    failCommand(error)
+  }
+
   switch (command) {
     case 'extract-frontmatter':
-      await handleExtractFrontmatter(commandArgs)
+      await handleExtractFrontmatter(commandArgs, projectConfig)
       break
     case 'update-frontmatter':
-      await handleUpdateFrontmatter(commandArgs)
+      await handleUpdateFrontmatter(commandArgs, projectConfig)
       break
     case 'generate-tags':
-      await handleGenerateTags(commandArgs)
+      await handleGenerateTags(commandArgs, projectConfig)
       break
-    case 'help':
-    case '--help':
-    case '-h':
-      showUsage()
+    case 'validate-frontmatter':
+      await handleValidateFrontmatter(commandArgs, projectConfig)
+      break
+    case 'build-index':
+      await handleBuildIndex(commandArgs, projectConfig)
+      break
+    case 'generate-feed':
+      await handleGenerateFeed(commandArgs, projectConfig)
+      break
+    case 'generate-sitemap':
+      await handleGenerateSitemap(commandArgs, projectConfig)
+      break
+    case 'undo':
+      await handleUndo(commandArgs, projectConfig)
+      break
+    case 'config':
+      await handleConfig(commandArgs, projectConfig)
+      break
+    case 'cache':
+      await handleCache(commandArgs, projectConfig)
       break
     default:
+      if (output.json) {
+        exitWithError(`Unknown command '${command}'`)
+      }
       console.error(`Error: Unknown command '${command}'`)
       showUsage()
   }
 }
 
-main().catch(console.error)
+main().catch(error => {
+  // Unknown options and options missing their value are usage errors
+  const code = typeof error?.code === 'string' && error.code.startsWith('ERR_PARSE_ARGS') ? 'USAGE_ERROR' : getErrorCode(error)
+  exitWithError(error instanceof Error ? error.message : 'Unknown error', code)
+})
@@ -1,6 +1,55 @@
-export { MarkdownFrontmatterExtractor } from './utils/markdown-frontmatter-extractor.js'
-export type { FrontmatterExtractorOptions } from './utils/markdown-frontmatter-extractor.js'
+export { MarkdownFrontmatterExtractor, extractFrontmatterFromFiles } from './utils/markdown-frontmatter-extractor.js'
+export type { FrontmatterExtractorOptions, ExtractedContent } from './utils/markdown-frontmatter-extractor.js'
+export { formatFrontmatterRecords, FRONTMATTER_OUTPUT_FORMATS } from './utils/frontmatter-output.js'
+export type { FrontmatterOutputFormat, FrontmatterRecord, FrontmatterOutputOptions } from './utils/frontmatter-output.js'
+export type { ContentSyntax } from './utils/markdown-content.js'
 export { MarkdownFrontmatterUpdater } from './utils/markdown-frontmatter-updater.js'
-export type { FrontmatterUpdaterOptions } from './utils/markdown-frontmatter-updater.js'
-export { GenerativeTags } from './utils/generative-tags.js'
-export type { GenerativeTagsOptions } from './utils/generative-tags.js'
+export type { FrontmatterUpdaterOptions, FrontmatterUpdateResult } from './utils/markdown-frontmatter-updater.js'
+export { parseFrontmatter, parseContent, updateFrontmatterInString, replaceFrontmatterInString, applyOperationsInString, getChangedFields } from './utils/frontmatter-content.js'
+export type { ParseFrontmatterOptions, ParseContentOptions, UpdateFrontmatterOptions, FieldOperation } from './utils/frontmatter-content.js'
+export { MemoryFileSystem, nodeFileSystem } from './utils/file-system.js'
+export type { FileSystem } from './utils/file-system.js'
+export { parseFieldPath, resolveFieldPath, formatFieldPath, getPathValue, setPathValue, deletePathValue } from './utils/field-paths.js'
+export type { FieldPath } from './utils/field-paths.js'
+export { parseFieldAssignment, parseFieldValue, FIELD_VALUE_TYPES } from './utils/field-values.js'
+export type { FieldAssignment, FieldValueType } from './utils/field-values.js'
+export { createFrontmatterDiff, colorizeDiff, summarizeUpdates } from './utils/frontmatter-diff.js'
+export type { FrontmatterDiff, FrontmatterUpdateSummary } from './utils/frontmatter-diff.js'
+export type { NewKeyPosition } from './utils/frontmatter-edits.js'
+export type { FrontmatterFormat } from './utils/frontmatter-formats.js'
+export { FrontmatterValidator, loadFrontmatterSchema } from './utils/frontmatter-validator.js'
+export type { FrontmatterValidatorOptions, FrontmatterValidationResult, FrontmatterViolation, FrontmatterSchema } from './utils/frontmatter-validator.js'
+export { GenerativeTags, generateTagsForContent } from './utils/generative-tags.js'
+export type { GenerativeTagsOptions, TagFileStatus, TagEvent } from './utils/generative-tags.js'
+export { FakeLLMProvider, createLLMProvider, createLanguageModelProvider, createFallbackProvider, createCachedProvider, createThrottledProvider, createLazyProvider } from './utils/llm-providers.js'
+export type { LLMProvider, LLMProviderName, LLMProviderOptions, FallbackOptions, TagGenerationRequest, TagFallback, FakeLLMResponse } from './utils/llm-providers.js'
+export { LocalTagProvider, KeywordCorpus, buildKeywordCorpus } from './utils/local-tags.js'
+export type { LocalTagProviderOptions } from './utils/local-tags.js'
+export { TagVocabulary, collectTagVocabulary, loadTagVocabulary } from './utils/tag-vocabulary.js'
+export type { TagVocabularyOptions, ConstrainedTags } from './utils/tag-vocabulary.js'
+export { normalizeTags, mergeTags } from './utils/tag-normalization.js'
+export { ResponseCache, createCacheKey } from './utils/response-cache.js'
+export type { ResponseCacheOptions, ResponseCacheStats } from './utils/response-cache.js'
+export { RateLimiter, withRetry, isRetryableError, getRetryAfter, mapWithConcurrency } from './utils/throttling.js'
+export type { RateLimits, RetryOptions } from './utils/throttling.js'
+export type { TagStrategy, TagCase, TagNormalizationOptions } from './utils/tag-normalization.js'
+export { findConfigFile, loadConfigFile, loadProjectConfig, resolveSettings } from './utils/config.js'
+export type { ProjectConfig, ProjectSettings, ResolvedSettings, SettingSource } from './utils/config.js'
+export { resolveContentFiles } from './utils/content-files.js'
+export type { ContentFilesOptions, ContentFileStatus } from './utils/content-files.js'
+export { RunJournal, listJournalRuns, undoJournalRun } from './utils/run-journal.js'
+export type { JournalRun, JournalEntry, UndoResult, RunJournalOptions } from './utils/run-journal.js'
+export { summarizeContent, buildTagPrompt } from './utils/tag-context.js'
+export type { TagContentSource, ContentSummary, TagPromptOptions } from './utils/tag-context.js'
+export { CodedError, getErrorCode } from './utils/errors.js'
+export type { ErrorCode } from './utils/errors.js'
+export { EXIT_CODES, getExitCode, getErrorExitCode, toCommandError } from './utils/command-results.js'
+export type { CommandResult, CommandError, FileResult, FileAction } from './utils/command-results.js'
+export { ContentIndex, loadContentIndex, writeContentIndex, INCREMENTAL_MODES } from './utils/content-index.js'
+export type { ContentIndexOptions, ContentIndexManifest, ContentIndexEntry, ContentHeading, IndexFileStatus, IncrementalMode } from './utils/content-index.js'
+export { FeedGenerator, DEFAULT_FEED_FIELDS } from './utils/feed-generator.js'
+export type { FeedGeneratorOptions, FeedFieldMap, FeedFileStatus } from './utils/feed-generator.js'
+export { renderFeed, FEED_FORMATS } from './utils/feed-formats.js'
+export type { FeedFormat, FeedItem, FeedSite } from './utils/feed-formats.js'
+export { SitemapGenerator, renderSitemap, renderSitemapIndex, MAX_SITEMAP_URLS, DEFAULT_PERMALINK, PERMALINK_PLACEHOLDERS } from './utils/sitemap-generator.js'
+export type { SitemapGeneratorOptions, SitemapEntry, SitemapFileStatus } from './utils/sitemap-generator.js'
@@ -0,0 +1,22 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { randomBytes } from 'node:crypto'
+
+/**
+ * Write a file by writing a temp file next to it and renaming it into place,
+ * so a crash never leaves a partially written file behind. The permissions of
+ * an existing file are kept.
+ */
+export async function writeFileAtomic (filePath: string, content: string): Promise<void> {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`)
+
+  try {
+    const mode = await fs.stat(filePath).then(stat => stat.mode, () => undefined)
+
+    await fs.writeFile(tempPath, content, { encoding: 'utf-8', mode })
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw new Error(`Failed to write ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  }
+}
@@ -0,0 +1,136 @@
+import path from 'node:path'
+import { getErrorCode } from './errors.js'
+import type { ErrorCode } from './errors.js'
+import type { FrontmatterUpdateResult } from './markdown-frontmatter-updater.js'
+
+/**
+ * Exit codes of the CLI, the same for every command
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** An unexpected error, or a file that cannot be read or written */
+  error: 1,
+  missingFrontmatter: 2,
+  usage: 3,
+  parse: 4,
+  provider: 5,
+  /** Some files of a batch failed and the others succeeded */
+  partialFailure: 6,
+  invalidFrontmatter: 7
+} as const
+
+const ERROR_EXIT_CODES: Record<ErrorCode, number> = {
+  USAGE_ERROR: EXIT_CODES.usage,
+  MISSING_FRONTMATTER: EXIT_CODES.missingFrontmatter,
+  PARSE_ERROR: EXIT_CODES.parse,
+  PROVIDER_ERROR: EXIT_CODES.provider,
+  INVALID_FRONTMATTER: EXIT_CODES.invalidFrontmatter,
+  FILE_ERROR: EXIT_CODES.error,
+  UNKNOWN_ERROR: EXIT_CODES.error
+}
+
+export type FileAction = 'extracted' | 'missing' | 'updated' | 'unchanged' | 'skipped' | 'valid' | 'invalid' | 'restored' | 'indexed' | 'included' | 'failed'
+
+export interface CommandError {
+  code: ErrorCode
+  message: string
+}
+
+/**
+ * What a command did to one file
+ */
+export interface FileResult {
+  /** Path relative to the current directory, `-` for stdin */
+  path: string
+  action: FileAction
+  /** Top-level fields that were added, changed or removed, or would be in a dry run */
+  changedFields?: string[]
+  /** Whether the file was written, which is never the case in dry runs and for streamed documents */
+  written?: boolean
+  /** Why the file was skipped */
+  reason?: string
+  error?: CommandError
+  frontmatter?: Record<string, unknown> | null
+  tags?: string[]
+  violations?: Array<{ field: string, message: string }>
+  /** Unified diff of a dry run */
+  diff?: string
+  /** The document printed instead of written, for stdin and --stdout */
+  content?: string
+}
+
+/**
+ * The JSON printed by a command with --json
+ */
+export interface CommandResult {
+  command: string
+  exitCode: number
+  files: FileResult[]
+  /** A failure of the whole command, such as invalid arguments */
+  error?: CommandError
+}
+
+/**
+ * Describe an error by its code and message
+ */
+export function toCommandError (error: unknown): CommandError {
+  return {
+    code: getErrorCode(error),
+    message: error instanceof Error ? error.message : 'Unknown error'
+  }
+}
+
+/**
+ * Get the exit code for a failure of the given kind
+ */
+export function getErrorExitCode (code: ErrorCode): number {
+  return ERROR_EXIT_CODES[code]
+}
+
+/**
+ * Get the exit code of a command from its file results. A batch where only
+ * some files failed exits with the partial failure code, a batch where every
+ * file failed with the code of the first failure.
+ */
+export function getExitCode (files: FileResult[], options: { failOnMissing?: boolean } = {}): number {
+  const failed = files.filter(file => file.action === 'failed')
+
+  if (failed.length > 0) {
+    return failed.length < files.length
+      ? EXIT_CODES.partialFailure
+      : getErrorExitCode(failed[0]!.error?.code ?? 'UNKNOWN_ERROR')
+  }
+
+  if (files.some(file => file.action === 'invalid')) {
+    return EXIT_CODES.invalidFrontmatter
+  }
+
+  if (options.failOnMissing && files.some(file => file.action === 'missing')) {
+    return EXIT_CODES.missingFrontmatter
+  }
+
+  return EXIT_CODES.success
+}
+
+/**
+ * Describe the update made to a file
+ */
+export function toUpdateFileResult (result: FrontmatterUpdateResult): FileResult {
+  return {
+    path: path.relative(process.cwd(), result.filePath),
+    action: result.changed ? 'updated' : 'unchanged',
+    changedFields: result.changedFields,
+    written: result.written
+  }
+}
+
+/**
+ * Describe a file that failed
+ */
+export function toFailedFileResult (filePath: string, error: unknown): FileResult {
+  return {
+    path: path.relative(process.cwd(), filePath),
+    action: 'failed',
+    error: toCommandError(error)
+  }
+}
@@ -0,0 +1,491 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { pathToFileURL } from 'node:url'
+import { z } from 'zod'
+import { FRONTMATTER_FORMATS } from './frontmatter-formats.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { TAG_CONTENT_SOURCES } from './tag-context.js'
+import type { TagContentSource } from './tag-context.js'
+import { TAG_FALLBACKS, getProviderDefaults, isLLMProvider } from './llm-providers.js'
+import type { LLMProvider, TagFallback } from './llm-providers.js'
+import { TAG_CASES, TAG_STRATEGIES } from './tag-normalization.js'
+import type { TagCase, TagNormalizationOptions, TagStrategy } from './tag-normalization.js'
+import { CodedError } from './errors.js'
+
+/**
+ * Config file names, in the order they are looked up in each directory
+ */
+export const CONFIG_FILE_NAMES = [
+  'devrel-blog-utils.config.json',
+  'devrel-blog-utils.config.js',
+  'devrel-blog-utils.config.mjs',
+  'devrel-blog-utils.config.ts'
+] as const
+
+const configSchema = z.strictObject({
+  llm: z.strictObject({
+    provider: z.union([
+      z.string(),
+      z.custom<LLMProvider>(isLLMProvider, 'Expected a provider name or an object with a name and a generateTags function')
+    ]),
+    model: z.string(),
+    baseUrl: z.string(),
+    apiKey: z.string(),
+    maxTokens: z.number().int().positive(),
+    temperature: z.number().min(0),
+    cache: z.boolean(),
+    concurrency: z.number().int().positive(),
+    requestsPerMinute: z.number().positive(),
+    tokensPerMinute: z.number().positive(),
+    retries: z.number().int().nonnegative()
+  }).partial().optional(),
+  tags: z.strictObject({
+    count: z.number().int().positive(),
+    prompt: z.string(),
+    source: z.enum(TAG_CONTENT_SOURCES),
+    bodyTokenBudget: z.number().int().positive(),
+    stopwords: z.array(z.string()),
+    terms: z.record(z.string(), z.string()),
+    fallback: z.enum(TAG_FALLBACKS),
+    vocabulary: z.string(),
+    allowNewTags: z.boolean(),
+    strategy: z.enum(TAG_STRATEGIES),
+    case: z.enum(TAG_CASES),
+    synonyms: z.record(z.string(), z.string()),
+    min: z.number().int().nonnegative(),
+    max: z.number().int().positive()
+  }).partial().optional(),
+  site: z.strictObject({
+    url: z.url(),
+    title: z.string(),
+    description: z.string(),
+    language: z.string(),
+    author: z.string(),
+    permalink: z.string()
+  }).partial().optional(),
+  content: z.union([z.string(), z.array(z.string())]).optional(),
+  frontmatterFormat: z.enum(['auto', ...FRONTMATTER_FORMATS]).optional(),
+  commands: z.record(z.string(), z.record(z.string(), z.unknown())).optional()
+})
+
+export type ProjectConfig = z.infer<typeof configSchema>
+
+export interface LoadedProjectConfig {
+  filePath: string | null
+  config: ProjectConfig
+}
+
+/**
+ * Settings resolved from CLI flags, the config file, environment variables and defaults
+ */
+export interface ProjectSettings {
+  /** Built-in provider name, or a provider object from a JavaScript config file */
+  provider: string | LLMProvider
+  model: string
+  baseUrl: string
+  apiKey: string | undefined
+  maxTokens: number
+  temperature: number
+  /** Reuse earlier responses for unchanged posts */
+  cache: boolean
+  /** Files processed at the same time */
+  concurrency: number
+  requestsPerMinute: number | undefined
+  tokensPerMinute: number | undefined
+  /** Retries of rate-limited and other transient failures */
+  retries: number
+  tagCount: number
+  prompt: string | undefined
+  contentSource: TagContentSource
+  bodyTokenBudget: number
+  stopwords: string[]
+  terms: Record<string, string>
+  fallback: TagFallback
+  /** `content` to use the tags of the content files, or the path of an allowlist file */
+  vocabulary: string | undefined
+  allowNewTags: boolean
+  strategy: TagStrategy
+  tagCase: TagCase
+  synonyms: Record<string, string>
+  minTags: number | undefined
+  maxTags: number | undefined
+  /** Absolute URL of the site, which feed and sitemap URLs are built on */
+  siteUrl: string | undefined
+  siteTitle: string | undefined
+  siteDescription: string | undefined
+  siteLanguage: string | undefined
+  siteAuthor: string | undefined
+  sitePermalink: string | undefined
+  content: string[]
+  frontmatterFormat: FrontmatterFormat | 'auto'
+}
+
+export type SettingSource = 'cli' | 'config' | 'env' | 'default'
+
+export interface ResolvedSetting<T> {
+  value: T
+  source: SettingSource
+  /** The environment variable or config key the value came from */
+  origin?: string
+}
+
+export type ResolvedSettings = { [K in keyof ProjectSettings]: ResolvedSetting<ProjectSettings[K]> }
+
+interface SettingDefinition<K extends keyof ProjectSettings> {
+  configKey: string
+  /** Environment variable, or a function that picks it for the resolved provider */
+  env?: string | ((provider: ProjectSettings['provider']) => string | undefined)
+  fromEnv?: (value: string) => ProjectSettings[K]
+  fromConfig: (config: ProjectConfig) => ProjectSettings[K] | undefined
+  /** Default value, or a function that picks it for the resolved provider */
+  defaultValue: ProjectSettings[K] | ((provider: ProjectSettings['provider']) => ProjectSettings[K])
+}
+
+const SETTING_DEFINITIONS: { [K in keyof ProjectSettings]: SettingDefinition<K> } = {
+  provider: {
+    configKey: 'llm.provider',
+    fromConfig: config => config.llm?.provider,
+    defaultValue: 'openai-compatible'
+  },
+  model: {
+    configKey: 'llm.model',
+    env: 'MODEL_NAME',
+    fromEnv: value => value,
+    fromConfig: config => config.llm?.model,
+    defaultValue: provider => getProviderDefaults(provider).model
+  },
+  baseUrl: {
+    configKey: 'llm.baseUrl',
+    env: 'BASE_URL',
+    fromEnv: value => value,
+    fromConfig: config => config.llm?.baseUrl,
+    defaultValue: provider => getProviderDefaults(provider).baseUrl
+  },
+  apiKey: {
+    configKey: 'llm.apiKey',
+    env: provider => getProviderDefaults(provider).apiKeyEnv,
+    fromEnv: value => value,
+    fromConfig: config => config.llm?.apiKey,
+    defaultValue: undefined
+  },
+  maxTokens: {
+    configKey: 'llm.maxTokens',
+    env: 'MAX_TOKENS',
+    fromEnv: value => parseEnvNumber('MAX_TOKENS', value, 'positive integer'),
+    fromConfig: config => config.llm?.maxTokens,
+    defaultValue: 150
+  },
+  temperature: {
+    configKey: 'llm.temperature',
+    env: 'TEMPERATURE',
+    fromEnv: value => parseEnvNumber('TEMPERATURE', value, 'non-negative number'),
+    fromConfig: config => config.llm?.temperature,
+    defaultValue: 0.7
+  },
+  cache: {
+    configKey: 'llm.cache',
+    fromConfig: config => config.llm?.cache,
+    defaultValue: true
+  },
+  concurrency: {
+    configKey: 'llm.concurrency',
+    fromConfig: config => config.llm?.concurrency,
+    defaultValue: 1
+  },
+  requestsPerMinute: {
+    configKey: 'llm.requestsPerMinute',
+    fromConfig: config => config.llm?.requestsPerMinute,
+    defaultValue: undefined
+  },
+  tokensPerMinute: {
+    configKey: 'llm.tokensPerMinute',
+    fromConfig: config => config.llm?.tokensPerMinute,
+    defaultValue: undefined
+  },
+  retries: {
+    configKey: 'llm.retries',
+    fromConfig: config => config.llm?.retries,
+    defaultValue: 3
+  },
+  tagCount: {
+    configKey: 'tags.count',
+    fromConfig: config => config.tags?.count,
+    defaultValue: 3
+  },
+  prompt: {
+    configKey: 'tags.prompt',
+    fromConfig: config => config.tags?.prompt,
+    defaultValue: undefined
+  },
+  contentSource: {
+    configKey: 'tags.source',
+    fromConfig: config => config.tags?.source,
+    defaultValue: 'both'
+  },
+  bodyTokenBudget: {
+    configKey: 'tags.bodyTokenBudget',
+    fromConfig: config => config.tags?.bodyTokenBudget,
+    defaultValue: 1000
+  },
+  stopwords: {
+    configKey: 'tags.stopwords',
+    fromConfig: config => config.tags?.stopwords,
+    defaultValue: []
+  },
+  terms: {
+    configKey: 'tags.terms',
+    fromConfig: config => config.tags?.terms,
+    defaultValue: {}
+  },
+  fallback: {
+    configKey: 'tags.fallback',
+    fromConfig: config => config.tags?.fallback,
+    defaultValue: 'none'
+  },
+  vocabulary: {
+    configKey: 'tags.vocabulary',
+    fromConfig: config => config.tags?.vocabulary,
+    defaultValue: undefined
+  },
+  allowNewTags: {
+    configKey: 'tags.allowNewTags',
+    fromConfig: config => config.tags?.allowNewTags,
+    defaultValue: false
+  },
+  strategy: {
+    configKey: 'tags.strategy',
+    fromConfig: config => config.tags?.strategy,
+    defaultValue: 'replace'
+  },
+  tagCase: {
+    configKey: 'tags.case',
+    fromConfig: config => config.tags?.case,
+    defaultValue: 'preserve'
+  },
+  synonyms: {
+    configKey: 'tags.synonyms',
+    fromConfig: config => config.tags?.synonyms,
+    defaultValue: {}
+  },
+  minTags: {
+    configKey: 'tags.min',
+    fromConfig: config => config.tags?.min,
+    defaultValue: undefined
+  },
+  maxTags: {
+    configKey: 'tags.max',
+    fromConfig: config => config.tags?.max,
+    defaultValue: undefined
+  },
+  siteUrl: {
+    configKey: 'site.url',
+    env: 'SITE_URL',
+    fromEnv: value => value,
+    fromConfig: config => config.site?.url,
+    defaultValue: undefined
+  },
+  siteTitle: {
+    configKey: 'site.title',
+    fromConfig: config => config.site?.title,
+    defaultValue: undefined
+  },
+  siteDescription: {
+    configKey: 'site.description',
+    fromConfig: config => config.site?.description,
+    defaultValue: undefined
+  },
+  siteLanguage: {
+    configKey: 'site.language',
+    fromConfig: config => config.site?.language,
+    defaultValue: undefined
+  },
+  siteAuthor: {
+    configKey: 'site.author',
+    fromConfig: config => config.site?.author,
+    defaultValue: undefined
+  },
+  sitePermalink: {
+    configKey: 'site.permalink',
+    fromConfig: config => config.site?.permalink,
+    defaultValue: undefined
+  },
+  content: {
+    configKey: 'content',
+    fromConfig: config => typeof config.content === 'string' ? [config.content] : config.content,
+    defaultValue: []
+  },
+  frontmatterFormat: {
+    configKey: 'frontmatterFormat',
+    fromConfig: config => config.frontmatterFormat,
+    defaultValue: 'auto'
+  }
+}
+
+/**
+ * Find the nearest config file by walking up from `cwd`
+ */
+export async function findConfigFile (cwd: string = process.cwd()): Promise<string | null> {
+  let directory = path.resolve(cwd)
+
+  while (true) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(directory, fileName)
+      try {
+        const stat = await fs.stat(candidate)
+        if (stat.isFile()) {
+          return candidate
+        }
+      } catch {
+        // Not in this directory
+      }
+    }
+
+    const parent = path.dirname(directory)
+    if (parent === directory) {
+      return null
+    }
+    directory = parent
+  }
+}
+
+/**
+ * Load and validate a config file. JavaScript and TypeScript config files
+ * provide the config as their default export.
+ */
+export async function loadConfigFile (filePath: string): Promise<ProjectConfig> {
+  const resolvedPath = path.resolve(filePath)
+
+  try {
+    let data: unknown
+    if (path.extname(resolvedPath) === '.json') {
+      data = JSON.parse(await fs.readFile(resolvedPath, 'utf-8'))
+    } else {
+      const module = await import(pathToFileURL(resolvedPath).href)
+      data = module.default ?? module.config
+    }
+
+    const result = configSchema.safeParse(data)
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      throw new Error(`Invalid config: ${issues.join('; ')}`)
+    }
+
+    return result.data
+  } catch (error) {
+    throw new Error(`Failed to load config from ${resolvedPath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  }
+}
+
+/**
+ * Load the project config from an explicit path, or discover it from `cwd`.
+ * Returns an empty config when no config file exists.
+ */
+export async function loadProjectConfig (options: { cwd?: string, configPath?: string } = {}): Promise<LoadedProjectConfig> {
+  const filePath = options.configPath
+    ? path.resolve(options.configPath)
+    : await findConfigFile(options.cwd)
+
+  if (!filePath) {
+    return { filePath: null, config: {} }
+  }
+
+  return { filePath, config: await loadConfigFile(filePath) }
+}
+
+/**
+ * Resolve every setting with its source. CLI flags override the config file,
+ * which overrides environment variables, which override defaults. The provider
+ * is resolved first, as it picks the default model, base URL and API key variable.
+ */
+export function resolveSettings (layers: {
+  cli?: Partial<ProjectSettings>
+  config?: ProjectConfig
+  env?: Record<string, string | undefined>
+}): ResolvedSettings {
+  const resolved: Partial<Record<keyof ProjectSettings, ResolvedSetting<unknown>>> = {}
+  const provider = resolveSetting(SETTING_DEFINITIONS.provider, 'provider', layers, 'openai-compatible').value
+
+  for (const key of Object.keys(SETTING_DEFINITIONS) as Array<keyof ProjectSettings>) {
+    resolved[key] = resolveSetting(SETTING_DEFINITIONS[key] as SettingDefinition<typeof key>, key, layers, provider)
+  }
+
+  return resolved as ResolvedSettings
+}
+
+/**
+ * Strip the sources from resolved settings
+ */
+export function getSettingValues (settings: ResolvedSettings): ProjectSettings {
+  return Object.fromEntries(
+    Object.entries(settings).map(([key, setting]) => [key, setting.value])
+  ) as unknown as ProjectSettings
+}
+
+/**
+ * Get the tag normalization rules from resolved settings
+ */
+export function getTagNormalization (settings: Pick<ProjectSettings, 'tagCase' | 'synonyms' | 'minTags' | 'maxTags'>): TagNormalizationOptions {
+  return {
+    case: settings.tagCase,
+    synonyms: settings.synonyms,
+    minCount: settings.minTags,
+    maxCount: settings.maxTags
+  }
+}
+
+/**
+ * Get the config key a setting is read from, such as `llm.model`
+ */
+export function getSettingConfigKey (key: keyof ProjectSettings): string {
+  return SETTING_DEFINITIONS[key].configKey
+}
+
+/**
+ * Get the default options the config file defines for a command
+ */
+export function getCommandDefaults (config: ProjectConfig, command: string): Record<string, unknown> {
+  return config.commands?.[command] ?? {}
+}
+
+/**
+ * Read a number from an environment variable, checked like the CLI option and
+ * config key it stands for
+ */
+function parseEnvNumber (name: string, value: string, expected: 'positive integer' | 'non-negative number'): number {
+  const parsed = Number(value)
+  const valid = expected === 'positive integer' ? Number.isInteger(parsed) && parsed >= 1 : parsed >= 0
+
+  if (value.trim() === '' || !valid) {
+    throw new CodedError('USAGE_ERROR', `${name} environment variable must be a ${expected}, got '${value}'`)
+  }
+
+  return parsed
+}
+
+function resolveSetting<K extends keyof ProjectSettings> (
+  definition: SettingDefinition<K>,
+  key: K,
+  layers: { cli?: Partial<ProjectSettings>, config?: ProjectConfig, env?: Record<string, string | undefined> },
+  provider: ProjectSettings['provider']
+): ResolvedSetting<ProjectSettings[K]> {
+  const cliValue = layers.cli?.[key]
+  if (cliValue !== undefined) {
+    return { value: cliValue as ProjectSettings[K], source: 'cli' }
+  }
+
+  const configValue = layers.config ? definition.fromConfig(layers.config) : undefined
+  if (configValue !== undefined) {
+    return { value: configValue, source: 'config', origin: definition.configKey }
+  }
+
+  const env = typeof definition.env === 'function' ? definition.env(provider) : definition.env
+  const envValue = env ? layers.env?.[env] : undefined
+  if (env && definition.fromEnv && envValue) {
+    return { value: definition.fromEnv(envValue), source: 'env', origin: env }
+  }
+
+  const defaultValue = typeof definition.defaultValue === 'function'
+    ? (definition.defaultValue as (provider: ProjectSettings['provider']) => ProjectSettings[K])(provider)
+    : definition.defaultValue
+  return { value: defaultValue, source: 'default' }
+}
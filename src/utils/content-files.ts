@@ -0,0 +1,145 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { convertPathToPattern, globby, isDynamicPattern } from 'globby'
+import type { ErrorCode } from './errors.js'
+import { CONTENT_FILE_EXTENSIONS } from './markdown-content.js'
+
+export interface ContentFilesOptions {
+  cwd?: string
+  /** Skip files ignored by .gitignore files (default: true) */
+  gitignore?: boolean
+}
+
+/**
+ * What a build over content files did with one file, with the reason for
+ * skipped and failed files
+ */
+export interface ContentFileStatus<Status extends string> {
+  filePath: string
+  status: Status
+  reason?: string
+  /** The kind of failure of a failed file */
+  code?: ErrorCode
+}
+
+/**
+ * Resolve file paths and glob patterns into the list of files they match.
+ *
+ * Patterns support `**`, brace sets like `*.{md,mdx}` and `!` negation.
+ * Directories match the content files inside them. Plain file paths are kept
+ * as given, even when they do not exist or are gitignored, so that reading
+ * them reports a meaningful error, unless a negation excludes them.
+ */
+export async function resolveContentFiles (patterns: string | string[], options: ContentFilesOptions = {}): Promise<string[]> {
+  const cwd = path.resolve(options.cwd ?? process.cwd())
+  const patternList = Array.isArray(patterns) ? patterns : [patterns]
+
+  const negations = patternList.filter(pattern => pattern.startsWith('!')).map(pattern => path.resolve(cwd, pattern.slice(1)))
+  const positives = await Promise.all(patternList.filter(pattern => !pattern.startsWith('!')).map(pattern => expandDirectory(cwd, pattern)))
+  const globPatterns = positives.filter(pattern => isGlobPattern(pattern))
+
+  const matchedFiles: string[] = []
+  for (const pattern of globPatterns) {
+    const { base, glob } = getGlobBase(cwd, pattern)
+    const files = await globby([glob, ...negations.map(negation => `!${toGlobPattern(path.relative(base, negation))}`)], {
+      cwd: base,
+      absolute: true,
+      onlyFiles: true,
+      gitignore: options.gitignore ?? true,
+      ignore: ['**/node_modules/**']
+    })
+    matchedFiles.push(...files)
+  }
+
+  const files = new Set<string>()
+
+  // Keep plain paths where they were given, with all glob matches in place of the first pattern
+  for (const pattern of positives) {
+    if (!isGlobPattern(pattern)) {
+      const filePath = path.resolve(cwd, pattern)
+      if (!await isNegated(filePath, negations)) {
+        files.add(filePath)
+      }
+    } else if (pattern === globPatterns[0]) {
+      for (const file of matchedFiles.sort()) {
+        files.add(path.resolve(file))
+      }
+    }
+  }
+
+  return [...files]
+}
+
+/**
+ * Check whether a path contains glob syntax
+ */
+export function isGlobPattern (pattern: string): boolean {
+  return pattern.startsWith('!') || isDynamicPattern(toGlobPattern(pattern))
+}
+
+/**
+ * Turn a path to a directory into a glob of the content files inside it
+ */
+async function expandDirectory (cwd: string, pattern: string): Promise<string> {
+  if (isGlobPattern(pattern)) {
+    return pattern
+  }
+
+  const stats = await fs.stat(path.resolve(cwd, pattern)).catch(() => null)
+  if (!stats?.isDirectory()) {
+    return pattern
+  }
+
+  const extensions = Object.values(CONTENT_FILE_EXTENSIONS).flat().map(extension => extension.slice(1))
+  return `${convertPathToPattern(pattern).replace(/\/+$/, '')}/**/*.{${extensions.join(',')}}`
+}
+
+/**
+ * Check whether a negation excludes a plain file path. Files that do not exist are
+ * never excluded, so that reading them still reports a meaningful error.
+ */
+async function isNegated (filePath: string, negations: string[]): Promise<boolean> {
+  if (negations.length === 0) {
+    return false
+  }
+
+  const root = path.parse(filePath).root
+  const [matches, stats] = await Promise.all([
+    globby([convertPathToPattern(path.relative(root, filePath)), ...negations.map(negation => `!${toGlobPattern(path.relative(root, negation))}`)], {
+      cwd: root,
+      dot: true,
+      gitignore: false
+    }),
+    fs.stat(filePath).catch(() => null)
+  ])
+
+  return matches.length === 0 && stats !== null
+}
+
+/**
+ * Get the directory to glob from and the pattern relative to it. Patterns outside of
+ * `cwd` are globbed from their static part, as .gitignore files are only read inside
+ * the directory globbing starts from.
+ */
+function getGlobBase (cwd: string, pattern: string): { base: string, glob: string } {
+  const absolutePattern = path.resolve(cwd, pattern)
+  const relativePattern = path.relative(cwd, absolutePattern)
+  if (!relativePattern.startsWith('..') && !path.isAbsolute(relativePattern)) {
+    return { base: cwd, glob: toGlobPattern(relativePattern) }
+  }
+
+  const segments = absolutePattern.split(path.sep)
+  const firstGlobSegment = segments.findIndex(segment => segment !== '' && isDynamicPattern(segment))
+
+  return {
+    base: segments.slice(0, firstGlobSegment).join(path.sep) || path.sep,
+    glob: segments.slice(firstGlobSegment).join('/')
+  }
+}
+
+/**
+ * Glob patterns always use forward slashes, even on Windows
+ */
+function toGlobPattern (pattern: string): string {
+  return pattern.split(path.sep).join('/')
+}
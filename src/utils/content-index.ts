@@ -0,0 +1,373 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { createHash } from 'node:crypto'
+import { isDeepStrictEqual } from 'node:util'
+import { writeFileAtomic } from './atomic-write.js'
+import { filterFields, parseContent } from './frontmatter-content.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { detectContentSyntax } from './markdown-content.js'
+import type { ContentTree } from './markdown-content.js'
+import { resolveContentFiles } from './content-files.js'
+import type { ContentFileStatus, ContentFilesOptions } from './content-files.js'
+import { getNodeText, summarizeContent } from './tag-context.js'
+import type { ContentNode } from './tag-context.js'
+import { getPathValue, resolveFieldPath } from './field-paths.js'
+import { CodedError, getErrorCode } from './errors.js'
+
+/**
+ * Bumped when the shape of index entries changes, so old entries are not reused
+ */
+const CONTENT_INDEX_VERSION = 1
+
+const DEFAULT_WORDS_PER_MINUTE = 200
+
+/**
+ * How an incremental build tells that a file is unchanged: by its modification
+ * time, which skips reading it, or by the hash of its content
+ */
+export type IncrementalMode = 'mtime' | 'hash'
+
+export const INCREMENTAL_MODES: readonly IncrementalMode[] = ['mtime', 'hash']
+
+/**
+ * Entry fields that can be sorted by, any other sort field is read from the frontmatter
+ */
+const ENTRY_SORT_FIELDS = ['path', 'slug', 'wordCount', 'readingTime', 'mtime'] as const
+
+export interface ContentHeading {
+  depth: number
+  text: string
+}
+
+export interface ContentIndexEntry {
+  /** Path relative to the directory the index is built from, with forward slashes */
+  path: string
+  /** The `slug` field, or the file name without its extension. Index files use their directory name. */
+  slug: string
+  draft: boolean
+  /** The selected frontmatter fields, or all of them */
+  frontmatter: Record<string, unknown>
+  /** Words of prose, leaving out code blocks, HTML and MDX expressions */
+  wordCount: number
+  /** Minutes, rounded up */
+  readingTime: number
+  headings: ContentHeading[]
+  /** Modification time in milliseconds */
+  mtime: number
+  /** sha256 of the file content */
+  hash: string
+}
+
+/**
+ * The JSON written by build-index
+ */
+export interface ContentIndexManifest {
+  version: number
+  generatedAt: string
+  /** Fields the entries were built with, `null` for all of them */
+  fields: string[] | null
+  wordsPerMinute: number
+  entries: ContentIndexEntry[]
+}
+
+export interface ContentIndexOptions extends ContentFilesOptions {
+  /** Frontmatter fields kept in each entry, which can be paths such as `author.name` (default: all) */
+  fields?: string[]
+  /** Entry or frontmatter field to sort by, `-` first for descending order, such as `-date` (default: file order) */
+  sort?: string
+  /** Leave out drafts, see `isDraft` (default: false) */
+  excludeDrafts?: boolean
+  /** An earlier index whose entries are reused for unchanged files */
+  previous?: ContentIndexManifest | null
+  /** How unchanged files are detected (default: mtime) */
+  incremental?: IncrementalMode
+  /** Reading speed the reading time is based on (default: 200) */
+  wordsPerMinute?: number
+  format?: FrontmatterFormat | 'auto'
+}
+
+export type IndexFileStatus = ContentFileStatus<'indexed' | 'reused' | 'skipped' | 'failed'>
+
+/**
+ * A manifest of every post, with its slug, frontmatter, word count, reading
+ * time and headings, so tooling does not have to re-scan the content
+ */
+export class ContentIndex {
+  private patterns: string[]
+  private options: ContentIndexOptions
+  private cwd: string
+  private entries: ContentIndexEntry[] = []
+  private statuses: IndexFileStatus[] = []
+
+  constructor (patterns: string | string[], options: ContentIndexOptions = {}) {
+    this.patterns = Array.isArray(patterns) ? patterns : [patterns]
+    this.options = options
+    this.cwd = path.resolve(options.cwd ?? process.cwd())
+
+    // Entries only keep the selected fields, so a sort field left out of them would sort nothing
+    const sortField = options.sort?.replace(/^-/, '')
+    if (options.fields && sortField && !isSortFieldKept(sortField, options.fields)) {
+      throw new CodedError('USAGE_ERROR', `Cannot sort by '${sortField}', it is not one of the fields kept in each entry (${options.fields.join(', ')})`)
+    }
+  }
+
+  /**
+   * Index every matched file. Files that fail are recorded in the file
+   * statuses and left out, the other files are still indexed.
+   */
+  async build (): Promise<ContentIndexManifest> {
+    let filePaths: string[]
+
+    try {
+      filePaths = await resolveContentFiles(this.patterns, { cwd: this.cwd, gitignore: this.options.gitignore })
+    } catch (error) {
+      throw new Error(`Failed to build content index: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+
+    const previous = this.getReusableEntries()
+    const entries: ContentIndexEntry[] = []
+    this.statuses = []
+
+    for (const filePath of filePaths) {
+      try {
+        const { entry, reused } = await this.indexFile(filePath, previous)
+
+        if (entry.draft && this.options.excludeDrafts) {
+          this.statuses.push({ filePath, status: 'skipped', reason: 'draft' })
+          continue
+        }
+
+        entries.push(entry)
+        this.statuses.push({ filePath, status: reused ? 'reused' : 'indexed' })
+      } catch (error) {
+        this.statuses.push({ filePath, status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error', code: getErrorCode(error) })
+      }
+    }
+
+    this.entries = sortEntries(entries, this.options.sort)
+    return this.toManifest()
+  }
+
+  /**
+   * Get the entries of the last build
+   */
+  getEntries (): ContentIndexEntry[] {
+    return this.entries
+  }
+
+  /**
+   * Get the entry of a post by its slug
+   */
+  getEntry (slug: string): ContentIndexEntry | undefined {
+    return this.entries.find(entry => entry.slug === slug)
+  }
+
+  /**
+   * Get what the last build did with each file
+   */
+  getFileStatuses (): IndexFileStatus[] {
+    return this.statuses
+  }
+
+  /**
+   * Get the entries of the last build with the settings they were built with
+   */
+  toManifest (): ContentIndexManifest {
+    return {
+      version: CONTENT_INDEX_VERSION,
+      generatedAt: new Date().toISOString(),
+      fields: this.options.fields ?? null,
+      wordsPerMinute: this.getWordsPerMinute(),
+      entries: this.entries
+    }
+  }
+
+  /**
+   * Entries of the earlier index keyed by path, when it was built with the same settings
+   */
+  private getReusableEntries (): Map<string, ContentIndexEntry> {
+    const previous = this.options.previous
+    const reusable = previous &&
+      previous.version === CONTENT_INDEX_VERSION &&
+      isDeepStrictEqual(previous.fields, this.options.fields ?? null) &&
+      previous.wordsPerMinute === this.getWordsPerMinute()
+
+    return new Map(reusable ? previous.entries.map(entry => [entry.path, entry]) : [])
+  }
+
+  private async indexFile (filePath: string, previous: Map<string, ContentIndexEntry>): Promise<{ entry: ContentIndexEntry, reused: boolean }> {
+    try {
+      const indexPath = path.relative(this.cwd, filePath).split(path.sep).join('/')
+      const earlier = previous.get(indexPath)
+      const { mtimeMs } = await fs.stat(filePath)
+
+      if (earlier && (this.options.incremental ?? 'mtime') === 'mtime' && earlier.mtime === mtimeMs) {
+        return { entry: earlier, reused: true }
+      }
+
+      const content = await fs.readFile(filePath, 'utf-8')
+      const hash = createHash('sha256').update(content).digest('hex')
+
+      // A file that was touched without changing is reused too
+      if (earlier && earlier.hash === hash) {
+        return { entry: { ...earlier, mtime: mtimeMs }, reused: true }
+      }
+
+      const { frontmatter, tree } = parseContent(content, { format: this.options.format, syntax: detectContentSyntax(filePath) })
+      const data = frontmatter ?? {}
+      const wordCount = countWords(tree)
+
+      return {
+        entry: {
+          path: indexPath,
+          slug: getPostSlug(filePath, data),
+          draft: isDraft(data),
+          frontmatter: this.options.fields ? filterFields(data, this.options.fields) : data,
+          wordCount,
+          readingTime: Math.ceil(wordCount / this.getWordsPerMinute()),
+          headings: getHeadings(tree),
+          mtime: mtimeMs,
+          hash
+        },
+        reused: false
+      }
+    } catch (error) {
+      throw new Error(`Failed to index ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+  }
+
+  private getWordsPerMinute (): number {
+    return this.options.wordsPerMinute ?? DEFAULT_WORDS_PER_MINUTE
+  }
+}
+
+/**
+ * Load an index written by build-index, or return null when it is missing or
+ * unreadable, in which case it is rebuilt from scratch
+ */
+export async function loadContentIndex (filePath: string): Promise<ContentIndexManifest | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.resolve(filePath), 'utf-8')) as ContentIndexManifest
+    return Array.isArray(manifest?.entries) ? manifest : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write an index as JSON, creating its directory when needed
+ */
+export async function writeContentIndex (filePath: string, manifest: ContentIndexManifest): Promise<void> {
+  const resolvedPath = path.resolve(filePath)
+
+  try {
+    await fs.mkdir(path.dirname(resolvedPath), { recursive: true })
+    await writeFileAtomic(resolvedPath, `${JSON.stringify(manifest, null, 2)}\n`)
+  } catch (error) {
+    throw new Error(`Failed to write content index ${resolvedPath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  }
+}
+
+/**
+ * Get the slug of a post: its `slug` field, or the file name without its
+ * extension. `index` and `_index` files use the name of their directory.
+ */
+export function getPostSlug (filePath: string, frontmatter: Record<string, unknown>): string {
+  if (typeof frontmatter.slug === 'string' && frontmatter.slug.trim()) {
+    return frontmatter.slug.trim()
+  }
+
+  const name = path.basename(filePath, path.extname(filePath))
+  return name === 'index' || name === '_index' ? path.basename(path.dirname(filePath)) : name
+}
+
+/**
+ * Check whether a post is a draft, see `isFlagSet`
+ */
+export function isDraft (frontmatter: Record<string, unknown>): boolean {
+  return isFlagSet(frontmatter.draft)
+}
+
+/**
+ * Check whether a frontmatter flag such as `draft` or `noindex` is set: it is
+ * true, or a string such as `"true"` or `"yes"` written by tools that do not type values
+ */
+export function isFlagSet (value: unknown): boolean {
+  return value === true || (typeof value === 'string' && ['true', 'yes'].includes(value.trim().toLowerCase()))
+}
+
+/**
+ * Parse a date field, such as `2024-03-01` or an ISO timestamp, or return null
+ * when it is missing or not a valid date
+ */
+export function parsePostDate (value: unknown): Date | null {
+  const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null
+  return date && !Number.isNaN(date.getTime()) ? date : null
+}
+
+/**
+ * Count the words of the prose, where a word has at least one letter or digit
+ */
+function countWords (tree: ContentTree): number {
+  return summarizeContent(tree).text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length
+}
+
+function getHeadings (tree: ContentTree): ContentHeading[] {
+  const headings: ContentHeading[] = []
+
+  const visit = (node: ContentNode): void => {
+    if (node.type === 'heading') {
+      headings.push({ depth: node.depth, text: getNodeText(node).replace(/\s+/g, ' ').trim() })
+      return
+    }
+
+    if ('children' in node) {
+      for (const child of node.children) {
+        visit(child as ContentNode)
+      }
+    }
+  }
+
+  visit(tree)
+  return headings
+}
+
+/**
+ * Sort entries by an entry or frontmatter field. Entries without the field come last.
+ */
+function sortEntries (entries: ContentIndexEntry[], sort: string | undefined): ContentIndexEntry[] {
+  if (!sort) {
+    return entries
+  }
+
+  const descending = sort.startsWith('-')
+  const field = descending ? sort.slice(1) : sort
+
+  return [...entries].sort((a, b) => {
+    const first = getSortValue(a, field)
+    const second = getSortValue(b, field)
+
+    if (first === undefined || first === null) {
+      return second === undefined || second === null ? 0 : 1
+    }
+    if (second === undefined || second === null) {
+      return -1
+    }
+
+    const order = typeof first === 'number' && typeof second === 'number'
+      ? first - second
+      : String(first) < String(second) ? -1 : String(first) > String(second) ? 1 : 0
+    return descending ? -order : order
+  })
+}
+
+function isSortFieldKept (field: string, fields: string[]): boolean {
+  return (ENTRY_SORT_FIELDS as readonly string[]).includes(field) ||
+    fields.some(kept => field === kept || field.startsWith(`${kept}.`) || field.startsWith(`${kept}[`))
+}
+
+function getSortValue (entry: ContentIndexEntry, field: string): unknown {
+  return (ENTRY_SORT_FIELDS as readonly string[]).includes(field)
+    ? entry[field as (typeof ENTRY_SORT_FIELDS)[number]]
+    : getPathValue(entry.frontmatter, resolveFieldPath(entry.frontmatter, field))
+}
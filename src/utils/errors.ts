@@ -0,0 +1,47 @@
+/**
+ * The kind of failure an error reports, so callers can tell failures apart without matching messages
+ */
+export type ErrorCode =
+  /** Invalid arguments or options */
+  | 'USAGE_ERROR'
+  /** A file has no frontmatter and creating it was not requested */
+  | 'MISSING_FRONTMATTER'
+  /** Frontmatter that cannot be parsed */
+  | 'PARSE_ERROR'
+  /** The tag provider failed or returned no usable tags */
+  | 'PROVIDER_ERROR'
+  /** Frontmatter that does not match the schema */
+  | 'INVALID_FRONTMATTER'
+  /** A file that cannot be read or written */
+  | 'FILE_ERROR'
+  | 'UNKNOWN_ERROR'
+
+/**
+ * An error that carries its kind. Errors wrapping it keep the code through their `cause`.
+ */
+export class CodedError extends Error {
+  readonly code: ErrorCode
+
+  constructor (code: ErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'CodedError'
+    this.code = code
+  }
+}
+
+/**
+ * Get the kind of an error from the outermost coded error in its cause chain.
+ * System errors of file operations, such as ENOENT, are file errors.
+ */
+export function getErrorCode (error: unknown): ErrorCode {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof CodedError) {
+      return current.code
+    }
+    if (typeof (current as NodeJS.ErrnoException).syscall === 'string') {
+      return 'FILE_ERROR'
+    }
+  }
+
+  return 'UNKNOWN_ERROR'
+}
@@ -0,0 +1,154 @@
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+export const FEED_FORMATS: readonly FeedFormat[] = ['rss', 'atom', 'json']
+
+/**
+ * The site a feed belongs to
+ */
+export interface FeedSite {
+  /** Absolute URL of the site, which relative post URLs are resolved against */
+  url: string
+  title: string
+  description?: string
+  /** Language code, such as `en` or `en-US` */
+  language?: string
+  author?: string
+  /** Absolute URL the feed is published at, linked from the feed itself */
+  feedUrl?: string
+}
+
+export interface FeedItem {
+  /** Absolute URL of the post, also used as its id */
+  url: string
+  title: string
+  date: Date
+  description?: string
+  categories: string[]
+  /** The post body rendered as HTML */
+  contentHtml?: string
+}
+
+/**
+ * Render items as an RSS 2.0, Atom 1.0 or JSON Feed 1.1 document, in the order given
+ */
+export function renderFeed (items: FeedItem[], site: FeedSite, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return renderRssFeed(items, site)
+    case 'atom':
+      return renderAtomFeed(items, site)
+    case 'json':
+      return renderJsonFeed(items, site)
+  }
+}
+
+function renderRssFeed (items: FeedItem[], site: FeedSite): string {
+  const hasContent = items.some(item => item.contentHtml !== undefined)
+  const namespaces = [
+    'version="2.0"',
+    'xmlns:atom="http://www.w3.org/2005/Atom"',
+    ...(hasContent ? ['xmlns:content="http://purl.org/rss/1.0/modules/content/"'] : [])
+  ]
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rss ${namespaces.join(' ')}>`,
+    '  <channel>',
+    `    <title>${escapeXml(site.title)}</title>`,
+    `    <link>${escapeXml(site.url)}</link>`,
+    // A description is required, the title stands in when the site has none
+    `    <description>${escapeXml(site.description ?? site.title)}</description>`,
+    ...(site.language ? [`    <language>${escapeXml(site.language)}</language>`] : []),
+    `    <lastBuildDate>${getFeedDate(items).toUTCString()}</lastBuildDate>`,
+    ...(site.feedUrl ? [`    <atom:link href="${escapeXml(site.feedUrl)}" rel="self" type="application/rss+xml"/>`] : []),
+    ...items.flatMap(item => [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      `      <pubDate>${item.date.toUTCString()}</pubDate>`,
+      ...(item.description ? [`      <description>${escapeXml(item.description)}</description>`] : []),
+      ...item.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+      ...(item.contentHtml !== undefined ? [`      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>`] : []),
+      '    </item>'
+    ]),
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n')
+}
+
+function renderAtomFeed (items: FeedItem[], site: FeedSite): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom"${site.language ? ` xml:lang="${escapeXml(site.language)}"` : ''}>`,
+    `  <title>${escapeXml(site.title)}</title>`,
+    ...(site.description ? [`  <subtitle>${escapeXml(site.description)}</subtitle>`] : []),
+    `  <link href="${escapeXml(site.url)}"/>`,
+    ...(site.feedUrl ? [`  <link href="${escapeXml(site.feedUrl)}" rel="self"/>`] : []),
+    `  <id>${escapeXml(site.feedUrl ?? site.url)}</id>`,
+    `  <updated>${getFeedDate(items).toISOString()}</updated>`,
+    // Every entry needs an author, the feed's author covers them all
+    `  <author><name>${escapeXml(site.author ?? site.title)}</name></author>`,
+    ...items.flatMap(item => [
+      '  <entry>',
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link href="${escapeXml(item.url)}"/>`,
+      `    <id>${escapeXml(item.url)}</id>`,
+      `    <published>${item.date.toISOString()}</published>`,
+      `    <updated>${item.date.toISOString()}</updated>`,
+      ...(item.description ? [`    <summary>${escapeXml(item.description)}</summary>`] : []),
+      ...item.categories.map(category => `    <category term="${escapeXml(category)}"/>`),
+      ...(item.contentHtml !== undefined ? [`    <content type="html">${escapeXml(item.contentHtml)}</content>`] : []),
+      '  </entry>'
+    ]),
+    '</feed>',
+    ''
+  ].join('\n')
+}
+
+function renderJsonFeed (items: FeedItem[], site: FeedSite): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: site.title,
+    home_page_url: site.url,
+    feed_url: site.feedUrl,
+    description: site.description,
+    language: site.language,
+    authors: site.author ? [{ name: site.author }] : undefined,
+    items: items.map(item => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      // Every item needs content, the summary or title stands in without the body
+      ...(item.contentHtml !== undefined
+        ? { content_html: item.contentHtml }
+        : { content_text: item.description ?? item.title }),
+      summary: item.description,
+      date_published: item.date.toISOString(),
+      tags: item.categories.length > 0 ? item.categories : undefined
+    }))
+  }
+
+  return `${JSON.stringify(feed, null, 2)}\n`
+}
+
+/**
+ * The date of the newest item, or now for an empty feed
+ */
+function getFeedDate (items: FeedItem[]): Date {
+  // Reduced rather than spread into Math.max, which has an argument limit
+  return items.length > 0 ? new Date(items.reduce((latest, item) => Math.max(latest, item.date.getTime()), -Infinity)) : new Date()
+}
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+export function escapeXml (value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,199 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomic-write.js'
+import { MarkdownFrontmatterExtractor } from './markdown-frontmatter-extractor.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { renderContentHtml } from './markdown-content.js'
+import { resolveContentFiles } from './content-files.js'
+import type { ContentFileStatus, ContentFilesOptions } from './content-files.js'
+import { getPostSlug, isDraft, parsePostDate } from './content-index.js'
+import { getPathValue, resolveFieldPath } from './field-paths.js'
+import { renderFeed } from './feed-formats.js'
+import type { FeedFormat, FeedItem, FeedSite } from './feed-formats.js'
+import { withTrailingSlash } from './site-urls.js'
+import { getErrorCode } from './errors.js'
+
+/**
+ * The frontmatter field each feed item property is read from
+ */
+export interface FeedFieldMap {
+  title: string
+  date: string
+  description: string
+  /** A list of tags, or a single tag, which become the item's categories */
+  tags: string
+  /** Absolute or site-relative URL of the post */
+  url: string
+}
+
+export const DEFAULT_FEED_FIELDS: FeedFieldMap = {
+  title: 'title',
+  date: 'date',
+  description: 'description',
+  tags: 'tags',
+  url: 'canonical_url'
+}
+
+export interface FeedGeneratorOptions extends ContentFilesOptions {
+  site: FeedSite
+  /** Frontmatter fields to read item properties from, which can be paths such as `seo.description` */
+  fields?: Partial<FeedFieldMap>
+  /** Most items in the feed, newest first (default: no limit) */
+  limit?: number
+  /** Leave out drafts, see `isDraft` (default: false) */
+  excludeDrafts?: boolean
+  /** Leave out posts dated after `now` (default: false) */
+  excludeFuture?: boolean
+  /** The time future posts are compared to (default: the current time) */
+  now?: Date
+  /** Include the post body rendered as HTML (default: false) */
+  fullContent?: boolean
+  format?: FrontmatterFormat | 'auto'
+}
+
+export type FeedFileStatus = ContentFileStatus<'included' | 'skipped' | 'failed'>
+
+/**
+ * Collects posts into feed items from their frontmatter and renders them as
+ * RSS 2.0, Atom 1.0 or JSON Feed 1.1
+ */
+export class FeedGenerator {
+  private patterns: string[]
+  private options: FeedGeneratorOptions
+  private fields: FeedFieldMap
+  private items: FeedItem[] = []
+  private statuses: FeedFileStatus[] = []
+
+  constructor (patterns: string | string[], options: FeedGeneratorOptions) {
+    this.patterns = Array.isArray(patterns) ? patterns : [patterns]
+    this.options = options
+    this.fields = { ...DEFAULT_FEED_FIELDS, ...options.fields }
+  }
+
+  /**
+   * Collect the items of every matched post, newest first. Posts that are
+   * left out or fail are recorded in the file statuses.
+   */
+  async build (): Promise<FeedItem[]> {
+    let filePaths: string[]
+
+    try {
+      filePaths = await resolveContentFiles(this.patterns, { cwd: this.options.cwd, gitignore: this.options.gitignore })
+    } catch (error) {
+      throw new Error(`Failed to build feed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+
+    const candidates: Array<{ status: FeedFileStatus, item: FeedItem }> = []
+    this.statuses = []
+
+    for (const filePath of filePaths) {
+      try {
+        const result = await this.readItem(filePath)
+        if (typeof result === 'string') {
+          this.statuses.push({ filePath, status: 'skipped', reason: result })
+          continue
+        }
+
+        const status: FeedFileStatus = { filePath, status: 'included' }
+        this.statuses.push(status)
+        candidates.push({ status, item: result })
+      } catch (error) {
+        this.statuses.push({ filePath, status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error', code: getErrorCode(error) })
+      }
+    }
+
+    const sorted = candidates.sort((a, b) => b.item.date.getTime() - a.item.date.getTime())
+    const limit = this.options.limit ?? sorted.length
+
+    for (const { status } of sorted.slice(limit)) {
+      status.status = 'skipped'
+      status.reason = 'over the item limit'
+    }
+
+    this.items = sorted.slice(0, limit).map(({ item }) => item)
+    return this.items
+  }
+
+  /**
+   * Render the items of the last build. A feed URL, where this feed is
+   * published, takes the place of the site's `feedUrl`.
+   */
+  render (format: FeedFormat, feedUrl?: string): string {
+    return renderFeed(this.items, { ...this.options.site, feedUrl: feedUrl ?? this.options.site.feedUrl }, format)
+  }
+
+  /**
+   * Render the items of the last build to a file, creating its directory when needed
+   */
+  async write (filePath: string, format: FeedFormat, feedUrl?: string): Promise<void> {
+    const resolvedPath = path.resolve(filePath)
+
+    try {
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true })
+      await writeFileAtomic(resolvedPath, this.render(format, feedUrl))
+    } catch (error) {
+      throw new Error(`Failed to write feed ${resolvedPath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+  }
+
+  /**
+   * Get the items of the last build, newest first
+   */
+  getItems (): FeedItem[] {
+    return this.items
+  }
+
+  /**
+   * Get what the last build did with each file
+   */
+  getFileStatuses (): FeedFileStatus[] {
+    return this.statuses
+  }
+
+  /**
+   * Read the feed item of a post, or the reason it is left out
+   */
+  private async readItem (filePath: string): Promise<FeedItem | string> {
+    const extractor = new MarkdownFrontmatterExtractor(filePath, { format: this.options.format })
+    // The body is only parsed when it is rendered, so a body that does not parse only fails full-content feeds
+    const content = this.options.fullContent ? await extractor.extractContent() : null
+    const data = (content ? content.frontmatter : await extractor.extract()) ?? {}
+
+    if (this.options.excludeDrafts && isDraft(data)) {
+      return 'draft'
+    }
+
+    const title = this.getField(data, 'title')
+    if (typeof title !== 'string' || !title.trim()) {
+      return `no ${this.fields.title} field`
+    }
+
+    const date = parsePostDate(this.getField(data, 'date'))
+    if (!date) {
+      return `no valid ${this.fields.date} field`
+    }
+
+    if (this.options.excludeFuture && date > (this.options.now ?? new Date())) {
+      return 'dated in the future'
+    }
+
+    const url = this.getField(data, 'url')
+    const description = this.getField(data, 'description')
+    const tags = this.getField(data, 'tags')
+
+    return {
+      // Posts without a URL field are linked by their slug
+      url: new URL(typeof url === 'string' && url.trim() ? url.trim() : `${getPostSlug(filePath, data)}/`, withTrailingSlash(this.options.site.url)).href,
+      title: title.trim(),
+      date,
+      description: typeof description === 'string' && description.trim() ? description.trim() : undefined,
+      categories: (Array.isArray(tags) ? tags : [tags]).filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== ''),
+      contentHtml: content ? renderContentHtml(content.body, content.syntax) : undefined
+    }
+  }
+
+  private getField (data: Record<string, unknown>, property: keyof FeedFieldMap): unknown {
+    const field = this.fields[property]
+    return getPathValue(data, resolveFieldPath(data, field))
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * A path to a value inside frontmatter: keys of mappings and indexes of lists
+ */
+export type FieldPath = Array<string | number>
+
+/**
+ * Parse a field path with dots between keys and brackets around list
+ * indexes, such as `author.name` or `images[0].alt`. Keys that contain dots
+ * or brackets can be quoted: `links["og.image"]`.
+ */
+export function parseFieldPath (field: string): FieldPath {
+  const path: FieldPath = []
+  let index = 0
+
+  while (index < field.length) {
+    if (field[index] === '[') {
+      const quote = field[index + 1]
+      if (quote === '"' || quote === "'") {
+        const end = field.indexOf(`${quote}]`, index + 2)
+        if (end === -1) {
+          invalidFieldPath(field, 'unterminated quoted key')
+        }
+        path.push(field.slice(index + 2, end))
+        index = end + 2
+      } else {
+        const end = field.indexOf(']', index)
+        const value = field.slice(index + 1, end)
+        if (end === -1 || !/^\d+$/.test(value)) {
+          invalidFieldPath(field, 'expected a list index or a quoted key between brackets')
+        }
+        path.push(Number(value))
+        index = end + 1
+      }
+      continue
+    }
+
+    if (path.length > 0) {
+      if (field[index] !== '.') {
+        invalidFieldPath(field, `unexpected '${field[index]}'`)
+      }
+      index++
+    }
+
+    const key = /^[^.[\]]+/.exec(field.slice(index))?.[0]
+    if (!key) {
+      invalidFieldPath(field, 'empty key')
+    }
+    path.push(key)
+    index += key.length
+  }
+
+  if (path.length === 0) {
+    invalidFieldPath(field, 'empty key')
+  }
+
+  return path
+}
+
+/**
+ * Get the path a field refers to in the data. A top-level key with exactly the
+ * field's name is used as is, so existing keys such as `og.image` keep working.
+ */
+export function resolveFieldPath (data: Record<string, unknown> | null, field: string): FieldPath {
+  return data && Object.hasOwn(data, field) ? [field] : parseFieldPath(field)
+}
+
+/**
+ * Format a path the way `parseFieldPath` reads it
+ */
+export function formatFieldPath (path: FieldPath): string {
+  return path.map((segment, index) => {
+    if (typeof segment === 'number') {
+      return `[${segment}]`
+    }
+    if (!/^[^.[\]"']+$/.test(segment)) {
+      return `["${segment}"]`
+    }
+    return index === 0 ? segment : `.${segment}`
+  }).join('')
+}
+
+/**
+ * Get the value at a path, or undefined when any part of the path is missing
+ */
+export function getPathValue (data: unknown, path: FieldPath): unknown {
+  let current = data
+
+  for (const segment of path) {
+    if (!isContainer(current) || !Object.hasOwn(current, segment)) {
+      return undefined
+    }
+    current = (current as Record<string | number, unknown>)[segment]
+  }
+
+  return current
+}
+
+/**
+ * Set the value at a path in place. Missing mappings and lists on the way are created.
+ */
+export function setPathValue (data: Record<string, unknown>, path: FieldPath, value: unknown): void {
+  let current: Record<string | number, unknown> = data
+
+  for (let index = 0; index < path.length - 1; index++) {
+    const segment = path[index]!
+    let next = current[segment]
+
+    if (next === undefined || next === null) {
+      next = typeof path[index + 1] === 'number' ? [] : {}
+      current[segment] = next
+    } else if (!isContainer(next)) {
+      throw new Error(`Cannot set ${formatFieldPath(path)}, ${formatFieldPath(path.slice(0, index + 1))} is not a mapping or list`)
+    }
+
+    current = next as Record<string | number, unknown>
+  }
+
+  current[path[path.length - 1]!] = value
+}
+
+/**
+ * Delete the value at a path in place. Items removed from lists close the gap.
+ */
+export function deletePathValue (data: Record<string, unknown>, path: FieldPath): void {
+  const parent = path.length === 1 ? data : getPathValue(data, path.slice(0, -1))
+  const key = path[path.length - 1]!
+
+  if (Array.isArray(parent) && typeof key === 'number') {
+    parent.splice(key, 1)
+  } else if (isContainer(parent)) {
+    delete (parent as Record<string | number, unknown>)[key]
+  }
+}
+
+function invalidFieldPath (field: string, reason: string): never {
+  throw new Error(`Invalid field path '${field}': ${reason}`)
+}
+
+function isContainer (value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !(value instanceof Date)
+}
@@ -0,0 +1,121 @@
+import { isCollection, parseDocument } from 'yaml'
+
+/**
+ * Type hints that can follow a field name, as in `count:int=3`
+ */
+export type FieldValueType = 'str' | 'int' | 'float' | 'bool' | 'date' | 'null'
+
+export const FIELD_VALUE_TYPES: readonly FieldValueType[] = ['str', 'int', 'float', 'bool', 'date', 'null']
+
+export interface FieldAssignment {
+  field: string
+  value: unknown
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}[\d:.]*(?:Z|[+-]\d\d:?\d\d|)$/
+
+/**
+ * Parse a `field=value` argument. The field ends at the first `=`, so values
+ * can contain `=`. Quoted keys such as `seo["a=b"]` can contain it too.
+ * A type hint after the field, as in `count:int=3`, sets the value's type.
+ */
+export function parseFieldAssignment (arg: string): FieldAssignment {
+  const separator = findSeparator(arg)
+  if (separator <= 0) {
+    throw new Error(`Expected field=value, got '${arg}'`)
+  }
+
+  const target = arg.slice(0, separator)
+  const raw = arg.slice(separator + 1)
+  const hint = /^(.+):([a-z]+)$/.exec(target)
+
+  if (hint && FIELD_VALUE_TYPES.includes(hint[2] as FieldValueType)) {
+    return { field: hint[1]!, value: parseFieldValue(raw, hint[2] as FieldValueType, hint[1]) }
+  }
+
+  return { field: target, value: parseFieldValue(raw, undefined, target) }
+}
+
+/**
+ * Parse a value given on the command line. Without a type, a value that is a
+ * whole YAML scalar or flow collection is read as YAML, so `false`, `3`,
+ * `null`, `[a, b]` and `{k: v}` keep their types and quotes are removed.
+ * Anything else, like `Hello: world`, is kept as the string it is.
+ */
+export function parseFieldValue (raw: string, type?: FieldValueType, field = 'value'): unknown {
+  switch (type) {
+    case 'str':
+      return raw
+    case 'int':
+      if (!/^[-+]?\d+$/.test(raw.trim())) {
+        invalidValue(field, type, raw, 'an integer')
+      }
+      return Number(raw)
+    case 'float':
+      if (raw.trim() === '' || !Number.isFinite(Number(raw))) {
+        invalidValue(field, type, raw, 'a number')
+      }
+      return Number(raw)
+    case 'bool':
+      if (!/^(true|false)$/i.test(raw.trim())) {
+        invalidValue(field, type, raw, 'true or false')
+      }
+      return raw.trim().toLowerCase() === 'true'
+    case 'date':
+      if (!(DATE_PATTERN.test(raw.trim()) || DATE_TIME_PATTERN.test(raw.trim())) || Number.isNaN(Date.parse(raw.trim()))) {
+        invalidValue(field, type, raw, 'an ISO 8601 date')
+      }
+      // Dates are kept in their written form, like dates read from frontmatter
+      return raw.trim()
+    case 'null':
+      if (raw !== '' && raw !== 'null') {
+        invalidValue(field, type, raw, 'empty or null')
+      }
+      return null
+  }
+
+  if (raw === '') {
+    return ''
+  }
+
+  const doc = parseDocument(raw)
+  const node = doc.contents
+  const coversValue = node?.range?.[0] === 0 && node.range[1] === raw.length
+
+  if (doc.errors.length > 0 || !coversValue || (isCollection(node) && !node.flow)) {
+    return raw
+  }
+
+  return doc.toJS()
+}
+
+/**
+ * Index of the first `=` that is not inside a quoted key between brackets
+ */
+function findSeparator (arg: string): number {
+  let quote: string | null = null
+  let inBrackets = false
+
+  for (let index = 0; index < arg.length; index++) {
+    const char = arg[index]
+    if (quote) {
+      if (char === quote) {
+        quote = null
+      }
+    } else if (inBrackets && (char === '"' || char === "'")) {
+      quote = char
+    } else if (char === '[' || char === ']') {
+      inBrackets = char === '['
+    } else if (char === '=') {
+      return index
+    }
+  }
+
+  return -1
+}
+
+function invalidValue (field: string, type: FieldValueType, raw: string, expected: string): never {
+  throw new Error(`Invalid value for ${field}:${type}, expected ${expected} but got '${raw}'`)
+}
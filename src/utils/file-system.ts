@@ -0,0 +1,74 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomic-write.js'
+
+/**
+ * The file operations the extractor, updater, validator and tag generator use
+ * to read and write posts. Pass another implementation, such as
+ * `MemoryFileSystem`, to run them without touching the disk.
+ */
+export interface FileSystem {
+  readFile (filePath: string): Promise<string>
+  writeFile (filePath: string, content: string): Promise<void>
+}
+
+/**
+ * The disk, with atomic writes
+ */
+export const nodeFileSystem: FileSystem = {
+  readFile: filePath => fs.readFile(filePath, 'utf-8'),
+  writeFile: writeFileAtomic
+}
+
+/**
+ * A file system held in memory, for tests and runtimes without disk access.
+ * Paths are resolved against the current directory, like the classes resolve them.
+ */
+export class MemoryFileSystem implements FileSystem {
+  private files = new Map<string, string>()
+
+  constructor (files: Record<string, string> = {}) {
+    for (const [filePath, content] of Object.entries(files)) {
+      this.files.set(path.resolve(filePath), content)
+    }
+  }
+
+  async readFile (filePath: string): Promise<string> {
+    const content = this.files.get(path.resolve(filePath))
+
+    if (content === undefined) {
+      throw Object.assign(new Error(`ENOENT: no such file or directory, open '${filePath}'`), { code: 'ENOENT', syscall: 'open' })
+    }
+
+    return content
+  }
+
+  async writeFile (filePath: string, content: string): Promise<void> {
+    this.files.set(path.resolve(filePath), content)
+  }
+
+  /**
+   * Get the content of every file, keyed by resolved path
+   */
+  getFiles (): Record<string, string> {
+    return Object.fromEntries(this.files)
+  }
+}
+
+/**
+ * The path that stands for standard input on the command line
+ */
+export const STDIN_PATH = '-'
+
+/**
+ * Read a whole stream, such as `process.stdin`, as UTF-8 text
+ */
+export async function readStream (stream: AsyncIterable<string | Buffer>): Promise<string> {
+  const chunks: Buffer[] = []
+
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+
+  return Buffer.concat(chunks).toString('utf-8')
+}
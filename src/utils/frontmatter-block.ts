@@ -0,0 +1,225 @@
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+
+const BOM = '\uFEFF'
+
+/**
+ * Opening fences and the format they introduce. Eleventy marks non-YAML
+ * frontmatter with a language after the dashes, Hugo uses `+++` for TOML.
+ */
+const OPENING_FENCES: Record<string, FrontmatterFormat> = {
+  '---': 'yaml',
+  '---yaml': 'yaml',
+  '---toml': 'toml',
+  '---json': 'json',
+  '+++': 'toml'
+}
+
+/**
+ * Fences used when a new block is created
+ */
+const NEW_BLOCK_FENCES: Record<FrontmatterFormat, { open: string, close: string }> = {
+  yaml: { open: '---', close: '---' },
+  toml: { open: '+++', close: '+++' },
+  json: { open: '---json', close: '---' }
+}
+
+export interface FrontmatterBlock {
+  /** Format of the frontmatter source */
+  format: FrontmatterFormat
+  /** Offset of the opening fence, after any byte order mark */
+  start: number
+  /** Offset right after the closing fence line, including its line ending */
+  end: number
+  /** Offset of the first character of the frontmatter source */
+  valueStart: number
+  /** Offset of the line following the frontmatter source */
+  valueEnd: number
+  /** Raw frontmatter source between the fences */
+  value: string
+  /** Whether the source is wrapped in fences. Hugo's JSON frontmatter is a bare object. */
+  fenced: boolean
+  /** Line ending used by the opening fence */
+  lineEnding: '\n' | '\r\n'
+}
+
+/**
+ * Locate the frontmatter block at the top of a document without parsing the body.
+ * When `format` is given, only blocks of that format are recognized.
+ */
+export function findFrontmatterBlock (content: string, format?: FrontmatterFormat): FrontmatterBlock | null {
+  const start = content.startsWith(BOM) ? BOM.length : 0
+  const openingLine = readLine(content, start)
+
+  if (!openingLine) {
+    return null
+  }
+
+  if (openingLine.text.startsWith('{')) {
+    return !format || format === 'json' ? findBareJsonBlock(content, start) : null
+  }
+
+  const openingFence = openingLine.text.trimEnd()
+  const detectedFormat = OPENING_FENCES[openingFence]
+
+  if (!detectedFormat || !openingLine.lineEnding || (format && format !== detectedFormat)) {
+    return null
+  }
+
+  const closingFence = openingFence === '+++' ? '+++' : '---'
+  const lineEnding = openingLine.lineEnding
+  const valueStart = openingLine.next
+  let offset = valueStart
+
+  while (offset < content.length) {
+    const line = readLine(content, offset)
+    if (!line) {
+      break
+    }
+
+    if (line.text.trimEnd() === closingFence) {
+      const valueEnd = offset
+      // The source excludes the line ending that precedes the closing fence
+      const value = content.slice(valueStart, valueEnd).replace(/\r?\n$/, '')
+
+      return {
+        format: detectedFormat,
+        start,
+        end: line.next,
+        valueStart,
+        valueEnd,
+        value,
+        fenced: true,
+        lineEnding
+      }
+    }
+
+    offset = line.next
+  }
+
+  return null
+}
+
+/**
+ * Replace the source of an existing frontmatter block, or insert a new block when `block` is null.
+ * Everything outside the frontmatter source is kept byte for byte.
+ */
+export function replaceFrontmatterBlock (content: string, block: FrontmatterBlock | null, value: string, format: FrontmatterFormat = 'yaml'): string {
+  if (block) {
+    const source = toLineEnding(value, block.lineEnding)
+    // Reuse whatever separated the old source from the rest of the document
+    const separator = content.slice(block.valueStart + block.value.length, block.valueEnd) || (block.fenced ? block.lineEnding : '')
+    const replacement = source.length > 0 ? `${source}${separator}` : ''
+    return content.slice(0, block.valueStart) + replacement + content.slice(block.valueEnd)
+  }
+
+  const lineEnding = detectLineEnding(content)
+  const start = content.startsWith(BOM) ? BOM.length : 0
+  const body = content.slice(start)
+  const source = toLineEnding(value, lineEnding)
+  const fences = NEW_BLOCK_FENCES[format]
+  const lines = source.length > 0 ? [fences.open, source, fences.close] : [fences.open, fences.close]
+  let header = lines.join(lineEnding) + lineEnding
+
+  // Keep a blank line between the new frontmatter and the existing body
+  if (body.length > 0 && !body.startsWith(lineEnding)) {
+    header += lineEnding
+  }
+
+  return content.slice(0, start) + header + body
+}
+
+/**
+ * Detect the dominant line ending of a document, defaulting to LF
+ */
+export function detectLineEnding (content: string): '\n' | '\r\n' {
+  const firstNewline = content.indexOf('\n')
+  if (firstNewline > 0 && content[firstNewline - 1] === '\r') {
+    return '\r\n'
+  }
+  return '\n'
+}
+
+/**
+ * Find a bare JSON object at the top of the document, as used by Hugo
+ */
+function findBareJsonBlock (content: string, start: number): FrontmatterBlock | null {
+  let depth = 0
+  let inString = false
+  let objectEnd = -1
+
+  for (let i = start; i < content.length; i++) {
+    const char = content[i]
+
+    if (inString) {
+      if (char === '\\') {
+        i++
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}') {
+      depth--
+      if (depth === 0) {
+        objectEnd = i + 1
+        break
+      }
+    }
+  }
+
+  if (objectEnd === -1) {
+    return null
+  }
+
+  const rest = readLine(content, objectEnd)
+  if (rest && rest.text.trim() !== '') {
+    return null
+  }
+
+  const value = content.slice(start, objectEnd)
+  try {
+    JSON.parse(value)
+  } catch {
+    // Not JSON, most likely an MDX expression at the top of the document
+    return null
+  }
+
+  const end = rest ? rest.next : objectEnd
+  return {
+    format: 'json',
+    start,
+    end,
+    valueStart: start,
+    valueEnd: end,
+    value,
+    fenced: false,
+    lineEnding: rest?.lineEnding || detectLineEnding(content)
+  }
+}
+
+function toLineEnding (value: string, lineEnding: '\n' | '\r\n'): string {
+  return value.replace(/\r?\n/g, lineEnding)
+}
+
+function readLine (content: string, offset: number): { text: string, lineEnding: '\n' | '\r\n' | '', next: number } | null {
+  if (offset >= content.length) {
+    return null
+  }
+
+  const newline = content.indexOf('\n', offset)
+  if (newline === -1) {
+    return { text: content.slice(offset), lineEnding: '', next: content.length }
+  }
+
+  const isCrlf = newline > offset && content[newline - 1] === '\r'
+  return {
+    text: content.slice(offset, isCrlf ? newline - 1 : newline),
+    lineEnding: isCrlf ? '\r\n' : '\n',
+    next: newline + 1
+  }
+}
@@ -0,0 +1,248 @@
+import { isDeepStrictEqual } from 'node:util'
+import { findFrontmatterBlock, replaceFrontmatterBlock } from './frontmatter-block.js'
+import { applyEditsToObject, applyFrontmatterEdits } from './frontmatter-edits.js'
+import type { FrontmatterEdit, NewKeyPosition } from './frontmatter-edits.js'
+import { parseFrontmatterSource } from './frontmatter-formats.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { getContentBody, parseContentBody } from './markdown-content.js'
+import type { ContentSyntax, ContentTree } from './markdown-content.js'
+import { getPathValue, resolveFieldPath } from './field-paths.js'
+import type { FieldPath } from './field-paths.js'
+import { normalizeTagValue } from './tag-normalization.js'
+import { CodedError } from './errors.js'
+import type { TagNormalizationOptions } from './tag-normalization.js'
+
+export interface ParseFrontmatterOptions {
+  /** Only return these fields, which can be paths such as `author.name` */
+  fields?: string[]
+  format?: FrontmatterFormat | 'auto'
+}
+
+export interface ParseContentOptions extends ParseFrontmatterOptions {
+  /** Syntax the body is parsed with (default: markdown) */
+  syntax?: ContentSyntax
+}
+
+export interface ExtractedContent {
+  frontmatter: Record<string, unknown> | null
+  body: string
+  syntax: ContentSyntax
+  tree: ContentTree
+}
+
+export interface UpdateFrontmatterOptions {
+  /** Add a frontmatter block to content that has none */
+  createIfMissing?: boolean
+  /** Only rewrite the YAML nodes that change (default: true) */
+  preserveFormatting?: boolean
+  newKeyPosition?: NewKeyPosition
+  format?: FrontmatterFormat | 'auto'
+  /** Rules applied to the `tags` field whenever it is set */
+  tagNormalization?: TagNormalizationOptions
+}
+
+/**
+ * One change to a field, addressed by a dot/bracket path such as `author.name` or `images[0].alt`
+ */
+export type FieldOperation =
+  | { type: 'set', field: string, value: unknown }
+  | { type: 'remove', field: string }
+  /** Add values to the end or start of a list, skipping values it already contains */
+  | { type: 'append' | 'prepend', field: string, values: unknown[] }
+  /** Remove every item of a list equal to one of the values */
+  | { type: 'remove-value', field: string, values: unknown[] }
+
+/**
+ * Parse the YAML, TOML or JSON frontmatter of markdown content, or return null when it has none
+ */
+export function parseFrontmatter (content: string, options: ParseFrontmatterOptions = {}): Record<string, unknown> | null {
+  let frontmatter: Record<string, unknown> | null
+
+  try {
+    const block = findFrontmatterBlock(content, getForcedFormat(options.format))
+    frontmatter = block ? parseFrontmatterSource(block.value, block.format) : null
+  } catch (error) {
+    throw new CodedError('PARSE_ERROR', `Failed to parse frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  }
+
+  return frontmatter && options.fields && options.fields.length > 0
+    ? filterFields(frontmatter, options.fields)
+    : frontmatter
+}
+
+/**
+ * Parse markdown content into its frontmatter, body and the body's mdast tree
+ */
+export function parseContent (content: string, options: ParseContentOptions = {}): ExtractedContent {
+  const syntax = options.syntax ?? 'markdown'
+  const body = getContentBody(content)
+
+  return {
+    frontmatter: parseFrontmatter(content, options),
+    body,
+    syntax,
+    tree: parseContentBody(body, syntax)
+  }
+}
+
+/**
+ * Replace the whole frontmatter of markdown content and return the new content.
+ * Fields missing from `frontmatter` are removed.
+ */
+export function replaceFrontmatterInString (content: string, frontmatter: Record<string, unknown>, options: UpdateFrontmatterOptions = {}): string {
+  const existing = parseFrontmatter(content, { format: options.format })
+  const updates = normalizeTagsField(frontmatter, options.tagNormalization)
+
+  return applyEditsToContent(content, [
+    ...Object.keys(existing ?? {})
+      .filter(key => !(key in updates))
+      .map(key => ({ type: 'delete' as const, path: [key] })),
+    ...Object.entries(updates).map(([key, value]) => ({ type: 'set' as const, path: [key], value }))
+  ], options)
+}
+
+/**
+ * Set fields in the frontmatter of markdown content and return the new content.
+ * Fields can be paths such as `seo.description`; other fields are kept as they are.
+ */
+export function updateFrontmatterInString (content: string, updates: Record<string, unknown>, options: UpdateFrontmatterOptions = {}): string {
+  return applyOperationsInString(content, Object.entries(updates).map(([field, value]) => ({ type: 'set', field, value })), options)
+}
+
+/**
+ * Apply field operations in order to the frontmatter of markdown content and
+ * return the new content. Each operation sees the result of the ones before it.
+ */
+export function applyOperationsInString (content: string, operations: FieldOperation[], options: UpdateFrontmatterOptions = {}): string {
+  const edits = getOperationEdits(parseFrontmatter(content, { format: options.format }), operations, options.tagNormalization)
+
+  // Nothing to change, so content without frontmatter is fine too
+  return edits.length === 0 ? content : applyEditsToContent(content, edits, options)
+}
+
+/**
+ * Get the top-level fields whose values differ between two versions of the content
+ */
+export function getChangedFields (originalContent: string, updatedContent: string, options: ParseFrontmatterOptions = {}): string[] {
+  const before = parseFrontmatter(originalContent, { format: options.format }) ?? {}
+  const after = parseFrontmatter(updatedContent, { format: options.format }) ?? {}
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  return [...keys].filter(key => !isDeepStrictEqual(before[key], after[key]))
+}
+
+/**
+ * Keep only the requested fields, keyed by the path as written
+ */
+export function filterFields (data: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const filtered: Record<string, unknown> = {}
+
+  for (const field of fields) {
+    const value = getPathValue(data, resolveFieldPath(data, field))
+    if (value !== undefined) {
+      filtered[field] = value
+    }
+  }
+
+  return filtered
+}
+
+/**
+ * Apply edits to the frontmatter block, leaving the markdown body untouched
+ */
+function applyEditsToContent (content: string, edits: FrontmatterEdit[], options: UpdateFrontmatterOptions): string {
+  try {
+    const forcedFormat = getForcedFormat(options.format)
+    const block = findFrontmatterBlock(content, forcedFormat)
+
+    if (!block && !options.createIfMissing) {
+      throw new CodedError('MISSING_FRONTMATTER', 'No frontmatter found and createIfMissing is false')
+    }
+
+    // Writes keep the content's original format, new blocks default to YAML
+    const format = block?.format ?? forcedFormat ?? 'yaml'
+    const source = applyFrontmatterEdits(block ? block.value : '', format, edits, {
+      preserveFormatting: options.preserveFormatting ?? true,
+      newKeyPosition: options.newKeyPosition ?? 'end'
+    })
+
+    return replaceFrontmatterBlock(content, block, source, format)
+  } catch (error) {
+    throw new Error(`Failed to update frontmatter in content: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  }
+}
+
+/**
+ * Turn operations into edits against a working copy of the frontmatter.
+ * Operations that change nothing produce no edit.
+ */
+function getOperationEdits (frontmatter: Record<string, unknown> | null, operations: FieldOperation[], tagNormalization?: TagNormalizationOptions): FrontmatterEdit[] {
+  let current = frontmatter ?? {}
+  const edits: FrontmatterEdit[] = []
+
+  for (const operation of operations) {
+    const path = resolveFieldPath(current, operation.field)
+    const existing = getPathValue(current, path)
+    let edit: FrontmatterEdit | null
+
+    if (operation.type === 'set') {
+      edit = { type: 'set', path, value: normalizeTagsValue(path, operation.value, tagNormalization) }
+    } else if (operation.type === 'remove') {
+      edit = existing === undefined ? null : { type: 'delete', path }
+    } else {
+      if (existing !== undefined && existing !== null && !Array.isArray(existing)) {
+        throw new Error(`Cannot ${operation.type} values of ${operation.field}, it is not a list`)
+      }
+
+      const list: unknown[] = existing ?? []
+      const includes = (items: unknown[], value: unknown) => items.some(item => isDeepStrictEqual(item, value))
+      const added = operation.values.filter((value, index) => !includes(list, value) && !includes(operation.values.slice(0, index), value))
+      const updated = operation.type === 'append'
+        ? [...list, ...added]
+        : operation.type === 'prepend'
+          ? [...added, ...list]
+          : list.filter(item => !includes(operation.values, item))
+
+      const unchanged = existing === undefined ? operation.type === 'remove-value' : isDeepStrictEqual(updated, list)
+      edit = unchanged
+        ? null
+        : { type: 'set', path, value: normalizeTagsValue(path, updated, tagNormalization) }
+    }
+
+    if (edit) {
+      edits.push(edit)
+      current = applyEditsToObject(current, [edit])
+    }
+  }
+
+  return edits
+}
+
+/**
+ * Apply the tag normalization rules when the top-level `tags` field is set
+ */
+function normalizeTagsValue (path: FieldPath, value: unknown, tagNormalization?: TagNormalizationOptions): unknown {
+  if (!tagNormalization || path.length !== 1 || path[0] !== 'tags') {
+    return value
+  }
+
+  return normalizeTagValue(value, tagNormalization)
+}
+
+/**
+ * Apply the tag normalization rules to the `tags` field of new frontmatter
+ */
+function normalizeTagsField (frontmatter: Record<string, unknown>, tagNormalization?: TagNormalizationOptions): Record<string, unknown> {
+  if (!tagNormalization || !('tags' in frontmatter)) {
+    return frontmatter
+  }
+
+  return { ...frontmatter, tags: normalizeTagValue(frontmatter.tags, tagNormalization) }
+}
+
+/**
+ * Get the format to restrict detection to, if one was forced
+ */
+function getForcedFormat (format: FrontmatterFormat | 'auto' | undefined): FrontmatterFormat | undefined {
+  return format === 'auto' ? undefined : format
+}
@@ -0,0 +1,73 @@
+import path from 'node:path'
+import { styleText } from 'node:util'
+import { createTwoFilesPatch } from 'diff'
+import type { FrontmatterUpdateResult } from './markdown-frontmatter-updater.js'
+
+export interface FrontmatterDiff {
+  filePath: string
+  changed: boolean
+  changedFields: string[]
+  diff: string
+}
+
+export interface FrontmatterUpdateSummary {
+  filesChecked: number
+  filesChanged: number
+  changedFields: string[]
+}
+
+/**
+ * Create a unified diff between the original and updated content of a file.
+ * File names in the diff headers are relative to `cwd`.
+ */
+export function createFrontmatterDiff (result: FrontmatterUpdateResult, cwd: string = process.cwd()): FrontmatterDiff {
+  const fileName = path.relative(cwd, result.filePath).split(path.sep).join('/')
+
+  return {
+    filePath: result.filePath,
+    changed: result.changed,
+    changedFields: result.changedFields,
+    diff: result.changed
+      ? createTwoFilesPatch(`a/${fileName}`, `b/${fileName}`, result.originalContent, result.updatedContent, undefined, undefined, { context: 3 })
+        .replace(/^=+\n/, '') // Drop the separator line so the output reads like git diff
+      : ''
+  }
+}
+
+/**
+ * Color a unified diff for terminal output. Colors are dropped when the
+ * stream is not a TTY or NO_COLOR is set.
+ */
+export function colorizeDiff (diff: string, stream: NodeJS.WriteStream = process.stdout): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++ ') || line.startsWith('--- ')) {
+        return styleText('bold', line, { stream })
+      }
+      if (line.startsWith('@@')) {
+        return styleText('cyan', line, { stream })
+      }
+      if (line.startsWith('+')) {
+        return styleText('green', line, { stream })
+      }
+      if (line.startsWith('-')) {
+        return styleText('red', line, { stream })
+      }
+      return line
+    })
+    .join('\n')
+}
+
+/**
+ * Summarize how many files an update changes and which fields it touches
+ */
+export function summarizeUpdates (results: FrontmatterUpdateResult[]): FrontmatterUpdateSummary {
+  const changedResults = results.filter(result => result.changed)
+
+  return {
+    filesChecked: results.length,
+    filesChanged: changedResults.length,
+    changedFields: [...new Set(changedResults.flatMap(result => result.changedFields))].sort()
+  }
+}
@@ -0,0 +1,325 @@
+import { isDeepStrictEqual } from 'node:util'
+import { isCollection, isMap, isScalar, isSeq, parseDocument } from 'yaml'
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml'
+import type { Document, Node, Pair, YAMLMap, YAMLSeq } from 'yaml'
+import { parseRawFrontmatterSource, stringifyFrontmatter } from './frontmatter-formats.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { deletePathValue, formatFieldPath, setPathValue } from './field-paths.js'
+import type { FieldPath } from './field-paths.js'
+
+/**
+ * Where keys that don't exist yet are inserted when formatting is preserved
+ */
+export type NewKeyPosition = 'start' | 'end' | { after: string } | { before: string }
+
+export type FrontmatterEdit =
+  | { type: 'set', path: FieldPath, value: unknown }
+  | { type: 'delete', path: FieldPath }
+
+export interface FrontmatterEditOptions {
+  preserveFormatting?: boolean
+  newKeyPosition?: NewKeyPosition
+}
+
+/**
+ * Apply edits to a plain frontmatter object, returning a new object
+ */
+export function applyEditsToObject (data: Record<string, unknown> | null, edits: FrontmatterEdit[]): Record<string, unknown> {
+  const updated = cloneContainers(data ?? {}) as Record<string, unknown>
+
+  for (const edit of edits) {
+    if (edit.type === 'set') {
+      setPathValue(updated, edit.path, edit.value)
+    } else {
+      deletePathValue(updated, edit.path)
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Apply edits to frontmatter source of any supported format and return the new source.
+ * JSON is re-serialized as a whole, keeping key order, value types and indentation.
+ */
+export function applyFrontmatterEdits (source: string, format: FrontmatterFormat, edits: FrontmatterEdit[], options: FrontmatterEditOptions = {}): string {
+  if (format === 'yaml') {
+    return applyYamlEdits(source, edits, options)
+  }
+
+  if (format === 'toml') {
+    return applyTomlEdits(source, edits, options)
+  }
+
+  const updated = applyEditsToObject(parseRawFrontmatterSource(source, format), edits)
+  return stringifyFrontmatter(updated, format, source)
+}
+
+/**
+ * Apply edits to YAML frontmatter source and return the new source.
+ * With `preserveFormatting`, only the touched keys are rewritten and comments,
+ * key order and quoting styles of everything else are kept.
+ */
+export function applyYamlEdits (source: string, edits: FrontmatterEdit[], options: FrontmatterEditOptions = {}): string {
+  if (!options.preserveFormatting) {
+    const updated = applyEditsToObject(parseRawFrontmatterSource(source, 'yaml'), edits)
+    return stringifyFrontmatter(updated, 'yaml')
+  }
+
+  const doc: Document = parseDocument(source)
+  if (doc.errors.length > 0) {
+    throw doc.errors[0]
+  }
+
+  if (doc.contents === null) {
+    doc.contents = doc.createNode({})
+  }
+
+  const map = doc.contents
+  if (!isMap(map)) {
+    throw new Error('Frontmatter must be a mapping of keys to values')
+  }
+
+  for (const edit of edits) {
+    if (edit.type === 'delete') {
+      if (doc.hasIn(edit.path)) {
+        doc.deleteIn(edit.path)
+      }
+    } else {
+      setPreservingStyle(doc, edit.path, edit.value, options.newKeyPosition ?? 'end')
+    }
+  }
+
+  return doc.toString({
+    lineWidth: 0,
+    flowCollectionPadding: false,
+    indentSeq: usesIndentedSequences(source)
+  }).trimEnd()
+}
+
+/**
+ * Apply edits to TOML frontmatter source and return the new source.
+ * With `preserveFormatting`, edits of top-level keys only rewrite the lines of
+ * those keys, keeping comments, date literals and the layout of everything
+ * else. Edits of keys inside tables re-serialize the whole block.
+ */
+export function applyTomlEdits (source: string, edits: FrontmatterEdit[], options: FrontmatterEditOptions = {}): string {
+  const updated = applyEditsToObject(parseRawFrontmatterSource(source, 'toml'), edits)
+
+  if (options.preserveFormatting) {
+    const edited = editTomlLines(source, edits, options.newKeyPosition ?? 'end')
+
+    // Line edits are only kept when they give the same data as editing the parsed block
+    if (edited !== null && isSameData(parseTomlOrNull(edited), updated)) {
+      return edited.trimEnd()
+    }
+  }
+
+  return stringifyFrontmatter(updated, 'toml')
+}
+
+/**
+ * Rewrite, insert or remove the lines of edited top-level keys, or return null
+ * when an edit needs more than that
+ */
+function editTomlLines (source: string, edits: FrontmatterEdit[], position: NewKeyPosition): string | null {
+  const lines = source.split('\n')
+
+  for (const edit of edits) {
+    const key = edit.path[0]
+    if (edit.path.length !== 1 || typeof key !== 'string') {
+      return null
+    }
+
+    // Top-level keys come before the first table header
+    const headerIndex = lines.findIndex(line => line.trimStart().startsWith('['))
+    const rootEnd = headerIndex === -1 ? lines.length : headerIndex
+    const range = findTomlKeyLines(lines, rootEnd, key)
+
+    if (edit.type === 'delete') {
+      if (range) {
+        lines.splice(range[0], range[1] - range[0])
+      }
+      continue
+    }
+
+    const entry = renderTomlEntry(key, edit.value)
+    if (entry === null) {
+      return null
+    }
+
+    if (range) {
+      lines.splice(range[0], range[1] - range[0], entry)
+    } else {
+      lines.splice(tomlInsertionIndex(lines, rootEnd, position), 0, entry)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Find the lines a top-level key's value spans, as the start and end index
+ */
+function findTomlKeyLines (lines: string[], end: number, key: string): [number, number] | null {
+  for (let start = 0; start < end; start++) {
+    if (!lines[start]!.includes('=')) {
+      continue
+    }
+
+    // A multi-line value ends at the first line that completes it
+    for (let stop = start + 1; stop <= end; stop++) {
+      const entry = parseTomlOrNull(lines.slice(start, stop).join('\n'))
+      if (entry) {
+        if (Object.keys(entry).length === 1 && Object.hasOwn(entry, key)) {
+          return [start, stop]
+        }
+        break
+      }
+    }
+  }
+
+  return null
+}
+
+function tomlInsertionIndex (lines: string[], rootEnd: number, position: NewKeyPosition): number {
+  if (position === 'start') {
+    return 0
+  }
+
+  if (position !== 'end') {
+    const anchor = 'after' in position ? position.after : position.before
+    const range = findTomlKeyLines(lines, rootEnd, anchor)
+    if (range) {
+      return 'after' in position ? range[1] : range[0]
+    }
+  }
+
+  // After the last top-level line, before the blank lines that separate the first table
+  let index = rootEnd
+  while (index > 0 && lines[index - 1]!.trim() === '') {
+    index--
+  }
+  return index
+}
+
+/**
+ * Render a `key = value` line, or return null for values that become tables
+ */
+function renderTomlEntry (key: string, value: unknown): string | null {
+  try {
+    const entry = stringifyToml({ [key]: value }).trim()
+    return entry.includes('\n') ? null : entry
+  } catch {
+    return null
+  }
+}
+
+function parseTomlOrNull (source: string): Record<string, unknown> | null {
+  try {
+    return parseToml(source)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Compare data by its JSON form, so dates match whatever their TOML type and key order does not matter
+ */
+function isSameData (actual: Record<string, unknown> | null, expected: Record<string, unknown>): boolean {
+  return actual !== null && isDeepStrictEqual(JSON.parse(JSON.stringify(actual)), JSON.parse(JSON.stringify(expected)))
+}
+
+/**
+ * Set a value by path. New top-level keys go to `position`, new nested keys
+ * at the end of their mapping, and missing mappings on the way are created.
+ */
+function setPreservingStyle (doc: Document, path: FieldPath, value: unknown, position: NewKeyPosition): void {
+  const parentPath = path.slice(0, -1)
+  const key = path[path.length - 1]!
+  const parent = parentPath.length === 0 ? doc.contents : doc.getIn(parentPath, true)
+
+  if (parent === undefined || parent === null) {
+    doc.setIn(path, value)
+    return
+  }
+
+  if (!isMap(parent) && !(isSeq(parent) && typeof key === 'number')) {
+    throw new Error(`Cannot set ${formatFieldPath(path)}, ${formatFieldPath(parentPath)} is not a mapping or list`)
+  }
+
+  const collection: YAMLMap | YAMLSeq = parent
+  const existing = collection.get(key, true) as Node | undefined
+
+  if (existing === undefined) {
+    if (isMap(collection)) {
+      const pair = doc.createPair(key, value) as Pair
+      collection.items.splice(parentPath.length === 0 ? insertionIndex(collection, position) : collection.items.length, 0, pair)
+    } else {
+      collection.set(key, doc.createNode(value))
+    }
+    return
+  }
+
+  if (isDeepStrictEqual(existing.toJSON(), value)) {
+    return
+  }
+
+  // Reusing the scalar node keeps its quoting style and inline comment
+  if (isScalar(existing) && isPrimitive(value) && typeof existing.value === typeof value) {
+    existing.value = value
+    return
+  }
+
+  const node = doc.createNode(value)
+  if (isCollection(existing) && isCollection(node)) {
+    node.flow = existing.flow
+  }
+  node.comment = existing.comment
+  node.commentBefore = existing.commentBefore
+  collection.set(key, node)
+}
+
+function insertionIndex (map: YAMLMap, position: NewKeyPosition): number {
+  if (position === 'start') {
+    return 0
+  }
+
+  if (position === 'end') {
+    return map.items.length
+  }
+
+  const anchor = 'after' in position ? position.after : position.before
+  const index = map.items.findIndex(pair => isScalar(pair.key) ? pair.key.value === anchor : pair.key === anchor)
+
+  if (index === -1) {
+    return map.items.length
+  }
+
+  return 'after' in position ? index + 1 : index
+}
+
+function isPrimitive (value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value)
+}
+
+/**
+ * Detect whether block sequences are indented under their parent key
+ */
+function usesIndentedSequences (source: string): boolean {
+  return !/^\S[^\n]*:[ \t]*\r?\n- /m.test(source)
+}
+
+/**
+ * Copy mappings and lists so edits don't reach the original, keeping dates
+ * and other values as the same instances
+ */
+function cloneContainers (value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(cloneContainers)
+  }
+  if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneContainers(item)]))
+  }
+  return value
+}
@@ -0,0 +1,69 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml'
+
+export type FrontmatterFormat = 'yaml' | 'toml' | 'json'
+
+export const FRONTMATTER_FORMATS: readonly FrontmatterFormat[] = ['yaml', 'toml', 'json']
+
+/**
+ * Parse frontmatter source into plain data.
+ * TOML dates are returned as their string form, like YAML dates are.
+ */
+export function parseFrontmatterSource (source: string, format: FrontmatterFormat): Record<string, unknown> {
+  const data = parseRawFrontmatterSource(source, format)
+  return format === 'toml' ? JSON.parse(JSON.stringify(data)) : data
+}
+
+/**
+ * Parse frontmatter source keeping format-specific value types, such as TOML dates
+ */
+export function parseRawFrontmatterSource (source: string, format: FrontmatterFormat): Record<string, unknown> {
+  let data: unknown
+
+  switch (format) {
+    case 'yaml':
+      data = parseYaml(source) || {}
+      break
+    case 'toml':
+      data = parseToml(source)
+      break
+    case 'json':
+      data = source.trim() ? JSON.parse(source) : {}
+      break
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`${format.toUpperCase()} frontmatter must be a mapping of keys to values`)
+  }
+
+  return data as Record<string, unknown>
+}
+
+/**
+ * Serialize frontmatter data. When the original source is given, JSON keeps its indentation.
+ */
+export function stringifyFrontmatter (data: Record<string, unknown>, format: FrontmatterFormat, originalSource = ''): string {
+  switch (format) {
+    case 'yaml':
+      return stringifyYaml(data, {
+        lineWidth: -1,
+        defaultStringType: 'PLAIN'
+      }).trim()
+    case 'toml':
+      return stringifyToml(data).trim()
+    case 'json':
+      return JSON.stringify(data, null, detectJsonIndent(originalSource))
+  }
+}
+
+/**
+ * Check whether a value names a supported frontmatter format
+ */
+export function isFrontmatterFormat (value: unknown): value is FrontmatterFormat {
+  return FRONTMATTER_FORMATS.includes(value as FrontmatterFormat)
+}
+
+function detectJsonIndent (source: string): string {
+  const match = source.match(/\n([ \t]+)"/)
+  return match?.[1] ?? '  '
+}
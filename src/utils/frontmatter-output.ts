@@ -0,0 +1,100 @@
+import { stringify as stringifyYaml } from 'yaml'
+
+export type FrontmatterOutputFormat = 'json' | 'ndjson' | 'yaml' | 'csv' | 'table'
+
+export const FRONTMATTER_OUTPUT_FORMATS: readonly FrontmatterOutputFormat[] = ['json', 'ndjson', 'yaml', 'csv', 'table']
+
+/**
+ * Frontmatter extracted from one file, `null` when the file has none
+ */
+export interface FrontmatterRecord {
+  path: string
+  frontmatter: Record<string, unknown> | null
+}
+
+export interface FrontmatterOutputOptions {
+  /** JSON and YAML print a single record's frontmatter as is instead of keying it by path */
+  single?: boolean
+}
+
+/**
+ * Longest cell printed in table output before it is cut off
+ */
+const MAX_TABLE_CELL_WIDTH = 60
+
+/**
+ * Format extracted frontmatter for printing. JSON and YAML key the records by
+ * path, NDJSON prints one `{ path, frontmatter }` record per line, and CSV and
+ * tables have a `path` column followed by the union of all fields.
+ */
+export function formatFrontmatterRecords (records: FrontmatterRecord[], format: FrontmatterOutputFormat, options: FrontmatterOutputOptions = {}): string {
+  const single = options.single && records.length === 1
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(single ? records[0]!.frontmatter : toKeyedRecords(records), null, 2)
+    case 'ndjson':
+      return records.map(record => JSON.stringify(record)).join('\n')
+    case 'yaml':
+      return stringifyYaml(single ? records[0]!.frontmatter : toKeyedRecords(records), { lineWidth: -1 }).trimEnd()
+    case 'csv':
+      return toRows(records).map(row => row.map(formatCsvCell).join(',')).join('\n')
+    case 'table':
+      return formatTable(toRows(records))
+  }
+}
+
+/**
+ * Check whether a value names a supported output format
+ */
+export function isFrontmatterOutputFormat (value: unknown): value is FrontmatterOutputFormat {
+  return FRONTMATTER_OUTPUT_FORMATS.includes(value as FrontmatterOutputFormat)
+}
+
+function toKeyedRecords (records: FrontmatterRecord[]): Record<string, Record<string, unknown> | null> {
+  return Object.fromEntries(records.map(record => [record.path, record.frontmatter]))
+}
+
+/**
+ * A header row followed by one row per record. Fields are ordered by first appearance.
+ */
+function toRows (records: FrontmatterRecord[]): string[][] {
+  const fields = [...new Set(records.flatMap(record => Object.keys(record.frontmatter ?? {})))]
+
+  return [
+    ['path', ...fields],
+    ...records.map(record => [record.path, ...fields.map(field => formatCellValue(record.frontmatter?.[field]))])
+  ]
+}
+
+/**
+ * Scalars are printed as is, lists and mappings as JSON
+ */
+function formatCellValue (value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function formatCsvCell (cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replaceAll('"', '""')}"` : cell
+}
+
+function formatTable (rows: string[][]): string {
+  const cells = rows.map(row => row.map(cell => {
+    const flat = cell.replace(/\s+/g, ' ')
+    return flat.length > MAX_TABLE_CELL_WIDTH ? `${flat.slice(0, MAX_TABLE_CELL_WIDTH - 1)}…` : flat
+  }))
+  const widths = cells[0]!.map((_cell, column) => Math.max(...cells.map(row => row[column]!.length)))
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd()
+
+  return [
+    formatRow(cells[0]!),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...cells.slice(1).map(formatRow)
+  ].join('\n')
+}
@@ -0,0 +1,258 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { isDeepStrictEqual } from 'node:util'
+import { pathToFileURL } from 'node:url'
+import { Ajv } from 'ajv'
+import type { ErrorObject, ValidateFunction } from 'ajv'
+import addFormats from 'ajv-formats'
+import { MarkdownFrontmatterExtractor } from './markdown-frontmatter-extractor.js'
+import { MarkdownFrontmatterUpdater } from './markdown-frontmatter-updater.js'
+import type { FrontmatterUpdateResult } from './markdown-frontmatter-updater.js'
+import type { RunJournal } from './run-journal.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import type { FileSystem } from './file-system.js'
+
+/**
+ * The subset of a zod schema the validator relies on
+ */
+export interface ZodLikeSchema {
+  safeParse (data: unknown): {
+    success: boolean
+    data?: unknown
+    error?: { issues: Array<{ path: PropertyKey[], message: string }> }
+  }
+}
+
+export type FrontmatterSchema =
+  | { type: 'json-schema', schema: Record<string, unknown> }
+  | { type: 'zod', schema: ZodLikeSchema }
+
+export interface FrontmatterValidatorOptions {
+  schema: FrontmatterSchema
+  fix?: boolean
+  format?: FrontmatterFormat | 'auto'
+  /** Compute fixes without writing them to the file */
+  dryRun?: boolean
+  /** Journal that records the original content before fixes are written */
+  journal?: RunJournal
+  /** File system the file is read from and fixed in (default: the disk) */
+  fs?: FileSystem
+}
+
+export interface FrontmatterViolation {
+  filePath: string
+  field: string
+  message: string
+}
+
+export interface FrontmatterValidationResult {
+  filePath: string
+  valid: boolean
+  violations: FrontmatterViolation[]
+  fixedFields: string[]
+  /** The update that applies the fixes, when there were any */
+  update?: FrontmatterUpdateResult
+}
+
+interface SchemaCheck {
+  violations: Array<{ field: string, message: string }>
+  data: Record<string, unknown> | null
+}
+
+const compiledSchemas = new WeakMap<Record<string, unknown>, Map<boolean, ValidateFunction>>()
+
+export class FrontmatterValidator {
+  private filePath: string
+  private options: FrontmatterValidatorOptions
+
+  constructor (filePath: string, options: FrontmatterValidatorOptions) {
+    this.filePath = path.resolve(filePath)
+    this.options = {
+      fix: false,
+      format: 'auto',
+      dryRun: false,
+      ...options
+    }
+  }
+
+  /**
+   * Validate the frontmatter against the schema, applying schema defaults and
+   * type coercions to the file first when `fix` is enabled
+   */
+  async validate (): Promise<FrontmatterValidationResult> {
+    try {
+      const extractor = new MarkdownFrontmatterExtractor(this.filePath, {
+        format: this.options.format,
+        fs: this.options.fs
+      })
+      const frontmatter = await extractor.extract()
+
+      if (!frontmatter) {
+        return {
+          filePath: this.filePath,
+          valid: false,
+          violations: [{ filePath: this.filePath, field: '', message: 'No frontmatter found' }],
+          fixedFields: []
+        }
+      }
+
+      let check = this.checkSchema(frontmatter, !!this.options.fix)
+      const fixedFields: string[] = []
+      let update: FrontmatterUpdateResult | undefined
+
+      if (this.options.fix && check.data) {
+        const fixedData = check.data
+        const fieldUpdates = Object.fromEntries(
+          Object.entries(fixedData).filter(([key, value]) => !isDeepStrictEqual(frontmatter[key], value))
+        )
+
+        fixedFields.push(...Object.keys(fieldUpdates))
+
+        if (fixedFields.length > 0) {
+          const updater = new MarkdownFrontmatterUpdater(this.filePath, {
+            format: this.options.format,
+            dryRun: this.options.dryRun,
+            journal: this.options.journal,
+            fs: this.options.fs
+          })
+          update = await updater.updateFields(fieldUpdates)
+          check = this.checkSchema({ ...frontmatter, ...fieldUpdates }, false)
+        }
+      }
+
+      return {
+        filePath: this.filePath,
+        valid: check.violations.length === 0,
+        violations: check.violations.map(violation => ({ filePath: this.filePath, ...violation })),
+        fixedFields,
+        ...(update ? { update } : {})
+      }
+    } catch (error) {
+      throw new Error(`Failed to validate frontmatter in ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+  }
+
+  /**
+   * Run the schema against frontmatter data. Returns the data with defaults and
+   * coercions applied when the schema produced any.
+   */
+  private checkSchema (frontmatter: Record<string, unknown>, applyFixes: boolean): SchemaCheck {
+    const { schema } = this.options
+
+    if (schema.type === 'zod') {
+      const result = schema.schema.safeParse(frontmatter)
+      if (result.success) {
+        return { violations: [], data: result.data as Record<string, unknown> }
+      }
+
+      return {
+        violations: (result.error?.issues ?? []).map(issue => ({
+          field: formatFieldPath(issue.path),
+          message: issue.message
+        })),
+        data: null
+      }
+    }
+
+    const validateData = compileJsonSchema(schema.schema, applyFixes)
+    // Ajv applies defaults and coercions in place, so work on a copy
+    const data = structuredClone(frontmatter)
+    const valid = validateData(data)
+
+    return {
+      violations: valid ? [] : (validateData.errors ?? []).map(formatAjvError),
+      data
+    }
+  }
+
+  /**
+   * Get the resolved file path
+   */
+  getFilePath (): string {
+    return this.filePath
+  }
+}
+
+/**
+ * Load a frontmatter schema from a JSON Schema file, or from a JavaScript or
+ * TypeScript module exporting a zod schema (or JSON Schema) as `schema` or default
+ */
+export async function loadFrontmatterSchema (schemaPath: string): Promise<FrontmatterSchema> {
+  const resolvedPath = path.resolve(schemaPath)
+
+  try {
+    if (path.extname(resolvedPath).toLowerCase() === '.json') {
+      const content = await fs.readFile(resolvedPath, 'utf-8')
+      return { type: 'json-schema', schema: JSON.parse(content) }
+    }
+
+    const module = await import(pathToFileURL(resolvedPath).href)
+    const exported: unknown = module.schema ?? module.default
+
+    if (isZodLikeSchema(exported)) {
+      return { type: 'zod', schema: exported }
+    }
+
+    if (typeof exported === 'object' && exported !== null) {
+      return { type: 'json-schema', schema: exported as Record<string, unknown> }
+    }
+
+    throw new Error('Schema module must export a zod schema or JSON Schema as `schema` or default')
+  } catch (error) {
+    throw new Error(`Failed to load schema from ${resolvedPath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  }
+}
+
+function isZodLikeSchema (value: unknown): value is ZodLikeSchema {
+  return typeof value === 'object' && value !== null && typeof (value as ZodLikeSchema).safeParse === 'function'
+}
+
+/**
+ * Compile a JSON Schema once per mode, as compiling is far more expensive than validating
+ */
+function compileJsonSchema (schema: Record<string, unknown>, fix: boolean): ValidateFunction {
+  let compiled = compiledSchemas.get(schema)
+  if (!compiled) {
+    compiled = new Map()
+    compiledSchemas.set(schema, compiled)
+  }
+
+  let validateData = compiled.get(fix)
+  if (!validateData) {
+    const ajv = new Ajv({ allErrors: true, strict: false, useDefaults: fix, coerceTypes: fix ? 'array' : false })
+    addFormats.default(ajv)
+    validateData = ajv.compile(schema)
+    compiled.set(fix, validateData)
+  }
+
+  return validateData
+}
+
+function formatAjvError (error: ErrorObject): { field: string, message: string } {
+  const segments = error.instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(segment => /^\d+$/.test(segment) ? Number(segment) : segment)
+
+  if (error.keyword === 'required' && typeof error.params.missingProperty === 'string') {
+    segments.push(error.params.missingProperty)
+  }
+
+  return {
+    field: formatFieldPath(segments),
+    message: error.message ?? 'is invalid'
+  }
+}
+
+/**
+ * Format a field path using dot and bracket notation, like `images[0].alt`
+ */
+function formatFieldPath (segments: PropertyKey[]): string {
+  return segments.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`
+    }
+    return formatted ? `${formatted}.${String(segment)}` : String(segment)
+  }, '')
+}
@@ -1,58 +1,219 @@
 import path from 'node:path'
-import fs from 'node:fs/promises'
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
-import { generateObject } from 'ai'
 import { MarkdownFrontmatterExtractor } from './markdown-frontmatter-extractor.js'
+import type { ExtractedContent } from './markdown-frontmatter-extractor.js'
+import { parseContent } from './frontmatter-content.js'
+import { detectContentSyntax } from './markdown-content.js'
+import type { ContentSyntax } from './markdown-content.js'
+import type { FileSystem } from './file-system.js'
 import { MarkdownFrontmatterUpdater } from './markdown-frontmatter-updater.js'
-import { z } from 'zod'
+import type { FrontmatterUpdateResult } from './markdown-frontmatter-updater.js'
+import type { RunJournal } from './run-journal.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { getSettingValues, resolveSettings } from './config.js'
+import { isGlobPattern, resolveContentFiles } from './content-files.js'
+import { buildTagPrompt, summarizeContent } from './tag-context.js'
+import type { TagContentSource, TagContextInput } from './tag-context.js'
+import { createLLMProvider } from './llm-providers.js'
+import type { LLMProvider, TagFallback } from './llm-providers.js'
+import type { ResponseCache } from './response-cache.js'
+import { mapWithConcurrency } from './throttling.js'
+import { TagVocabulary } from './tag-vocabulary.js'
+import type { ConstrainedTags } from './tag-vocabulary.js'
+import { getExistingTags, mergeTags, normalizeTags } from './tag-normalization.js'
+import { CodedError, getErrorCode } from './errors.js'
+import type { ErrorCode } from './errors.js'
+import type { TagNormalizationOptions, TagStrategy } from './tag-normalization.js'
 
 export interface GenerativeTagsOptions {
+  /** Built-in provider name (default: openai-compatible), or a provider instance */
+  provider?: string | LLMProvider
   model?: string
+  baseUrl?: string
+  apiKey?: string
   maxTokens?: number
   temperature?: number
+  tagCount?: number
+  prompt?: string
+  /** Send the frontmatter, the article body or both to the model (default: both) */
+  contentSource?: TagContentSource
+  /** Approximate number of tokens of the article body to send (default: 1000) */
+  bodyTokenBudget?: number
+  /** Stopwords the local provider adds to its built-in list */
+  stopwords?: string[]
+  /** Technology terms the local provider adds to its built-in mapping, term to tag */
+  terms?: Record<string, string>
+  /** Files or globs the local provider scores keywords against (default: the file path) */
+  corpus?: string | string[]
+  /** Generate tags locally when the provider fails (default: none) */
+  fallback?: TagFallback
+  /** Tags the generated tags are constrained to, other tags are mapped to the closest match or dropped */
+  vocabulary?: TagVocabulary | string[]
+  /** Keep tags outside the vocabulary and flag them for review instead of dropping them */
+  allowNewTags?: boolean
+  /** Replace the existing tags, merge with them, or only tag posts without tags (default: replace) */
+  strategy?: TagStrategy
+  /** Rules applied to the tags written, including the existing tags that are kept */
+  normalization?: TagNormalizationOptions
   createIfMissing?: boolean
+  format?: FrontmatterFormat | 'auto'
+  /** Generate tags without writing them to the files */
+  dryRun?: boolean
+  /** Journal that records the original content of every file written */
+  journal?: RunJournal
+  /** Cache that reuses earlier responses for unchanged posts */
+  cache?: ResponseCache
+  /** Files of a glob pattern processed at the same time (default: 1) */
+  concurrency?: number
+  requestsPerMinute?: number
+  tokensPerMinute?: number
+  /** Retries of rate-limited and other transient provider failures (default: 3) */
+  retries?: number
+  /** File system posts are read from and written to (default: the disk) */
+  fs?: FileSystem
+  /** Called with the progress of the run, which is never printed */
+  onEvent?: (event: TagEvent) => void
 }
 
+/**
+ * What happened to one file of a run, with the tags of succeeded files and
+ * the reason for skipped and failed files
+ */
+export interface TagFileStatus {
+  filePath: string
+  status: 'succeeded' | 'skipped' | 'failed'
+  tags?: string[]
+  reason?: string
+  /** The kind of failure of a failed file */
+  code?: ErrorCode
+}
+
+/**
+ * Progress of a run, reported through the `onEvent` option
+ */
+export type TagEvent =
+  | { type: 'files-found', count: number }
+  | { type: 'file-skipped', filePath: string, reason: string }
+  | { type: 'tags-generated', filePath: string, tags: string[] }
+  | { type: 'file-failed', filePath: string, error: unknown }
+  /** A generated tag was replaced by its closest match in the vocabulary */
+  | { type: 'tag-mapped', filePath: string, from: string, to: string }
+  /** Generated tags outside the vocabulary were dropped */
+  | { type: 'tags-dropped', filePath: string, tags: string[] }
+  /** Generated tags outside the vocabulary were kept with `allowNewTags` and need review */
+  | { type: 'tags-proposed', filePath: string, tags: string[] }
+  | { type: 'provider-retry', provider: string, error: unknown, attempt: number, retries: number, delay: number }
+  | { type: 'provider-fallback', provider: string, fallback: string, error: unknown }
+
+const DEFAULT_SYSTEM_PROMPT = `You are a helpful marketing expert that generates relevant tags for blog posts. 
+
+You will be provided the frontmatter JSON object of a blog post, an outline of the article with its headings and prose, and the languages of its code examples.
+You need to analyze the provided content and suggest several tags that would be most relevant for SEO and content discovery.
+
+RULES:
+- THIS IS IMPORTANT: ALWAYS RETURN ONLY JSON ARRAY OF TAGS, no other format is acceptable
+- Use 1-{count} tags that are specific and relevant to the blog post
+- DO NOT USE generic words like "blog", "post", "article"
+- Think of tags related to the title, description, headings and main topics of the article to extract the most relevant tags
+
+EXAMPLE RESPONSE:
+{
+  "tags": ["tag1", "tag2", "tag3"]
+}
+`
+
 export class GenerativeTags {
   private filePath: string
   private options: GenerativeTagsOptions
-  private model: ReturnType<ReturnType<typeof createOpenAICompatible>['chatModel']>
+  private provider: LLMProvider
+  private vocabulary: TagVocabulary | null
+  private reviews: Array<ConstrainedTags & { filePath: string }> = []
+  private statuses: TagFileStatus[] = []
 
   constructor (filePath: string, options: GenerativeTagsOptions = {}) {
     this.filePath = path.resolve(filePath)
-    this.options = {
-      model: process.env.MODEL_NAME || 'gpt-4-turbo-preview',
-      maxTokens: parseInt(process.env.MAX_TOKENS || '150'),
-      temperature: parseFloat(process.env.TEMPERATURE || '0.7'),
-      createIfMissing: false,
-      ...options
-    }
 
-    // Initialize OpenAI-compatible model
-    const baseUrl = process.env.BASE_URL || 'https://api.openai.com/v1'
-    const apiKey = process.env.OPENAI_API_KEY
+    // Options take precedence over environment variables and defaults
+    const settings = getSettingValues(resolveSettings({
+      cli: {
+        provider: options.provider,
+        model: options.model,
+        baseUrl: options.baseUrl,
+        apiKey: options.apiKey,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+        tagCount: options.tagCount,
+        prompt: options.prompt,
+        contentSource: options.contentSource,
+        bodyTokenBudget: options.bodyTokenBudget,
+        stopwords: options.stopwords,
+        terms: options.terms,
+        fallback: options.fallback,
+        strategy: options.strategy,
+        concurrency: options.concurrency,
+        requestsPerMinute: options.requestsPerMinute,
+        tokensPerMinute: options.tokensPerMinute,
+        retries: options.retries
+      },
+      env: process.env
+    }))
 
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required')
+    this.options = {
+      createIfMissing: false,
+      dryRun: false,
+      ...options,
+      provider: settings.provider,
+      model: settings.model,
+      baseUrl: settings.baseUrl,
+      apiKey: settings.apiKey,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+      tagCount: settings.tagCount,
+      prompt: settings.prompt,
+      contentSource: settings.contentSource,
+      bodyTokenBudget: settings.bodyTokenBudget,
+      stopwords: settings.stopwords,
+      terms: settings.terms,
+      fallback: settings.fallback,
+      strategy: settings.strategy,
+      concurrency: settings.concurrency,
+      requestsPerMinute: settings.requestsPerMinute,
+      tokensPerMinute: settings.tokensPerMinute,
+      retries: settings.retries
     }
 
-    this.model = createOpenAICompatible({
-      baseURL: baseUrl,
-      name: 'gemma3',
-      apiKey,
-    }).chatModel(this.options.model!)
+    this.provider = createLLMProvider({
+      provider: settings.provider,
+      model: settings.model,
+      baseUrl: settings.baseUrl,
+      apiKey: settings.apiKey,
+      stopwords: settings.stopwords,
+      terms: settings.terms,
+      fallback: settings.fallback,
+      corpus: options.corpus ?? this.filePath,
+      format: options.format,
+      cache: options.cache,
+      requestsPerMinute: settings.requestsPerMinute,
+      tokensPerMinute: settings.tokensPerMinute,
+      retries: settings.retries,
+      onRetry: (error, attempt, delay) => this.emit({ type: 'provider-retry', provider: this.provider.name, error, attempt, retries: settings.retries, delay }),
+      onFallback: (error, fallback) => this.emit({ type: 'provider-fallback', provider: this.provider.name, fallback: fallback.name, error })
+    })
+
+    this.vocabulary = Array.isArray(options.vocabulary)
+      ? new TagVocabulary(options.vocabulary, { terms: settings.terms })
+      : options.vocabulary ?? null
   }
 
   /**
-   * Run the tag generation process
+   * Run the tag generation process and return the update made to each file
    */
-  async run (): Promise<void> {
+  async run (): Promise<FrontmatterUpdateResult[]> {
     try {
       // Check if file path is a glob pattern or single file
-      if (this.isGlobPattern(this.filePath)) {
-        await this.processGlobPattern()
+      if (isGlobPattern(this.filePath)) {
+        return await this.processGlobPattern()
       } else {
-        await this.processSingleFile(this.filePath)
+        return [await this.processSingleFile(this.filePath)]
       }
     } catch (error) {
       throw new Error(`Failed to generate tags: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
@@ -60,162 +221,213 @@ export class GenerativeTags {
   }
 
   /**
-   * Process a single file
+   * Generate tags for markdown content held in memory, without reading or
+   * writing files. Returns the tags as they would be written, following the
+   * strategy and normalization options, or the existing tags when the
+   * `fill-missing` strategy leaves them alone.
    */
-  private async processSingleFile (filePath: string): Promise<void> {
+  async generateTagsForContent (content: string, syntax: ContentSyntax = detectContentSyntax(this.filePath)): Promise<string[]> {
     try {
-      // Extract existing frontmatter
-      const extractor = new MarkdownFrontmatterExtractor(filePath)
-      const existingFrontmatter = await extractor.extract()
+      const context = this.getTagContext(parseContent(content, { format: this.options.format, syntax }))
+      const generated = await this.getTagsForContext(context)
+      return generated?.tags ?? getExistingTags(context.frontmatter)
+    } catch (error) {
+      throw new Error(`Failed to generate tags for content: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+  }
 
-      // Generate tags using AI
-      const tags = await this.generateTags(existingFrontmatter)
+  /**
+   * Process a single file
+   */
+  private async processSingleFile (filePath: string): Promise<FrontmatterUpdateResult> {
+    try {
+      // Extract existing frontmatter, and the article body when it is sent to the model
+      const extractor = new MarkdownFrontmatterExtractor(filePath, {
+        format: this.options.format,
+        fs: this.options.fs
+      })
+      const context = this.getTagContext(this.options.contentSource === 'frontmatter'
+        ? { frontmatter: await extractor.extract() }
+        : await extractor.extractContent())
+      const existingFrontmatter = context.frontmatter
 
-      // Update the file with new tags
       const updater = new MarkdownFrontmatterUpdater(filePath, {
-        createIfMissing: this.options.createIfMissing
+        createIfMissing: this.options.createIfMissing,
+        format: this.options.format,
+        dryRun: this.options.dryRun,
+        journal: this.options.journal,
+        fs: this.options.fs
       })
 
-      if (existingFrontmatter) {
-        // Update existing frontmatter with new tags
-        await updater.updateFields({ tags })
-      } else if (this.options.createIfMissing) {
-        // Create new frontmatter with tags
-        await updater.updateFrontmatter({ tags })
-      } else {
-        throw new Error('No frontmatter found and createIfMissing is false')
+      if (!existingFrontmatter && !this.options.createIfMissing) {
+        throw new CodedError('MISSING_FRONTMATTER', 'No frontmatter found and createIfMissing is false')
       }
 
-      console.log(`✅ Generated tags for ${filePath}: ${tags.join(', ')}`)
+      // Generate tags using AI, then combine them with the existing tags.
+      // Posts that already have tags are left alone without asking the model.
+      const generatedTags = await this.getTagsForContext(context)
+      if (!generatedTags) {
+        const result = await updater.updateFields({})
+        this.emit({ type: 'file-skipped', filePath, reason: 'already has tags' })
+        this.statuses.push({ filePath, status: 'skipped', reason: 'already has tags' })
+        return result
+      }
+
+      const { tags, generated } = generatedTags
+      // Update existing frontmatter with new tags, or create it with them
+      const result = existingFrontmatter
+        ? await updater.updateFields({ tags })
+        : await updater.updateFrontmatter({ tags })
+
+      this.emit({ type: 'tags-generated', filePath, tags })
+      this.reportReview(filePath, generated)
+      this.statuses.push({ filePath, status: 'succeeded', tags })
+      return result
     } catch (error) {
-      console.error(`❌ Failed to process ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      this.emit({ type: 'file-failed', filePath, error })
+      this.statuses.push({ filePath, status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error', code: getErrorCode(error) })
       throw error
     }
   }
 
+  /**
+   * Get the input the prompt is built from. The body is only summarized when it is sent to the model.
+   */
+  private getTagContext (content: Pick<ExtractedContent, 'frontmatter'> & Partial<ExtractedContent>): TagContextInput {
+    return {
+      frontmatter: content.frontmatter,
+      summary: this.options.contentSource === 'frontmatter' || !content.tree ? null : summarizeContent(content.tree)
+    }
+  }
+
+  /**
+   * Generate tags and combine them with the existing tags following the strategy.
+   * Returns null when the `fill-missing` strategy skips a post that already has tags.
+   */
+  private async getTagsForContext (context: TagContextInput): Promise<{ tags: string[], generated: ConstrainedTags } | null> {
+    const existingTags = getExistingTags(context.frontmatter)
+
+    if (this.options.strategy === 'fill-missing' && existingTags.length > 0) {
+      return null
+    }
+
+    const generated = await this.generateTags(context)
+    const tags = normalizeTags(mergeTags(existingTags, generated.tags, this.options.strategy) ?? existingTags, this.options.normalization)
+    return { tags, generated }
+  }
+
   /**
    * Process glob pattern to find matching files
    */
-  private async processGlobPattern (): Promise<void> {
+  private async processGlobPattern (): Promise<FrontmatterUpdateResult[]> {
     try {
-      // Use Node.js built-in glob matching
-      const files = await this.findMatchingFiles()
+      const files = await resolveContentFiles(this.filePath)
+      const results: FrontmatterUpdateResult[] = []
 
+      this.emit({ type: 'files-found', count: files.length })
       if (files.length === 0) {
-        console.log('No files found matching the pattern')
-        return
+        return results
       }
 
-      console.log(`Found ${files.length} file(s) to process`)
+      // A failed file is already reported and recorded, the other files continue
+      const fileResults = await mapWithConcurrency(files, this.options.concurrency ?? 1, file => {
+        return this.processSingleFile(file).catch(() => null)
+      })
 
-      // Process each file sequentially
-      for (const file of files) {
-        try {
-          await this.processSingleFile(file)
-        } catch (error) {
-          console.error(`Failed to process ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`)
-          // Continue with other files
+      for (const result of fileResults) {
+        if (result) {
+          results.push(result)
         }
       }
+
+      return results
     } catch (error) {
       throw new Error(`Failed to process glob pattern: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
   /**
-   * Find files matching the glob pattern
+   * Generate tags using AI, constrained to the vocabulary when one is set
    */
-  private async findMatchingFiles (): Promise<string[]> {
-    const dir = path.dirname(this.filePath)
-    const pattern = path.basename(this.filePath)
-
+  private async generateTags (context: TagContextInput): Promise<ConstrainedTags> {
     try {
-      const files = await fs.readdir(dir)
-      const matchingFiles: string[] = []
+      const tagCount = this.options.tagCount!
+      const systemPrompt = (this.options.prompt ?? DEFAULT_SYSTEM_PROMPT).replaceAll('{count}', String(tagCount))
+
+      // The current tags are left out, so the tags a run writes do not change the prompt of the next run
+      const frontmatter = context.frontmatter && Object.fromEntries(Object.entries(context.frontmatter).filter(([key]) => key !== 'tags'))
+      const userPrompt = buildTagPrompt({ ...context, frontmatter }, {
+        source: this.options.contentSource,
+        bodyTokenBudget: this.options.bodyTokenBudget,
+        allowedTags: this.vocabulary?.getTags(),
+        allowNewTags: this.options.allowNewTags
+      })
 
-      for (const file of files) {
-        const fullPath = path.join(dir, file)
-        const stat = await fs.stat(fullPath)
+      const tags = await this.provider.generateTags({
+        system: systemPrompt,
+        prompt: userPrompt,
+        context,
+        tagCount,
+        maxTokens: this.options.maxTokens!,
+        temperature: this.options.temperature!
+      })
 
-        if (stat.isFile() && this.matchesGlob(file, pattern)) {
-          matchingFiles.push(fullPath)
-        }
+      if (tags.length === 0) {
+        throw new Error('No tags generated from AI response')
+      }
+
+      const constrained = this.vocabulary
+        ? this.vocabulary.constrain(tags, { allowNew: this.options.allowNewTags })
+        : { tags, proposed: [], rejected: [], mapped: [] }
+
+      if (constrained.tags.length === 0) {
+        throw new Error(`None of the generated tags are in the tag vocabulary: ${constrained.rejected.join(', ')}`)
       }
 
-      return matchingFiles
+      // Pick only the configured number of tags, in case more are returned
+      const selectedTags = constrained.tags.slice(0, tagCount)
+      return {
+        ...constrained,
+        tags: selectedTags,
+        proposed: constrained.proposed.filter(tag => selectedTags.includes(tag))
+      }
     } catch (error) {
-      throw new Error(`Failed to read directory ${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+      throw new CodedError('PROVIDER_ERROR', `Failed to generate tags with AI: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
   /**
-   * Simple glob pattern matching (supports basic patterns)
+   * Report tags that were mapped onto the vocabulary, dropped, or proposed as new tags
    */
-  private matchesGlob (filename: string, pattern: string): boolean {
-    // Convert glob pattern to regex
-    const regexPattern = pattern
-      .replace(/\./g, '\\.')  // Escape dots
-      .replace(/\*/g, '.*')   // Convert * to .*
-      .replace(/\?/g, '.')    // Convert ? to .
-
-    // eslint-disable-next-line security/detect-non-literal-regexp
-    const regex = new RegExp(`^${regexPattern}$`)
-    return regex.test(filename)
+  private reportReview (filePath: string, generated: ConstrainedTags): void {
+    for (const { from, to } of generated.mapped) {
+      this.emit({ type: 'tag-mapped', filePath, from, to })
+    }
+    if (generated.rejected.length > 0) {
+      this.emit({ type: 'tags-dropped', filePath, tags: generated.rejected })
+    }
+    if (generated.proposed.length > 0) {
+      this.emit({ type: 'tags-proposed', filePath, tags: generated.proposed })
+      this.reviews.push({ filePath, ...generated })
+    }
+  }
+
+  private emit (event: TagEvent): void {
+    this.options.onEvent?.(event)
   }
 
   /**
-   * Check if the file path is a glob pattern
+   * Get the files that received tags outside the vocabulary, which need review
    */
-  private isGlobPattern (filePath: string): boolean {
-    return filePath.includes('*') || filePath.includes('?')
+  getTagReviews (): Array<ConstrainedTags & { filePath: string }> {
+    return [...this.reviews]
   }
 
   /**
-   * Generate tags using AI
+   * Get the status of every file processed so far, in the order they finished
    */
-  private async generateTags (frontmatter: Record<string, unknown> | null): Promise<string[]> {
-    try {
-      const systemPrompt = `You are a helpful marketing expert that generates relevant tags for blog posts. 
-
-You will be provided a frontmatter JSON object for a blog post.
-You need to analyze the provided frontmatter and suggest several tags that would be most relevant for SEO and content discovery.
-
-RULES:
-- THIS IS IMPORTANT: ALWAYS RETURN ONLY JSON ARRAY OF TAGS, no other format is acceptable
-- Use 1-3 tags that are specific and relevant to the blog post
-- DO NOT USE generic words like "blog", "post", "article"
-- Think of tags related to the frontmatter title, description and slug to extract the most relevant tags
-
-EXAMPLE RESPONSE:
-{
-  "tags": ["tag1", "tag2", "tag3"]
-}
-`
-      const userPrompt = frontmatter
-        ? JSON.stringify(frontmatter, null, 2)
-        : 'No frontmatter available'
-
-      const result = await generateObject({
-        model: this.model,
-        system: systemPrompt,
-        prompt: userPrompt,
-        schema: z.object({
-          tags: z.array(z.string())
-        })
-      })
-
-      const { tags } = result.object
-
-      if (tags.length === 0) {
-        throw new Error('No tags generated from AI response')
-      }
-
-      // Let's pick only 3 tags from the array, in case more are returned
-      const selectedTags = tags.slice(0, 3)
-      return selectedTags
-    } catch (error) {
-      throw new Error(`Failed to generate tags with AI: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
-    }
+  getFileStatuses (): TagFileStatus[] {
+    return [...this.statuses]
   }
 
   /**
@@ -232,3 +444,13 @@ EXAMPLE RESPONSE:
     return { ...this.options }
   }
 }
+
+/**
+ * Generate tags for markdown content held in memory, such as a file in a
+ * remark or Astro pipeline. The file path only selects the body syntax, and
+ * the local provider scores keywords without a corpus unless one is given.
+ */
+export async function generateTagsForContent (content: string, options: GenerativeTagsOptions & { filePath?: string } = {}): Promise<string[]> {
+  const { filePath = 'content.md', ...tagOptions } = options
+  return new GenerativeTags(filePath, { corpus: [], ...tagOptions }).generateTagsForContent(content)
+}
@@ -0,0 +1,305 @@
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { generateObject } from 'ai'
+import type { LanguageModel } from 'ai'
+import { z } from 'zod'
+import type { TagContextInput } from './tag-context.js'
+import { LocalTagProvider } from './local-tags.js'
+import type { LocalTagProviderOptions } from './local-tags.js'
+import type { ResponseCache } from './response-cache.js'
+import { RateLimiter, withRetry } from './throttling.js'
+import type { RateLimits, RetryOptions } from './throttling.js'
+import { estimateTokens } from './tag-context.js'
+import { CodedError } from './errors.js'
+
+/**
+ * Everything a provider gets to generate the tags of one post
+ */
+export interface TagGenerationRequest {
+  /** System prompt, with `{count}` already replaced */
+  system: string
+  /** Description of the post built from its frontmatter and body */
+  prompt: string
+  /** The post content the prompt was built from */
+  context: TagContextInput
+  tagCount: number
+  maxTokens: number
+  temperature: number
+}
+
+/**
+ * A backend that generates tags for a post
+ */
+export interface LLMProvider {
+  readonly name: string
+  generateTags (request: TagGenerationRequest): Promise<string[]>
+}
+
+export type LLMProviderName = 'openai-compatible' | 'anthropic' | 'ollama' | 'local'
+
+export const LLM_PROVIDER_NAMES: readonly LLMProviderName[] = ['openai-compatible', 'anthropic', 'ollama', 'local']
+
+/**
+ * Provider used when the configured provider fails, `none` to fail instead
+ */
+export type TagFallback = 'local' | 'none'
+
+export const TAG_FALLBACKS: readonly TagFallback[] = ['local', 'none']
+
+export interface LLMProviderDefaults {
+  model: string
+  baseUrl: string
+  /** Environment variable the API key is read from, unset for providers that need no key */
+  apiKeyEnv?: string
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, LLMProviderDefaults> = {
+  'openai-compatible': { model: 'gpt-4-turbo-preview', baseUrl: 'https://api.openai.com/v1', apiKeyEnv: 'OPENAI_API_KEY' },
+  anthropic: { model: 'claude-haiku-4-5', baseUrl: 'https://api.anthropic.com/v1', apiKeyEnv: 'ANTHROPIC_API_KEY' },
+  ollama: { model: 'llama3.2', baseUrl: 'http://localhost:11434/v1' },
+  local: { model: 'tf-idf', baseUrl: '' }
+}
+
+export interface LLMProviderOptions extends Omit<LocalTagProviderOptions, 'corpus'> {
+  /** Provider name or instance, names that are not built in are treated as OpenAI-compatible endpoints */
+  provider: string | LLMProvider
+  model: string
+  baseUrl: string
+  apiKey?: string
+  /** Files or globs the local provider scores keywords against */
+  corpus?: string | string[]
+  /** Generate tags locally when the provider fails (default: none) */
+  fallback?: TagFallback
+  /** Reuse earlier responses of the provider, the local provider is never cached */
+  cache?: ResponseCache
+  requestsPerMinute?: number
+  tokensPerMinute?: number
+  /** Retries of failed requests that are worth retrying, such as rate limits (default: 0) */
+  retries?: number
+  /** Called before waiting for a retry */
+  onRetry?: RetryOptions['onRetry']
+  /** Called when the provider failed and the fallback provider is used instead */
+  onFallback?: FallbackOptions['onFallback']
+}
+
+export interface FallbackOptions {
+  onFallback?: (error: unknown, fallback: LLMProvider) => void
+}
+
+/**
+ * Get the default model, base URL and API key variable of a provider
+ */
+export function getProviderDefaults (provider: string | LLMProvider): LLMProviderDefaults {
+  const name = typeof provider === 'string' ? provider : provider.name
+  return PROVIDER_DEFAULTS[name as LLMProviderName] ?? PROVIDER_DEFAULTS['openai-compatible']
+}
+
+/**
+ * Check whether a value implements the provider interface
+ */
+export function isLLMProvider (value: unknown): value is LLMProvider {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as LLMProvider).name === 'string' &&
+    typeof (value as LLMProvider).generateTags === 'function'
+}
+
+/**
+ * Create a built-in provider by name, or use the given provider instance,
+ * with the local provider as fallback when requested
+ */
+export function createLLMProvider (options: LLMProviderOptions): LLMProvider {
+  let provider = isLLMProvider(options.provider) ? options.provider : createNamedProvider(options, options.provider)
+
+  if (provider.name !== 'local' && (options.retries || options.requestsPerMinute || options.tokensPerMinute)) {
+    provider = createThrottledProvider(provider, {
+      requestsPerMinute: options.requestsPerMinute,
+      tokensPerMinute: options.tokensPerMinute,
+      retries: options.retries,
+      onRetry: options.onRetry
+    })
+  }
+
+  // Fallback tags are not cached, so a later run calls the provider again
+  if (options.cache && provider.name !== 'local') {
+    provider = createCachedProvider(provider, options.cache, { model: options.model, baseUrl: options.baseUrl })
+  }
+
+  if (options.fallback === 'local' && provider.name !== 'local') {
+    return createFallbackProvider(provider, createLocalProvider(options), { onFallback: options.onFallback })
+  }
+
+  return provider
+}
+
+/**
+ * Create the provider on its first request, so a run that generates no tags,
+ * such as `fill-missing` on posts that all have tags, needs no API key
+ */
+export function createLazyProvider (name: string, create: () => LLMProvider): LLMProvider {
+  let provider: LLMProvider | undefined
+
+  return {
+    name,
+    async generateTags (request: TagGenerationRequest): Promise<string[]> {
+      provider ??= create()
+      return provider.generateTags(request)
+    }
+  }
+}
+
+/**
+ * Use a second provider when the first one fails
+ */
+export function createFallbackProvider (primary: LLMProvider, fallback: LLMProvider, options: FallbackOptions = {}): LLMProvider {
+  return {
+    name: primary.name,
+    async generateTags (request: TagGenerationRequest): Promise<string[]> {
+      try {
+        return await primary.generateTags(request)
+      } catch (error) {
+        options.onFallback?.(error, fallback)
+        return await fallback.generateTags(request)
+      }
+    }
+  }
+}
+
+/**
+ * Hold requests back to the rate limits and retry transient failures with
+ * backoff. Every attempt counts toward the limits.
+ */
+export function createThrottledProvider (provider: LLMProvider, options: RateLimits & RetryOptions = {}): LLMProvider {
+  const limiter = new RateLimiter(options)
+
+  return {
+    name: provider.name,
+    async generateTags (request: TagGenerationRequest): Promise<string[]> {
+      return withRetry(async () => {
+        await limiter.acquire(estimateTokens(`${request.system}\n${request.prompt}`) + request.maxTokens)
+        return provider.generateTags(request)
+      }, options)
+    }
+  }
+}
+
+/**
+ * Reuse the cached tags of an earlier request with the same prompt, model and settings
+ */
+export function createCachedProvider (provider: LLMProvider, cache: ResponseCache, keyParts: Record<string, unknown> = {}): LLMProvider {
+  return {
+    name: provider.name,
+    async generateTags (request: TagGenerationRequest): Promise<string[]> {
+      return cache.getOrCreate({
+        type: 'tags',
+        provider: provider.name,
+        ...keyParts,
+        system: request.system,
+        prompt: request.prompt,
+        tagCount: request.tagCount,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature
+      }, () => provider.generateTags(request))
+    }
+  }
+}
+
+function createNamedProvider (options: LLMProviderOptions, name: string): LLMProvider {
+  if (name === 'local') {
+    return createLocalProvider(options)
+  }
+
+  const { apiKeyEnv } = getProviderDefaults(name)
+  if (apiKeyEnv && !options.apiKey) {
+    throw new CodedError('PROVIDER_ERROR', `${apiKeyEnv} environment variable or llm.apiKey config setting is required`)
+  }
+
+  switch (name) {
+    case 'anthropic':
+      return createLanguageModelProvider('anthropic', createAnthropic({
+        baseURL: options.baseUrl,
+        apiKey: options.apiKey
+      }).languageModel(options.model))
+    case 'ollama':
+      // Ollama serves an OpenAI-compatible API and needs no API key
+      return createLanguageModelProvider('ollama', createOpenAICompatible({
+        baseURL: options.baseUrl,
+        name: 'ollama'
+      }).chatModel(options.model))
+    default:
+      return createLanguageModelProvider(name, createOpenAICompatible({
+        baseURL: options.baseUrl,
+        name,
+        apiKey: options.apiKey
+      }).chatModel(options.model))
+  }
+}
+
+function createLocalProvider (options: LLMProviderOptions): LocalTagProvider {
+  return new LocalTagProvider({
+    corpus: options.corpus,
+    stopwords: options.stopwords,
+    terms: options.terms,
+    format: options.format
+  })
+}
+
+/**
+ * Wrap any AI SDK language model as a provider. The model is asked for
+ * structured output matching `{ tags: string[] }`.
+ */
+export function createLanguageModelProvider (name: string, model: LanguageModel): LLMProvider {
+  return {
+    name,
+    async generateTags (request: TagGenerationRequest): Promise<string[]> {
+      const result = await generateObject({
+        model,
+        system: request.system,
+        prompt: request.prompt,
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+        // Retries are left to createThrottledProvider, which shares the rate limits across files
+        maxRetries: 0,
+        schema: z.object({
+          tags: z.array(z.string())
+        })
+      })
+
+      return result.object.tags
+    }
+  }
+}
+
+export type FakeLLMResponse = string[] | Error
+
+/**
+ * Provider that answers with scripted responses instead of calling a model,
+ * for tests and offline runs. Responses are returned in order, and an `Error`
+ * response is thrown. Every request is recorded in `calls`.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake'
+  readonly calls: TagGenerationRequest[] = []
+  private responses: FakeLLMResponse[] | ((request: TagGenerationRequest) => string[] | Promise<string[]>)
+
+  constructor (responses: FakeLLMResponse[] | ((request: TagGenerationRequest) => string[] | Promise<string[]>)) {
+    this.responses = responses
+  }
+
+  async generateTags (request: TagGenerationRequest): Promise<string[]> {
+    this.calls.push(request)
+
+    if (typeof this.responses === 'function') {
+      return await this.responses(request)
+    }
+
+    const response = this.responses[this.calls.length - 1]
+    if (response === undefined) {
+      throw new Error(`No scripted response left for call ${this.calls.length}`)
+    }
+    if (response instanceof Error) {
+      throw response
+    }
+
+    return response
+  }
+}
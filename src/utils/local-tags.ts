@@ -0,0 +1,282 @@
+import { MarkdownFrontmatterExtractor } from './markdown-frontmatter-extractor.js'
+import { resolveContentFiles } from './content-files.js'
+import { summarizeContent } from './tag-context.js'
+import type { TagContextInput } from './tag-context.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import type { LLMProvider, TagGenerationRequest } from './llm-providers.js'
+
+/**
+ * Words that never make a useful tag, on top of the configured stopwords
+ */
+export const DEFAULT_STOPWORDS: readonly string[] = [
+  'about', 'above', 'after', 'again', 'against', 'all', 'also', 'and', 'any', 'are', 'around', 'because', 'been',
+  'before', 'being', 'below', 'between', 'both', 'but', 'can', 'cannot', 'could', 'did', 'does', 'doing', 'done',
+  'down', 'during', 'each', 'even', 'every', 'few', 'for', 'from', 'further', 'get', 'gets', 'getting', 'had', 'has',
+  'have', 'having', 'her', 'here', 'hers', 'him', 'his', 'how', 'however', 'into', 'its', 'itself', 'just', 'let',
+  'like', 'made', 'make', 'makes', 'many', 'may', 'more', 'most', 'much', 'must', 'need', 'needs', 'new', 'not',
+  'now', 'off', 'once', 'one', 'only', 'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'see', 'she', 'should',
+  'since', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'too', 'two', 'under', 'until', 'use', 'used', 'uses', 'using', 'very', 'want',
+  'was', 'way', 'ways', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will',
+  'with', 'within', 'without', 'would', 'yet', 'you', 'your', 'yours',
+  // Words that describe the post rather than its topic
+  'article', 'blog', 'guide', 'intro', 'introduction', 'learn', 'part', 'post', 'step', 'steps', 'tutorial'
+]
+
+/**
+ * Known technology terms and the tag they map to, extended by the configured terms.
+ * Keys may span several words.
+ */
+export const DEFAULT_TECHNOLOGY_TERMS: Readonly<Record<string, string>> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  ts: 'typescript',
+  typescript: 'typescript',
+  'node.js': 'nodejs',
+  nodejs: 'nodejs',
+  node: 'nodejs',
+  react: 'react',
+  'react.js': 'react',
+  reactjs: 'react',
+  'react native': 'react-native',
+  'vue.js': 'vue',
+  vue: 'vue',
+  angular: 'angular',
+  svelte: 'svelte',
+  'next.js': 'nextjs',
+  nextjs: 'nextjs',
+  deno: 'deno',
+  bun: 'bun',
+  python: 'python',
+  py: 'python',
+  golang: 'go',
+  rust: 'rust',
+  java: 'java',
+  kotlin: 'kotlin',
+  swift: 'swift',
+  'c++': 'cpp',
+  'c#': 'csharp',
+  css: 'css',
+  html: 'html',
+  tailwind: 'tailwindcss',
+  tailwindcss: 'tailwindcss',
+  sql: 'sql',
+  postgres: 'postgresql',
+  postgresql: 'postgresql',
+  mysql: 'mysql',
+  mongodb: 'mongodb',
+  redis: 'redis',
+  graphql: 'graphql',
+  docker: 'docker',
+  kubernetes: 'kubernetes',
+  k8s: 'kubernetes',
+  aws: 'aws',
+  azure: 'azure',
+  gcp: 'gcp',
+  npm: 'npm',
+  git: 'git',
+  github: 'github',
+  'github actions': 'github-actions',
+  webpack: 'webpack',
+  vite: 'vite',
+  webassembly: 'webassembly',
+  wasm: 'webassembly',
+  'machine learning': 'machine-learning',
+  llm: 'llm',
+  llms: 'llm',
+  ai: 'ai',
+  sh: 'shell',
+  bash: 'shell',
+  shell: 'shell'
+}
+
+/**
+ * Weight of each frontmatter field in the term frequencies, the body counts once
+ */
+const FIELD_WEIGHTS: Readonly<Record<string, number>> = {
+  title: 3,
+  description: 2,
+  summary: 2,
+  excerpt: 2,
+  category: 2,
+  categories: 2,
+  keywords: 2
+}
+const HEADING_WEIGHT = 2
+const CODE_LANGUAGE_WEIGHT = 2
+
+/**
+ * Known technology terms rank above other words with the same score
+ */
+const KNOWN_TERM_BOOST = 2
+
+export interface LocalTagProviderOptions {
+  /** Files or globs the keywords are scored against, or a corpus built before (default: no corpus) */
+  corpus?: string | string[] | KeywordCorpus
+  /** Stopwords added to the built-in list */
+  stopwords?: string[]
+  /** Technology terms added to the built-in mapping, term to tag */
+  terms?: Record<string, string>
+  /** Frontmatter format of the corpus files */
+  format?: FrontmatterFormat | 'auto'
+}
+
+/**
+ * Number of documents each term appears in, across a content corpus
+ */
+export class KeywordCorpus {
+  private documentFrequencies = new Map<string, number>()
+  private documentCount = 0
+
+  /**
+   * Add the terms of one document
+   */
+  addDocument (terms: Iterable<string>): void {
+    this.documentCount++
+    for (const term of new Set(terms)) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1)
+    }
+  }
+
+  /**
+   * Get the number of documents in the corpus
+   */
+  getDocumentCount (): number {
+    return this.documentCount
+  }
+
+  /**
+   * Smoothed inverse document frequency, terms missing from the corpus score highest
+   */
+  getInverseDocumentFrequency (term: string): number {
+    return Math.log((1 + this.documentCount) / (1 + (this.documentFrequencies.get(term) ?? 0))) + 1
+  }
+}
+
+/**
+ * Tag provider that extracts keywords with TF-IDF instead of calling a model.
+ * Nothing leaves the machine.
+ */
+export class LocalTagProvider implements LLMProvider {
+  readonly name = 'local'
+  private options: LocalTagProviderOptions
+  private stopwords: Set<string>
+  private terms: Map<string, string>
+  private corpus: Promise<KeywordCorpus> | null = null
+
+  constructor (options: LocalTagProviderOptions = {}) {
+    this.options = options
+    this.stopwords = new Set([...DEFAULT_STOPWORDS, ...(options.stopwords ?? [])].map(word => word.toLowerCase()))
+    this.terms = new Map(
+      Object.entries({ ...DEFAULT_TECHNOLOGY_TERMS, ...options.terms }).map(([term, tag]) => [term.toLowerCase(), tag])
+    )
+  }
+
+  async generateTags (request: TagGenerationRequest): Promise<string[]> {
+    const corpus = await this.getCorpus()
+    const scores = new Map<string, number>()
+
+    for (const [term, frequency] of this.getTermFrequencies(request.context)) {
+      const tag = this.terms.get(term) ?? term
+      const boost = this.terms.has(term) ? KNOWN_TERM_BOOST : 1
+      const score = frequency * corpus.getInverseDocumentFrequency(term) * boost
+      scores.set(tag, Math.max(scores.get(tag) ?? 0, score))
+    }
+
+    return [...scores.entries()]
+      .sort(([tagA, scoreA], [tagB, scoreB]) => scoreB - scoreA || tagA.localeCompare(tagB))
+      .slice(0, request.tagCount)
+      .map(([tag]) => tag)
+  }
+
+  /**
+   * Build the corpus on first use, as reading it is async
+   */
+  private async getCorpus (): Promise<KeywordCorpus> {
+    if (this.options.corpus instanceof KeywordCorpus) {
+      return this.options.corpus
+    }
+
+    this.corpus ??= this.options.corpus
+      ? buildKeywordCorpus(this.options.corpus, this.options)
+      : Promise.resolve(new KeywordCorpus())
+    return await this.corpus
+  }
+
+  /**
+   * Count the candidate terms of a post, weighted by where they appear
+   */
+  getTermFrequencies (context: TagContextInput): Map<string, number> {
+    const frequencies = new Map<string, number>()
+    const add = (text: string, weight: number) => {
+      for (const term of this.extractTerms(text)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight)
+      }
+    }
+
+    for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+      const value = context.frontmatter?.[field]
+      for (const text of Array.isArray(value) ? value : [value]) {
+        if (typeof text === 'string') {
+          add(text, weight)
+        }
+      }
+    }
+
+    for (const line of context.summary?.text.split('\n') ?? []) {
+      add(line.replace(/^#+ /, ''), line.startsWith('#') ? HEADING_WEIGHT : 1)
+    }
+
+    for (const language of context.summary?.codeLanguages ?? []) {
+      frequencies.set(language, (frequencies.get(language) ?? 0) + CODE_LANGUAGE_WEIGHT)
+    }
+
+    return frequencies
+  }
+
+  /**
+   * Split a text into candidate terms: known multi-word terms and single words
+   * that are not stopwords, numbers or shorter than three characters
+   */
+  private extractTerms (text: string): string[] {
+    const words = text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z0-9]/g) ?? []
+    const terms: string[] = []
+
+    for (let index = 0; index < words.length; index++) {
+      const phrase = [3, 2]
+        .map(length => words.slice(index, index + length).join(' '))
+        .find(candidate => candidate.includes(' ') && this.terms.has(candidate))
+      if (phrase) {
+        terms.push(phrase)
+        index += phrase.split(' ').length - 1
+        continue
+      }
+
+      const word = words[index]!
+      if (this.terms.has(word) || (word.length >= 3 && !/^\d+$/.test(word) && !this.stopwords.has(word))) {
+        terms.push(word)
+      }
+    }
+
+    return terms
+  }
+}
+
+/**
+ * Read files into a keyword corpus. Files that cannot be read or parsed are left out.
+ */
+export async function buildKeywordCorpus (patterns: string | string[], options: LocalTagProviderOptions = {}): Promise<KeywordCorpus> {
+  const corpus = new KeywordCorpus()
+  const provider = new LocalTagProvider({ ...options, corpus })
+
+  for (const filePath of await resolveContentFiles(patterns)) {
+    try {
+      const { frontmatter, tree } = await new MarkdownFrontmatterExtractor(filePath, { format: options.format }).extractContent()
+      corpus.addDocument(provider.getTermFrequencies({ frontmatter, summary: summarizeContent(tree) }).keys())
+    } catch {
+      // A broken file should not stop tagging the others
+    }
+  }
+
+  return corpus
+}
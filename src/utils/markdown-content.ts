@@ -0,0 +1,87 @@
+import path from 'node:path'
+import { fromMarkdown } from 'mdast-util-from-markdown'
+import { micromark } from 'micromark'
+import { mdxjs } from 'micromark-extension-mdxjs'
+import { mdxFromMarkdown } from 'mdast-util-mdx'
+import { findFrontmatterBlock } from './frontmatter-block.js'
+
+export type ContentSyntax = 'markdown' | 'mdx' | 'markdoc'
+
+/**
+ * The mdast root of a parsed document body
+ */
+export type ContentTree = ReturnType<typeof fromMarkdown>
+
+/**
+ * File extensions recognized as content files, by syntax
+ */
+export const CONTENT_FILE_EXTENSIONS: Record<ContentSyntax, readonly string[]> = {
+  markdown: ['.md', '.markdown'],
+  mdx: ['.mdx'],
+  markdoc: ['.mdoc', '.markdoc']
+}
+
+/**
+ * Detect the content syntax of a file from its extension, defaulting to markdown
+ */
+export function detectContentSyntax (filePath: string): ContentSyntax {
+  const extension = path.extname(filePath).toLowerCase()
+
+  for (const [syntax, extensions] of Object.entries(CONTENT_FILE_EXTENSIONS)) {
+    if (extensions.includes(extension)) {
+      return syntax as ContentSyntax
+    }
+  }
+
+  return 'markdown'
+}
+
+/**
+ * Get the document body that follows the frontmatter block
+ */
+export function getContentBody (content: string): string {
+  const block = findFrontmatterBlock(content)
+  return block ? content.slice(block.end) : content.replace(/^\uFEFF/, '')
+}
+
+/**
+ * Parse a document body into mdast using the syntax extensions it needs.
+ * MDX bodies are parsed with ESM and JSX support, Markdoc tags are dropped
+ * while the content they wrap is kept.
+ */
+export function parseContentBody (body: string, syntax: ContentSyntax = 'markdown'): ContentTree {
+  switch (syntax) {
+    case 'mdx':
+      return fromMarkdown(body, {
+        extensions: [mdxjs()],
+        mdastExtensions: [mdxFromMarkdown()]
+      })
+    case 'markdoc':
+      return fromMarkdown(stripMarkdocTags(body))
+    case 'markdown':
+      return fromMarkdown(body)
+  }
+}
+
+/**
+ * Render a document body as HTML. HTML in markdown is kept as written, MDX
+ * imports, expressions and JSX tags are dropped while the content JSX tags
+ * wrap is kept, and Markdoc tags are dropped like when parsing.
+ */
+export function renderContentHtml (body: string, syntax: ContentSyntax = 'markdown'): string {
+  switch (syntax) {
+    case 'mdx':
+      return micromark(body, { extensions: [mdxjs()] })
+    case 'markdoc':
+      return micromark(stripMarkdocTags(body), { allowDangerousHtml: true })
+    case 'markdown':
+      return micromark(body, { allowDangerousHtml: true })
+  }
+}
+
+/**
+ * Remove Markdoc `{% ... %}` tags, keeping line breaks so positions stay meaningful
+ */
+function stripMarkdocTags (body: string): string {
+  return body.replace(/\{%[\s\S]*?%\}/g, tag => tag.replace(/[^\n]/g, ''))
+}
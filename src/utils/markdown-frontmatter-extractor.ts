@@ -1,21 +1,33 @@
 import path from 'node:path'
-import fs from 'node:fs/promises'
-import { fromMarkdown } from 'mdast-util-from-markdown'
-import { frontmatter } from 'micromark-extension-frontmatter'
-import { frontmatterFromMarkdown } from 'mdast-util-frontmatter'
-import { parse as parseYaml } from 'yaml'
+import { parseContent, parseFrontmatter } from './frontmatter-content.js'
+import type { ExtractedContent } from './frontmatter-content.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { detectContentSyntax } from './markdown-content.js'
+import type { ContentSyntax } from './markdown-content.js'
+import { resolveContentFiles } from './content-files.js'
+import type { ContentFilesOptions } from './content-files.js'
+import { nodeFileSystem } from './file-system.js'
+import type { FileSystem } from './file-system.js'
+
+export type { ExtractedContent } from './frontmatter-content.js'
 
 export interface FrontmatterExtractorOptions {
   fields?: string[]
+  format?: FrontmatterFormat | 'auto'
+  syntax?: ContentSyntax
+  /** File system the file is read from (default: the disk) */
+  fs?: FileSystem
 }
 
 export class MarkdownFrontmatterExtractor {
   private filePath: string
   private options: FrontmatterExtractorOptions
+  private fs: FileSystem
 
   constructor (filePath: string, options: FrontmatterExtractorOptions = {}) {
     this.filePath = path.resolve(filePath)
     this.options = options
+    this.fs = options.fs ?? nodeFileSystem
   }
 
   /**
@@ -23,59 +35,24 @@ export class MarkdownFrontmatterExtractor {
    */
   async extract (): Promise<Record<string, unknown> | null> {
     try {
-      const content = await fs.readFile(this.filePath, 'utf-8')
-      const frontmatterData = this.parseFrontmatter(content)
-
-      if (!frontmatterData) {
-        return null
-      }
-
-      // Filter fields if specified
-      if (this.options.fields && this.options.fields.length > 0) {
-        return this.filterFields(frontmatterData, this.options.fields)
-      }
-
-      return frontmatterData
+      const content = await this.fs.readFile(this.filePath)
+      return parseFrontmatter(content, this.options)
     } catch (error) {
       throw new Error(`Failed to extract frontmatter from ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
   /**
-   * Parse frontmatter from markdown content
+   * Extract frontmatter together with the parsed document body.
+   * The body is parsed as markdown, MDX or Markdoc depending on the file extension.
    */
-  private parseFrontmatter (content: string): Record<string, unknown> | null {
+  async extractContent (): Promise<ExtractedContent> {
     try {
-      const ast = fromMarkdown(content, {
-        extensions: [frontmatter(['yaml'])],
-        mdastExtensions: [frontmatterFromMarkdown(['yaml'])]
-      })
-
-      for (const node of ast.children) {
-        if (node.type === 'yaml') {
-          return parseYaml(node.value) || {}
-        }
-      }
-
-      return null
+      const content = await this.fs.readFile(this.filePath)
+      return parseContent(content, { ...this.options, syntax: this.options.syntax ?? detectContentSyntax(this.filePath) })
     } catch (error) {
-      throw new Error(`Failed to parse frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
-    }
-  }
-
-  /**
-   * Filter frontmatter data to only include specified fields
-   */
-  private filterFields (data: Record<string, unknown>, fields: string[]): Record<string, unknown> {
-    const filtered: Record<string, unknown> = {}
-
-    for (const field of fields) {
-      if (field in data) {
-        filtered[field] = data[field]
-      }
+      throw new Error(`Failed to extract content from ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
-
-    return filtered
   }
 
   /**
@@ -85,3 +62,22 @@ export class MarkdownFrontmatterExtractor {
     return this.filePath
   }
 }
+
+/**
+ * Extract frontmatter from every file matching the given paths and glob patterns.
+ * Results are keyed by the resolved file path, with `null` for files without frontmatter.
+ */
+export async function extractFrontmatterFromFiles (
+  patterns: string | string[],
+  options: FrontmatterExtractorOptions & ContentFilesOptions = {}
+): Promise<Record<string, Record<string, unknown> | null>> {
+  const { cwd, gitignore, ...extractorOptions } = options
+  const filePaths = await resolveContentFiles(patterns, { cwd, gitignore })
+  const results: Record<string, Record<string, unknown> | null> = {}
+
+  for (const filePath of filePaths) {
+    results[filePath] = await new MarkdownFrontmatterExtractor(filePath, extractorOptions).extract()
+  }
+
+  return results
+}
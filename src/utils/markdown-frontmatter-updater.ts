@@ -1,173 +1,155 @@
 import path from 'node:path'
-import fs from 'node:fs/promises'
-import { fromMarkdown } from 'mdast-util-from-markdown'
-import { toMarkdown } from 'mdast-util-to-markdown'
-import { frontmatter } from 'micromark-extension-frontmatter'
-import { frontmatterFromMarkdown, frontmatterToMarkdown } from 'mdast-util-frontmatter'
-import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
-
-export interface FrontmatterUpdaterOptions {
-  createIfMissing?: boolean
-  preserveFormatting?: boolean
+import { applyOperationsInString, getChangedFields, parseFrontmatter, replaceFrontmatterInString } from './frontmatter-content.js'
+import type { FieldOperation, UpdateFrontmatterOptions } from './frontmatter-content.js'
+import { nodeFileSystem } from './file-system.js'
+import type { FileSystem } from './file-system.js'
+import type { RunJournal } from './run-journal.js'
+
+export type { FieldOperation } from './frontmatter-content.js'
+
+export interface FrontmatterUpdaterOptions extends UpdateFrontmatterOptions {
+  /** Compute the change without writing the file */
+  dryRun?: boolean
+  /** Journal that records the original content before the file is written */
+  journal?: RunJournal
+  /** File system the file is read from and written to (default: the disk) */
+  fs?: FileSystem
+}
+
+export interface FrontmatterUpdateResult {
+  filePath: string
+  /** Whether the update changes the file content */
+  changed: boolean
+  /** Whether the file was written, which is never the case in dry-run mode */
+  written: boolean
+  /** Top-level fields that were added, changed or removed */
+  changedFields: string[]
+  originalContent: string
+  updatedContent: string
 }
 
 export class MarkdownFrontmatterUpdater {
   private filePath: string
   private options: FrontmatterUpdaterOptions
+  private fs: FileSystem
 
   constructor (filePath: string, options: FrontmatterUpdaterOptions = {}) {
     this.filePath = path.resolve(filePath)
     this.options = {
       createIfMissing: false,
       preserveFormatting: true,
+      newKeyPosition: 'end',
+      format: 'auto',
+      dryRun: false,
       ...options
     }
+    this.fs = options.fs ?? nodeFileSystem
   }
 
   /**
    * Update frontmatter in the markdown file
    */
-  async updateFrontmatter (updates: Record<string, unknown>): Promise<void> {
+  async updateFrontmatter (updates: Record<string, unknown>): Promise<FrontmatterUpdateResult> {
     try {
-      const content = await fs.readFile(this.filePath, 'utf-8')
-      const updatedContent = this.updateFrontmatterInContent(content, updates)
-      await fs.writeFile(this.filePath, updatedContent, 'utf-8')
+      const content = await this.fs.readFile(this.filePath)
+      return await this.writeUpdate(content, replaceFrontmatterInString(content, updates, this.options))
     } catch (error) {
       throw new Error(`Failed to update frontmatter in ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
   /**
-   * Update specific fields in the frontmatter
+   * Update specific fields in the frontmatter. Fields can be paths such as `seo.og.image`.
    */
-  async updateFields (fieldUpdates: Record<string, unknown>): Promise<void> {
+  async updateFields (fieldUpdates: Record<string, unknown>): Promise<FrontmatterUpdateResult> {
     try {
-      const content = await fs.readFile(this.filePath, 'utf-8')
-      const existingFrontmatter = this.extractExistingFrontmatter(content)
-
-      // Merge existing frontmatter with updates
-      const updatedFrontmatter = {
-        ...existingFrontmatter,
-        ...fieldUpdates
-      }
-
-      const updatedContent = this.updateFrontmatterInContent(content, updatedFrontmatter)
-      await fs.writeFile(this.filePath, updatedContent, 'utf-8')
+      return await this.applyOperations(Object.entries(fieldUpdates).map(([field, value]) => ({ type: 'set', field, value })))
     } catch (error) {
       throw new Error(`Failed to update fields in ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
   /**
-   * Remove specific fields from the frontmatter
+   * Remove specific fields from the frontmatter. Fields can be paths such as `images[0].alt`.
    */
-  async removeFields (fieldsToRemove: string[]): Promise<void> {
+  async removeFields (fieldsToRemove: string[]): Promise<FrontmatterUpdateResult> {
     try {
-      const content = await fs.readFile(this.filePath, 'utf-8')
-      const existingFrontmatter = this.extractExistingFrontmatter(content)
-
-      if (!existingFrontmatter) {
-        return // Nothing to remove
-      }
-
-      // Remove specified fields
-      const updatedFrontmatter = { ...existingFrontmatter }
-      for (const field of fieldsToRemove) {
-        delete updatedFrontmatter[field]
-      }
-
-      const updatedContent = this.updateFrontmatterInContent(content, updatedFrontmatter)
-      await fs.writeFile(this.filePath, updatedContent, 'utf-8')
+      return await this.applyOperations(fieldsToRemove.map(field => ({ type: 'remove', field })))
     } catch (error) {
       throw new Error(`Failed to remove fields from ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
   /**
-   * Get the current frontmatter without modifying the file
+   * Add values to the end of lists, such as `{ tags: ['react'] }`. Missing lists are created.
    */
-  async getCurrentFrontmatter (): Promise<Record<string, unknown> | null> {
+  async appendValues (fieldValues: Record<string, unknown[]>): Promise<FrontmatterUpdateResult> {
+    return this.applyListOperation('append', fieldValues)
+  }
+
+  /**
+   * Add values to the start of lists. Missing lists are created.
+   */
+  async prependValues (fieldValues: Record<string, unknown[]>): Promise<FrontmatterUpdateResult> {
+    return this.applyListOperation('prepend', fieldValues)
+  }
+
+  /**
+   * Remove values from lists, wherever they appear
+   */
+  async removeValues (fieldValues: Record<string, unknown[]>): Promise<FrontmatterUpdateResult> {
+    return this.applyListOperation('remove-value', fieldValues)
+  }
+
+  /**
+   * Apply several field operations in order and write the file once.
+   * Each operation sees the result of the ones before it.
+   */
+  async applyOperations (operations: FieldOperation[]): Promise<FrontmatterUpdateResult> {
     try {
-      const content = await fs.readFile(this.filePath, 'utf-8')
-      return this.extractExistingFrontmatter(content)
+      const content = await this.fs.readFile(this.filePath)
+      return await this.writeUpdate(content, applyOperationsInString(content, operations, this.options))
     } catch (error) {
-      throw new Error(`Failed to read frontmatter from ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+      throw new Error(`Failed to apply field operations in ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
   /**
-   * Update frontmatter in content string
+   * Get the current frontmatter without modifying the file
    */
-  private updateFrontmatterInContent (content: string, newFrontmatter: Record<string, unknown>): string {
+  async getCurrentFrontmatter (): Promise<Record<string, unknown> | null> {
     try {
-      const ast = fromMarkdown(content, {
-        extensions: [frontmatter(['yaml'])],
-        mdastExtensions: [frontmatterFromMarkdown(['yaml'])]
-      })
-
-      let hasFrontmatter = false
-      let frontmatterIndex = -1
-
-      // Find existing frontmatter
-      for (let i = 0; i < ast.children.length; i++) {
-        const child = ast.children[i]
-        if (child && child.type === 'yaml') {
-          hasFrontmatter = true
-          frontmatterIndex = i
-          break
-        }
-      }
-
-      if (hasFrontmatter) {
-        // Update existing frontmatter
-        const yamlNode = ast.children[frontmatterIndex] as unknown as { value: string }
-        yamlNode.value = stringifyYaml(newFrontmatter, {
-          lineWidth: -1,
-          defaultStringType: 'PLAIN'
-        }).trim()
-      } else if (this.options.createIfMissing) {
-        // Create new frontmatter at the beginning
-        const yamlContent = stringifyYaml(newFrontmatter, {
-          lineWidth: -1,
-          defaultStringType: 'PLAIN'
-        }).trim()
-        const yamlNode = {
-          type: 'yaml' as const,
-          value: yamlContent
-        }
-        ast.children.unshift(yamlNode as unknown as (typeof ast.children)[number])
-      } else {
-        throw new Error('No frontmatter found and createIfMissing is false')
-      }
-
-      // Convert back to markdown
-      return toMarkdown(ast, {
-        extensions: [frontmatterToMarkdown(['yaml'])]
-      })
+      const content = await this.fs.readFile(this.filePath)
+      return parseFrontmatter(content, { format: this.options.format })
     } catch (error) {
-      throw new Error(`Failed to update frontmatter in content: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+      throw new Error(`Failed to read frontmatter from ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
     }
   }
 
+  private async applyListOperation (type: 'append' | 'prepend' | 'remove-value', fieldValues: Record<string, unknown[]>): Promise<FrontmatterUpdateResult> {
+    return this.applyOperations(Object.entries(fieldValues).map(([field, values]) => ({ type, field, values })))
+  }
+
   /**
-   * Extract existing frontmatter from content
+   * Write the updated content unless nothing changed or this is a dry run.
+   * Writes to the disk go through a temp file and rename, so a crash never leaves a partial file.
    */
-  private extractExistingFrontmatter (content: string): Record<string, unknown> | null {
-    try {
-      const ast = fromMarkdown(content, {
-        extensions: [frontmatter(['yaml'])],
-        mdastExtensions: [frontmatterFromMarkdown(['yaml'])]
-      })
-
-      for (const node of ast.children) {
-        if (node.type === 'yaml') {
-          return parseYaml(node.value) || {}
-        }
-      }
-
-      return null
-    } catch (error) {
-      throw new Error(`Failed to extract existing frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  private async writeUpdate (originalContent: string, updatedContent: string): Promise<FrontmatterUpdateResult> {
+    const changed = updatedContent !== originalContent
+    const written = changed && !this.options.dryRun
+
+    if (written) {
+      await this.options.journal?.record(this.filePath, originalContent, updatedContent)
+      await this.fs.writeFile(this.filePath, updatedContent)
+    }
+
+    return {
+      filePath: this.filePath,
+      changed,
+      written,
+      changedFields: changed ? getChangedFields(originalContent, updatedContent, { format: this.options.format }) : [],
+      originalContent,
+      updatedContent
     }
   }
 
@@ -0,0 +1,164 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { createHash } from 'node:crypto'
+import { writeFileAtomic } from './atomic-write.js'
+import { JOURNAL_DIRECTORY } from './run-journal.js'
+
+/**
+ * Bumped when the shape of cached responses changes, so old entries are not reused
+ */
+const CACHE_VERSION = 1
+
+export interface ResponseCacheOptions {
+  /** Directory the `.devrel-blog-utils/cache/` directory lives in (default: cwd) */
+  root?: string
+  /** Ignore cached responses and store fresh ones in their place (default: false) */
+  refresh?: boolean
+}
+
+export interface ResponseCacheStats {
+  directory: string
+  entries: number
+  bytes: number
+}
+
+interface CacheEntry<T> {
+  version: number
+  createdAt: string
+  value: T
+}
+
+/**
+ * On-disk cache for AI responses, keyed by a hash of everything that shapes the response
+ */
+export class ResponseCache {
+  private directory: string
+  private refresh: boolean
+  private hits = 0
+  private misses = 0
+
+  constructor (options: ResponseCacheOptions = {}) {
+    this.directory = getCacheDirectory(options.root)
+    this.refresh = options.refresh ?? false
+  }
+
+  /**
+   * Get the cached response for a key, or compute and store it. The key parts
+   * must include the prompt, model, settings and content the response depends on.
+   */
+  async getOrCreate<T> (keyParts: Record<string, unknown>, create: () => Promise<T>): Promise<T> {
+    const key = createCacheKey(keyParts)
+
+    if (!this.refresh) {
+      const entry = await this.read<T>(key)
+      if (entry) {
+        this.hits++
+        return entry.value
+      }
+    }
+
+    this.misses++
+    const value = await create()
+
+    try {
+      const entry: CacheEntry<T> = { version: CACHE_VERSION, createdAt: new Date().toISOString(), value }
+      await fs.mkdir(this.directory, { recursive: true })
+      await writeFileAtomic(this.getEntryPath(key), `${JSON.stringify(entry)}\n`)
+    } catch (error) {
+      throw new Error(`Failed to write response cache entry ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+
+    return value
+  }
+
+  /**
+   * Get how many responses were reused from the cache and how many were requested
+   */
+  getUsage (): { hits: number, misses: number } {
+    return { hits: this.hits, misses: this.misses }
+  }
+
+  /**
+   * Get the directory the entries are stored in
+   */
+  getDirectory (): string {
+    return this.directory
+  }
+
+  /**
+   * Count the entries and their size on disk
+   */
+  async getStats (): Promise<ResponseCacheStats> {
+    const stats: ResponseCacheStats = { directory: this.directory, entries: 0, bytes: 0 }
+
+    for (const fileName of await this.listEntryFiles()) {
+      const fileStats = await fs.stat(path.join(this.directory, fileName)).catch(() => null)
+      if (fileStats) {
+        stats.entries++
+        stats.bytes += fileStats.size
+      }
+    }
+
+    return stats
+  }
+
+  /**
+   * Remove every entry and return how many were removed
+   */
+  async clear (): Promise<number> {
+    const fileNames = await this.listEntryFiles()
+
+    try {
+      await fs.rm(this.directory, { recursive: true, force: true })
+    } catch (error) {
+      throw new Error(`Failed to clear response cache ${this.directory}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+
+    return fileNames.length
+  }
+
+  private async read<T> (key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.getEntryPath(key), 'utf-8')) as CacheEntry<T>
+      return entry.version === CACHE_VERSION ? entry : null
+    } catch {
+      // Missing or corrupt entries are cache misses
+      return null
+    }
+  }
+
+  private async listEntryFiles (): Promise<string[]> {
+    const fileNames = await fs.readdir(this.directory).catch(() => [] as string[])
+    return fileNames.filter(fileName => fileName.endsWith('.json'))
+  }
+
+  private getEntryPath (key: string): string {
+    return path.join(this.directory, `${key}.json`)
+  }
+}
+
+/**
+ * Hash key parts into a cache key. Object keys are sorted, so the order they
+ * were written in does not change the key.
+ */
+export function createCacheKey (keyParts: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(sortKeys(keyParts))).digest('hex')
+}
+
+function sortKeys (value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys)
+  }
+
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+
+  return value
+}
+
+function getCacheDirectory (root: string = process.cwd()): string {
+  return path.join(path.resolve(root), JOURNAL_DIRECTORY, 'cache')
+}
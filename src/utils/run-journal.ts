@@ -0,0 +1,233 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { createHash, randomBytes } from 'node:crypto'
+import { writeFileAtomic } from './atomic-write.js'
+
+/**
+ * Directory, relative to the project root, that holds the run journals
+ */
+export const JOURNAL_DIRECTORY = '.devrel-blog-utils'
+
+/**
+ * Number of runs kept in the journal, older runs are pruned when a new run writes files
+ */
+const MAX_JOURNAL_RUNS = 20
+
+export interface JournalEntry {
+  filePath: string
+  /** Backup of the original content, relative to the run directory */
+  backup: string
+  /** sha256 of the content the run last wrote, used to detect later edits */
+  writtenHash: string
+}
+
+export interface JournalRun {
+  id: string
+  command: string
+  startedAt: string
+  undoneAt?: string
+  files: JournalEntry[]
+}
+
+export interface UndoResult {
+  run: JournalRun
+  restored: string[]
+  /** Files that changed after the run wrote them and were left alone */
+  skipped: string[]
+}
+
+export interface RunJournalOptions {
+  /** Directory the `.devrel-blog-utils/` journal lives in (default: cwd) */
+  root?: string
+  /** Command recorded with the run, shown when listing runs */
+  command?: string
+}
+
+/**
+ * Records the original content of every file a run writes, so the run can be undone
+ */
+export class RunJournal {
+  private runsDirectory: string
+  private run: JournalRun
+  private entries = new Map<string, JournalEntry>()
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor (options: RunJournalOptions = {}) {
+    this.runsDirectory = getRunsDirectory(options.root)
+    this.run = {
+      id: createRunId(),
+      command: options.command ?? '',
+      startedAt: new Date().toISOString(),
+      files: []
+    }
+  }
+
+  /**
+   * Record a file before it is written. Only the first original content of a
+   * file is kept when it is written more than once in the same run.
+   */
+  async record (filePath: string, originalContent: string, updatedContent: string): Promise<void> {
+    // Files written concurrently are recorded one at a time, so backups and the journal stay consistent
+    const recording = this.queue.then(() => this.recordEntry(filePath, originalContent, updatedContent))
+    this.queue = recording.catch(() => undefined)
+    return recording
+  }
+
+  private async recordEntry (filePath: string, originalContent: string, updatedContent: string): Promise<void> {
+    try {
+      let entry = this.entries.get(filePath)
+
+      if (!entry) {
+        if (this.run.files.length === 0) {
+          await pruneRuns(this.runsDirectory, MAX_JOURNAL_RUNS - 1)
+        }
+
+        entry = {
+          filePath,
+          backup: path.join('files', `${this.run.files.length}.orig`),
+          writtenHash: ''
+        }
+        await fs.mkdir(path.join(this.getRunDirectory(), 'files'), { recursive: true })
+        await fs.writeFile(path.join(this.getRunDirectory(), entry.backup), originalContent, 'utf-8')
+
+        this.entries.set(filePath, entry)
+        this.run.files.push(entry)
+      }
+
+      entry.writtenHash = hashContent(updatedContent)
+      await this.save()
+    } catch (error) {
+      throw new Error(`Failed to record ${filePath} in run journal: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+  }
+
+  /**
+   * Get the id of this run
+   */
+  getRunId (): string {
+    return this.run.id
+  }
+
+  /**
+   * Get the files recorded so far
+   */
+  getFiles (): string[] {
+    return this.run.files.map(entry => entry.filePath)
+  }
+
+  private getRunDirectory (): string {
+    return path.join(this.runsDirectory, this.run.id)
+  }
+
+  private async save (): Promise<void> {
+    await writeFileAtomic(path.join(this.getRunDirectory(), 'journal.json'), `${JSON.stringify(this.run, null, 2)}\n`)
+  }
+}
+
+/**
+ * List the recorded runs, most recent first
+ */
+export async function listJournalRuns (root?: string): Promise<JournalRun[]> {
+  const runsDirectory = getRunsDirectory(root)
+  const runIds = await fs.readdir(runsDirectory).catch(() => [] as string[])
+  const runs: JournalRun[] = []
+
+  for (const runId of runIds) {
+    try {
+      runs.push(await readRun(runsDirectory, runId))
+    } catch {
+      // Skip directories that are not complete runs
+    }
+  }
+
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt) || b.id.localeCompare(a.id))
+}
+
+/**
+ * Restore the files of a run from the journal. Without a run id, the most
+ * recent run that was not undone yet is restored. Files edited after the run
+ * wrote them are skipped unless `force` is set, and the run is only marked as
+ * undone when no file was skipped.
+ */
+export async function undoJournalRun (options: { root?: string, runId?: string, force?: boolean } = {}): Promise<UndoResult> {
+  const runsDirectory = getRunsDirectory(options.root)
+
+  let run: JournalRun | undefined
+  if (options.runId) {
+    run = await readRun(runsDirectory, options.runId).catch(error => {
+      throw new Error(`Failed to load run ${options.runId}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    })
+  } else {
+    run = (await listJournalRuns(options.root)).find(candidate => !candidate.undoneAt)
+  }
+
+  if (!run) {
+    throw new Error('No run to undo')
+  }
+
+  if (run.undoneAt) {
+    throw new Error(`Run ${run.id} was already undone at ${run.undoneAt}`)
+  }
+
+  const runDirectory = path.join(runsDirectory, run.id)
+  const restored: string[] = []
+  const skipped: string[] = []
+
+  for (const entry of run.files) {
+    const currentContent = await fs.readFile(entry.filePath, 'utf-8').catch(() => null)
+    const originalContent = await fs.readFile(path.join(runDirectory, entry.backup), 'utf-8')
+
+    // Files restored by an earlier, partial undo of the run are left as they are
+    if (currentContent === originalContent) {
+      restored.push(entry.filePath)
+      continue
+    }
+
+    if (!options.force && currentContent !== null && hashContent(currentContent) !== entry.writtenHash) {
+      skipped.push(entry.filePath)
+      continue
+    }
+
+    await writeFileAtomic(entry.filePath, originalContent)
+    restored.push(entry.filePath)
+  }
+
+  // A run with skipped files stays undoable, so they can still be restored with `force`
+  if (skipped.length === 0) {
+    run.undoneAt = new Date().toISOString()
+    await writeFileAtomic(path.join(runDirectory, 'journal.json'), `${JSON.stringify(run, null, 2)}\n`)
+  }
+
+  return { run, restored, skipped }
+}
+
+function getRunsDirectory (root: string = process.cwd()): string {
+  return path.join(path.resolve(root), JOURNAL_DIRECTORY, 'runs')
+}
+
+async function readRun (runsDirectory: string, runId: string): Promise<JournalRun> {
+  const content = await fs.readFile(path.join(runsDirectory, path.basename(runId), 'journal.json'), 'utf-8')
+  return JSON.parse(content) as JournalRun
+}
+
+/**
+ * Remove the oldest runs so that at most `keep` runs remain
+ */
+async function pruneRuns (runsDirectory: string, keep: number): Promise<void> {
+  const runIds = (await fs.readdir(runsDirectory).catch(() => [] as string[])).sort()
+
+  for (const runId of runIds.slice(0, Math.max(0, runIds.length - keep))) {
+    await fs.rm(path.join(runsDirectory, runId), { recursive: true, force: true })
+  }
+}
+
+/**
+ * Run ids sort chronologically, with a random suffix for runs started in the same millisecond
+ */
+function createRunId (): string {
+  return `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`
+}
+
+function hashContent (content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
@@ -0,0 +1,7 @@
+/**
+ * Add a trailing slash to a site URL. Relative URLs resolve inside the site's
+ * path only when it ends with one.
+ */
+export function withTrailingSlash (url: string): string {
+  return url.endsWith('/') ? url : `${url}/`
+}
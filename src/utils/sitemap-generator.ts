@@ -0,0 +1,356 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { spawn } from 'node:child_process'
+import readline from 'node:readline'
+import { writeFileAtomic } from './atomic-write.js'
+import { MarkdownFrontmatterExtractor } from './markdown-frontmatter-extractor.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+import { resolveContentFiles } from './content-files.js'
+import type { ContentFileStatus, ContentFilesOptions } from './content-files.js'
+import { getPostSlug, isDraft, isFlagSet, parsePostDate } from './content-index.js'
+import { getPathValue, resolveFieldPath } from './field-paths.js'
+import { escapeXml } from './feed-formats.js'
+import { withTrailingSlash } from './site-urls.js'
+import { getErrorCode } from './errors.js'
+
+/**
+ * Most URLs a single sitemap may list, per the sitemaps.org protocol
+ */
+export const MAX_SITEMAP_URLS = 50000
+
+export const DEFAULT_PERMALINK = '/:slug/'
+
+export const DEFAULT_LASTMOD_FIELDS = ['updated', 'date']
+
+/**
+ * Placeholders a permalink pattern can contain. The date parts come from the `date` field.
+ */
+export const PERMALINK_PLACEHOLDERS = ['year', 'month', 'day', 'slug'] as const
+
+export interface SitemapEntry {
+  /** Absolute URL of the post */
+  url: string
+  lastmod?: Date
+}
+
+export interface SitemapGeneratorOptions extends ContentFilesOptions {
+  /** Absolute URL of the site, which permalinks are relative to */
+  siteUrl: string
+  /** Path of each post below the site URL, such as `/blog/:year/:slug/` (default: `/:slug/`) */
+  permalink?: string
+  /** Frontmatter fields the last modification date is read from, the first one set wins (default: updated, date) */
+  lastmodFields?: string[]
+  /** Use the time of a file's last git commit when it has none of the lastmod fields (default: true) */
+  gitLastmod?: boolean
+  /** Most URLs per sitemap before it is split into a sitemap index, a positive integer (default: 50000) */
+  maxUrls?: number
+  format?: FrontmatterFormat | 'auto'
+}
+
+export type SitemapFileStatus = ContentFileStatus<'included' | 'skipped' | 'failed'>
+
+/**
+ * Lists the URL of every published post in an XML sitemap, with the date it
+ * last changed, and splits large sites into several sitemaps and an index
+ */
+export class SitemapGenerator {
+  private patterns: string[]
+  private options: SitemapGeneratorOptions
+  private permalink: string
+  private entries: SitemapEntry[] = []
+  private statuses: SitemapFileStatus[] = []
+
+  constructor (patterns: string | string[], options: SitemapGeneratorOptions) {
+    this.patterns = Array.isArray(patterns) ? patterns : [patterns]
+    this.options = options
+    this.permalink = options.permalink ?? DEFAULT_PERMALINK
+
+    if (options.maxUrls !== undefined && !(Number.isInteger(options.maxUrls) && options.maxUrls >= 1)) {
+      throw new Error(`maxUrls must be a positive integer, got ${options.maxUrls}`)
+    }
+
+    for (const [, name] of this.permalink.matchAll(/:([a-z]+)/gi)) {
+      if (!(PERMALINK_PLACEHOLDERS as readonly string[]).includes(name!)) {
+        throw new Error(`Unknown permalink placeholder ':${name}', expected one of ${PERMALINK_PLACEHOLDERS.map(placeholder => `:${placeholder}`).join(', ')}`)
+      }
+    }
+  }
+
+  /**
+   * Collect the entries of every matched post, in file order. Drafts, posts
+   * marked `noindex` and files that fail are recorded in the file statuses.
+   */
+  async build (): Promise<SitemapEntry[]> {
+    let filePaths: string[]
+
+    try {
+      filePaths = await resolveContentFiles(this.patterns, { cwd: this.options.cwd, gitignore: this.options.gitignore })
+    } catch (error) {
+      throw new Error(`Failed to build sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+
+    this.entries = []
+    this.statuses = []
+    const withoutLastmod = new Map<string, SitemapEntry>()
+
+    for (const filePath of filePaths) {
+      try {
+        const result = await this.readEntry(filePath)
+        if (typeof result === 'string') {
+          this.statuses.push({ filePath, status: 'skipped', reason: result })
+          continue
+        }
+
+        this.entries.push(result)
+        this.statuses.push({ filePath, status: 'included' })
+        if (!result.lastmod) {
+          withoutLastmod.set(filePath, result)
+        }
+      } catch (error) {
+        this.statuses.push({ filePath, status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error', code: getErrorCode(error) })
+      }
+    }
+
+    // The commit times of all posts without a lastmod field come from one pass over the history
+    if ((this.options.gitLastmod ?? true) && withoutLastmod.size > 0) {
+      const commitDates = await getGitCommitDates([...withoutLastmod.keys()])
+      for (const [filePath, entry] of withoutLastmod) {
+        entry.lastmod = commitDates.get(filePath)
+      }
+    }
+
+    return this.entries
+  }
+
+  /**
+   * Render the entries of the last build as a single sitemap
+   */
+  render (): string {
+    if (this.entries.length > this.getMaxUrls()) {
+      throw new Error(`Failed to render sitemap: ${this.entries.length} URLs are more than one sitemap can list (${this.getMaxUrls()}), write it to a file to split it`)
+    }
+
+    return renderSitemap(this.entries)
+  }
+
+  /**
+   * Write the entries of the last build to a sitemap file. Past the URL limit,
+   * the file is a sitemap index of numbered sitemaps written next to it, such
+   * as `sitemap-1.xml`, which are expected to be published at the site URL.
+   * Returns the paths of the files written.
+   */
+  async write (filePath: string): Promise<string[]> {
+    const resolvedPath = path.resolve(filePath)
+    const maxUrls = this.getMaxUrls()
+
+    try {
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true })
+
+      if (this.entries.length <= maxUrls) {
+        await writeFileAtomic(resolvedPath, renderSitemap(this.entries))
+        return [resolvedPath]
+      }
+
+      const extension = path.extname(resolvedPath)
+      const baseName = path.basename(resolvedPath, extension)
+      const sitemaps: SitemapEntry[] = []
+      const written: string[] = []
+
+      for (let start = 0; start < this.entries.length; start += maxUrls) {
+        const entries = this.entries.slice(start, start + maxUrls)
+        const fileName = `${baseName}-${sitemaps.length + 1}${extension}`
+        const sitemapPath = path.join(path.dirname(resolvedPath), fileName)
+
+        await writeFileAtomic(sitemapPath, renderSitemap(entries))
+        sitemaps.push({ url: new URL(fileName, withTrailingSlash(this.options.siteUrl)).href, lastmod: getLatestDate(entries) })
+        written.push(sitemapPath)
+      }
+
+      await writeFileAtomic(resolvedPath, renderSitemapIndex(sitemaps))
+      return [resolvedPath, ...written]
+    } catch (error) {
+      throw new Error(`Failed to write sitemap ${resolvedPath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+    }
+  }
+
+  /**
+   * Get the entries of the last build
+   */
+  getEntries (): SitemapEntry[] {
+    return this.entries
+  }
+
+  /**
+   * Get what the last build did with each file
+   */
+  getFileStatuses (): SitemapFileStatus[] {
+    return this.statuses
+  }
+
+  /**
+   * Read the sitemap entry of a post, or the reason it is left out
+   */
+  private async readEntry (filePath: string): Promise<SitemapEntry | string> {
+    const extractor = new MarkdownFrontmatterExtractor(filePath, { format: this.options.format })
+    const data = await extractor.extract() ?? {}
+
+    if (isDraft(data)) {
+      return 'draft'
+    }
+    if (isFlagSet(data.noindex)) {
+      return 'noindex'
+    }
+
+    const date = parsePostDate(data.date)
+    const values: Record<(typeof PERMALINK_PLACEHOLDERS)[number], string | undefined> = {
+      year: date ? String(date.getUTCFullYear()) : undefined,
+      month: date ? String(date.getUTCMonth() + 1).padStart(2, '0') : undefined,
+      day: date ? String(date.getUTCDate()).padStart(2, '0') : undefined,
+      slug: getPostSlug(filePath, data).split('/').map(encodeURIComponent).join('/')
+    }
+
+    let missing = false
+    const permalink = this.permalink.replace(/:([a-z]+)/gi, (_, name: keyof typeof values) => {
+      missing ||= values[name] === undefined
+      return values[name] ?? ''
+    })
+
+    // Only the date parts can be missing
+    if (missing) {
+      return 'no valid date field for the permalink'
+    }
+
+    return {
+      url: new URL(permalink.replace(/^\/+/, ''), withTrailingSlash(this.options.siteUrl)).href,
+      lastmod: this.getLastmod(data) ?? undefined
+    }
+  }
+
+  private getLastmod (data: Record<string, unknown>): Date | null {
+    for (const field of this.options.lastmodFields ?? DEFAULT_LASTMOD_FIELDS) {
+      const date = parsePostDate(getPathValue(data, resolveFieldPath(data, field)))
+      if (date) {
+        return date
+      }
+    }
+
+    return null
+  }
+
+  private getMaxUrls (): number {
+    return Math.min(this.options.maxUrls ?? MAX_SITEMAP_URLS, MAX_SITEMAP_URLS)
+  }
+}
+
+/**
+ * Render entries as a sitemaps.org `urlset`
+ */
+export function renderSitemap (entries: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.flatMap(entry => [
+      '  <url>',
+      `    <loc>${escapeXml(entry.url)}</loc>`,
+      ...(entry.lastmod ? [`    <lastmod>${formatLastmod(entry.lastmod)}</lastmod>`] : []),
+      '  </url>'
+    ]),
+    '</urlset>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Render a sitemap index listing the URL of each sitemap and when it last changed
+ */
+export function renderSitemapIndex (sitemaps: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.flatMap(sitemap => [
+      '  <sitemap>',
+      `    <loc>${escapeXml(sitemap.url)}</loc>`,
+      ...(sitemap.lastmod ? [`    <lastmod>${formatLastmod(sitemap.lastmod)}</lastmod>`] : []),
+      '  </sitemap>'
+    ]),
+    '</sitemapindex>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Get the time of the last git commit that changed each file, reading the
+ * history of each repository the files are in once. Files that are not
+ * committed or not in a repository, and all files when git is not installed,
+ * get no time.
+ */
+async function getGitCommitDates (filePaths: string[]): Promise<Map<string, Date>> {
+  const roots = new Map<string, string | null>()
+  const repositories = new Map<string, Map<string, string>>()
+
+  for (const filePath of filePaths) {
+    const root = await findGitRoot(path.dirname(filePath), roots)
+    if (root) {
+      const files = repositories.get(root) ?? new Map<string, string>()
+      files.set(path.relative(root, filePath).split(path.sep).join('/'), filePath)
+      repositories.set(root, files)
+    }
+  }
+
+  const dates = new Map<string, Date>()
+  for (const [root, files] of repositories) {
+    await readGitCommitDates(root, files, dates)
+  }
+
+  return dates
+}
+
+/**
+ * Read `git log` newest first, so the first commit listing a file is the last one that changed it.
+ * `files` maps paths relative to the repository to the file paths the dates are stored under.
+ */
+async function readGitCommitDates (root: string, files: Map<string, string>, dates: Map<string, Date>): Promise<void> {
+  const git = spawn('git', ['-c', 'core.quotePath=false', 'log', '--format=%x00%cI', '--name-only'], { cwd: root, stdio: ['ignore', 'pipe', 'ignore'] })
+  const remaining = new Set(files.keys())
+  let date: Date | null = null
+
+  // A missing git binary ends the output without any commits
+  git.on('error', () => {})
+
+  try {
+    for await (const line of readline.createInterface({ input: git.stdout })) {
+      if (line.startsWith('\0')) {
+        date = parsePostDate(line.slice(1))
+      } else if (date && remaining.delete(line)) {
+        dates.set(files.get(line)!, date)
+        if (remaining.size === 0) {
+          break
+        }
+      }
+    }
+  } finally {
+    git.kill()
+  }
+}
+
+async function findGitRoot (directory: string, roots: Map<string, string | null>): Promise<string | null> {
+  if (!roots.has(directory)) {
+    const isRoot = await fs.stat(path.join(directory, '.git')).then(() => true, () => false)
+    const parent = path.dirname(directory)
+    roots.set(directory, isRoot ? directory : parent === directory ? null : await findGitRoot(parent, roots))
+  }
+
+  return roots.get(directory) ?? null
+}
+
+/**
+ * Dates without a time, such as `date: 2024-03-01`, are written as a plain date
+ */
+function formatLastmod (date: Date): string {
+  const iso = date.toISOString()
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : `${iso.slice(0, 19)}Z`
+}
+
+function getLatestDate (entries: SitemapEntry[]): Date | undefined {
+  return entries.reduce<Date | undefined>((latest, entry) => entry.lastmod && (!latest || entry.lastmod > latest) ? entry.lastmod : latest, undefined)
+}
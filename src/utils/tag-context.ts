@@ -0,0 +1,157 @@
+import type { ContentTree } from './markdown-content.js'
+
+/**
+ * Which parts of a post are sent to the model when generating tags
+ */
+export type TagContentSource = 'frontmatter' | 'body' | 'both'
+
+export const TAG_CONTENT_SOURCES: readonly TagContentSource[] = ['frontmatter', 'body', 'both']
+
+export interface ContentSummary {
+  /** Headings and prose in document order, one block per line */
+  text: string
+  /** Languages of fenced code blocks, in order of first use */
+  codeLanguages: string[]
+}
+
+export interface TagContextInput {
+  frontmatter: Record<string, unknown> | null
+  summary: ContentSummary | null
+}
+
+/**
+ * Approximate characters per token, close enough for budgeting across common tokenizers
+ */
+const CHARS_PER_TOKEN = 4
+
+export type ContentNode = ContentTree | ContentTree['children'][number]
+
+/**
+ * Node types that never carry prose worth tagging
+ */
+const SKIPPED_NODE_TYPES = new Set(['html', 'yaml', 'toml', 'mdxjsEsm', 'mdxFlowExpression', 'mdxTextExpression', 'definition', 'thematicBreak'])
+
+/**
+ * Strip a parsed document down to its headings, prose and code-fence languages.
+ * Code itself, HTML, imports and expressions are dropped.
+ */
+export function summarizeContent (tree: ContentTree): ContentSummary {
+  const blocks: string[] = []
+  const codeLanguages = new Set<string>()
+
+  const visit = (node: ContentNode): void => {
+    if (SKIPPED_NODE_TYPES.has(node.type)) {
+      return
+    }
+
+    switch (node.type) {
+      case 'heading':
+        blocks.push(`${'#'.repeat(node.depth)} ${getNodeText(node)}`)
+        return
+      case 'paragraph':
+      case 'tableRow':
+        blocks.push(getNodeText(node))
+        return
+      case 'code':
+        if (node.lang) {
+          codeLanguages.add(node.lang.toLowerCase())
+        }
+        return
+    }
+
+    if ('children' in node) {
+      for (const child of node.children) {
+        visit(child as ContentNode)
+      }
+    }
+  }
+
+  visit(tree)
+
+  return {
+    text: blocks.map(block => block.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n'),
+    codeLanguages: [...codeLanguages]
+  }
+}
+
+/**
+ * Get the text of a node and its descendants, leaving out HTML and MDX expressions
+ */
+export function getNodeText (node: ContentNode): string {
+  if (SKIPPED_NODE_TYPES.has(node.type)) {
+    return ''
+  }
+
+  if ('value' in node) {
+    return node.value
+  }
+
+  if ('children' in node) {
+    return node.children.map(child => getNodeText(child as ContentNode)).join('')
+  }
+
+  return ''
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens (text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Cut a text down to a token budget, at a word boundary where possible
+ */
+export function truncateToTokenBudget (text: string, tokenBudget: number): string {
+  if (estimateTokens(text) <= tokenBudget) {
+    return text
+  }
+
+  const cut = text.slice(0, Math.max(0, tokenBudget * CHARS_PER_TOKEN))
+  const lastSpace = cut.search(/\s\S*$/)
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+}
+
+export interface TagPromptOptions {
+  source?: TagContentSource
+  bodyTokenBudget?: number
+  /** Tags the model should choose from */
+  allowedTags?: string[]
+  /** Let the model suggest tags outside `allowedTags` when none fits */
+  allowNewTags?: boolean
+}
+
+/**
+ * Build the prompt that describes a post to the model, from its frontmatter,
+ * its body summary or both. The body is cut to the token budget.
+ */
+export function buildTagPrompt (input: TagContextInput, options: TagPromptOptions = {}): string {
+  const source = options.source ?? 'both'
+  const sections: string[] = []
+
+  if (source !== 'body' && input.frontmatter && Object.keys(input.frontmatter).length > 0) {
+    sections.push(`Frontmatter:\n${JSON.stringify(input.frontmatter, null, 2)}`)
+  }
+
+  if (source !== 'frontmatter' && input.summary) {
+    if (input.summary.text) {
+      sections.push(`Article:\n${truncateToTokenBudget(input.summary.text, options.bodyTokenBudget ?? 1000)}`)
+    }
+    if (input.summary.codeLanguages.length > 0) {
+      sections.push(`Code languages: ${input.summary.codeLanguages.join(', ')}`)
+    }
+  }
+
+  if (sections.length === 0) {
+    sections.push('No content available')
+  }
+
+  if (options.allowedTags && options.allowedTags.length > 0) {
+    sections.push(options.allowNewTags
+      ? `Existing tags (prefer these, suggest a new tag only when none of them fits): ${options.allowedTags.join(', ')}`
+      : `Allowed tags (choose only from these): ${options.allowedTags.join(', ')}`)
+  }
+
+  return sections.join('\n\n')
+}
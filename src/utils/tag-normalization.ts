@@ -0,0 +1,102 @@
+/**
+ * How generated tags are combined with the tags a post already has
+ */
+export type TagStrategy = 'replace' | 'merge' | 'fill-missing'
+
+export const TAG_STRATEGIES: readonly TagStrategy[] = ['replace', 'merge', 'fill-missing']
+
+export type TagCase = 'preserve' | 'lowercase' | 'kebab-case'
+
+export const TAG_CASES: readonly TagCase[] = ['preserve', 'lowercase', 'kebab-case']
+
+export interface TagNormalizationOptions {
+  /** Case rule applied to every tag (default: preserve) */
+  case?: TagCase
+  /** Tags replaced by another tag, matched case-insensitively, such as `js` to `javascript` */
+  synonyms?: Record<string, string>
+  /** Fewest tags a post may have, fewer tags fail the update */
+  minCount?: number
+  /** Most tags a post may have, later tags are dropped */
+  maxCount?: number
+}
+
+/**
+ * Normalize a list of tags: trim, replace synonyms, apply the case rule,
+ * drop duplicates that differ only in case, and enforce the tag counts.
+ * Values that are not strings are dropped.
+ */
+export function normalizeTags (tags: unknown[], options: TagNormalizationOptions = {}): string[] {
+  const synonyms = new Map(Object.entries(options.synonyms ?? {}).map(([from, to]) => [from.trim().toLowerCase(), to]))
+  const normalized = new Map<string, string>()
+
+  for (const value of tags) {
+    if (typeof value !== 'string' || !value.trim()) {
+      continue
+    }
+
+    const trimmed = value.trim()
+    const tag = applyTagCase(synonyms.get(trimmed.toLowerCase()) ?? trimmed, options.case ?? 'preserve')
+    if (tag && !normalized.has(tag.toLowerCase())) {
+      normalized.set(tag.toLowerCase(), tag)
+    }
+  }
+
+  const result = [...normalized.values()].slice(0, options.maxCount)
+
+  if (options.minCount !== undefined && result.length < options.minCount) {
+    throw new Error(`Expected at least ${options.minCount} tag(s), got ${result.length}${result.length > 0 ? `: ${result.join(', ')}` : ''}`)
+  }
+
+  return result
+}
+
+/**
+ * Normalize a tags field value. A list is normalized as a whole, a single
+ * string as one tag, and other values are returned as they are.
+ */
+export function normalizeTagValue (value: unknown, options: TagNormalizationOptions = {}): unknown {
+  if (Array.isArray(value)) {
+    return normalizeTags(value, options)
+  }
+
+  if (typeof value === 'string') {
+    return normalizeTags([value], { ...options, minCount: undefined })[0] ?? value
+  }
+
+  return value
+}
+
+/**
+ * Get the tags of a post as a list, whether they are stored as a list or a single string
+ */
+export function getExistingTags (frontmatter: Record<string, unknown> | null): string[] {
+  const value = frontmatter?.tags
+  const tags = Array.isArray(value) ? value : [value]
+  return tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '')
+}
+
+/**
+ * Combine existing and generated tags with a strategy. Returns null when
+ * `fill-missing` leaves a post that already has tags alone.
+ */
+export function mergeTags (existingTags: string[], generatedTags: string[], strategy: TagStrategy = 'replace'): string[] | null {
+  switch (strategy) {
+    case 'merge':
+      return [...existingTags, ...generatedTags]
+    case 'fill-missing':
+      return existingTags.length > 0 ? null : generatedTags
+    default:
+      return generatedTags
+  }
+}
+
+function applyTagCase (tag: string, tagCase: TagCase): string {
+  switch (tagCase) {
+    case 'lowercase':
+      return tag.toLowerCase()
+    case 'kebab-case':
+      return tag.toLowerCase().replace(/[\s_]+/g, '-').replace(/-{2,}/g, '-').replace(/^-|-$/g, '')
+    default:
+      return tag
+  }
+}
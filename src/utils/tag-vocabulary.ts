@@ -0,0 +1,192 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { MarkdownFrontmatterExtractor } from './markdown-frontmatter-extractor.js'
+import { resolveContentFiles } from './content-files.js'
+import { DEFAULT_TECHNOLOGY_TERMS } from './local-tags.js'
+import type { FrontmatterFormat } from './frontmatter-formats.js'
+
+export interface TagVocabularyOptions {
+  /** Technology terms added to the built-in mapping, used to map aliases such as `node` to a tag */
+  terms?: Record<string, string>
+}
+
+export interface ConstrainedTags {
+  /** Tags to write, in the order the provider returned them */
+  tags: string[]
+  /** Tags outside the vocabulary that were kept because new tags are allowed */
+  proposed: string[]
+  /** Tags outside the vocabulary that were dropped */
+  rejected: string[]
+  /** Tags replaced by their closest match in the vocabulary */
+  mapped: Array<{ from: string, to: string }>
+}
+
+/**
+ * The set of tags posts may use, with lookup of the closest allowed tag
+ */
+export class TagVocabulary {
+  private tags: string[]
+  private keys = new Map<string, string>()
+  private terms: Map<string, string>
+
+  constructor (tags: Iterable<string>, options: TagVocabularyOptions = {}) {
+    this.terms = new Map(
+      Object.entries({ ...DEFAULT_TECHNOLOGY_TERMS, ...options.terms }).map(([term, tag]) => [normalizeTag(term), normalizeTag(tag)])
+    )
+    this.tags = []
+
+    for (const tag of tags) {
+      const key = this.getKey(tag)
+      if (key && !this.keys.has(key)) {
+        this.keys.set(key, tag)
+        this.tags.push(tag)
+      }
+    }
+  }
+
+  /**
+   * Get the allowed tags, sorted
+   */
+  getTags (): string[] {
+    return [...this.tags].sort((a, b) => a.localeCompare(b))
+  }
+
+  /**
+   * Get the allowed tag a tag stands for: the same tag written differently,
+   * a known alias, or a close misspelling. Returns null when nothing is close.
+   */
+  match (tag: string): string | null {
+    const key = this.getKey(tag)
+    const exact = this.keys.get(key)
+    if (exact !== undefined) {
+      return exact
+    }
+
+    let closest: string | null = null
+    let closestDistance = Infinity
+    for (const [candidateKey, candidate] of this.keys) {
+      const distance = getEditDistance(key, candidateKey)
+      if (distance <= Math.floor(Math.max(key.length, candidateKey.length) / 4) && distance < closestDistance) {
+        closest = candidate
+        closestDistance = distance
+      }
+    }
+
+    return closest
+  }
+
+  /**
+   * Map tags onto the vocabulary. Tags without a match are dropped, or kept
+   * as proposals for review when `allowNew` is set.
+   */
+  constrain (tags: string[], options: { allowNew?: boolean } = {}): ConstrainedTags {
+    const result: ConstrainedTags = { tags: [], proposed: [], rejected: [], mapped: [] }
+
+    for (const tag of tags) {
+      const match = this.match(tag)
+
+      if (match === null) {
+        if (options.allowNew) {
+          result.proposed.push(tag)
+          result.tags.push(tag)
+        } else {
+          result.rejected.push(tag)
+        }
+        continue
+      }
+
+      if (match !== tag) {
+        result.mapped.push({ from: tag, to: match })
+      }
+      result.tags.push(match)
+    }
+
+    result.tags = [...new Set(result.tags)]
+    return result
+  }
+
+  /**
+   * Case, punctuation and known aliases do not make a tag different
+   */
+  private getKey (tag: string): string {
+    const normalized = normalizeTag(tag)
+    return this.terms.get(normalized) ?? normalized
+  }
+}
+
+/**
+ * Build the vocabulary from the tags the content files already use. Files
+ * that cannot be read or parsed are left out.
+ */
+export async function collectTagVocabulary (
+  patterns: string | string[],
+  options: TagVocabularyOptions & { format?: FrontmatterFormat | 'auto', field?: string } = {}
+): Promise<TagVocabulary> {
+  const field = options.field ?? 'tags'
+  const tags: string[] = []
+
+  for (const filePath of await resolveContentFiles(patterns)) {
+    try {
+      const frontmatter = await new MarkdownFrontmatterExtractor(filePath, { format: options.format }).extract()
+      const value = frontmatter?.[field]
+      for (const tag of Array.isArray(value) ? value : [value]) {
+        if (typeof tag === 'string' && tag.trim()) {
+          tags.push(tag.trim())
+        }
+      }
+    } catch {
+      // A broken file should not stop building the vocabulary
+    }
+  }
+
+  return new TagVocabulary(tags, options)
+}
+
+/**
+ * Load an allowlist file: a JSON array of tags, or one tag per line with `#` comment lines
+ */
+export async function loadTagVocabulary (filePath: string, options: TagVocabularyOptions = {}): Promise<TagVocabulary> {
+  const resolvedPath = path.resolve(filePath)
+
+  try {
+    const content = await fs.readFile(resolvedPath, 'utf-8')
+
+    if (path.extname(resolvedPath) === '.json') {
+      const data: unknown = JSON.parse(content)
+      if (!Array.isArray(data) || !data.every(tag => typeof tag === 'string')) {
+        throw new Error('Expected a JSON array of strings')
+      }
+      return new TagVocabulary(data, options)
+    }
+
+    const tags = content.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+    return new TagVocabulary(tags, options)
+  } catch (error) {
+    throw new Error(`Failed to load tag vocabulary from ${resolvedPath}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error })
+  }
+}
+
+function normalizeTag (tag: string): string {
+  return tag.toLowerCase().replace(/[^a-z0-9+#]/g, '')
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function getEditDistance (a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]!
+}
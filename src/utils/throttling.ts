@@ -0,0 +1,189 @@
+/**
+ * Length of the window the per-minute limits are counted over
+ */
+const RATE_WINDOW_MS = 60_000
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429])
+
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'])
+
+export interface RateLimits {
+  requestsPerMinute?: number
+  tokensPerMinute?: number
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  retries?: number
+  /** Delay before the first retry, doubled for every following retry (default: 1000 ms) */
+  initialDelay?: number
+  /** Longest delay between retries, unless the server asks for a longer one (default: 30000 ms) */
+  maxDelay?: number
+  /** Called before waiting for a retry */
+  onRetry?: (error: unknown, attempt: number, delay: number) => void
+}
+
+type Sleep = (ms: number) => Promise<void>
+
+const defaultSleep: Sleep = ms => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Holds requests back until they fit the requests-per-minute and
+ * tokens-per-minute limits over a sliding one-minute window
+ */
+export class RateLimiter {
+  private limits: RateLimits
+  private now: () => number
+  private sleep: Sleep
+  private requests: Array<{ time: number, tokens: number }> = []
+
+  constructor (limits: RateLimits, options: { now?: () => number, sleep?: Sleep } = {}) {
+    this.limits = limits
+    this.now = options.now ?? Date.now
+    this.sleep = options.sleep ?? defaultSleep
+  }
+
+  /**
+   * Wait until a request using about `tokens` tokens fits the limits, then count it.
+   * A request larger than the token limit on its own waits for an empty window.
+   */
+  async acquire (tokens = 0): Promise<void> {
+    for (;;) {
+      const now = this.now()
+      this.requests = this.requests.filter(request => request.time > now - RATE_WINDOW_MS)
+
+      const usedTokens = this.requests.reduce((sum, request) => sum + request.tokens, 0)
+      const fitsRequests = this.limits.requestsPerMinute === undefined || this.requests.length < this.limits.requestsPerMinute
+      const fitsTokens = this.limits.tokensPerMinute === undefined || this.requests.length === 0 ||
+        usedTokens + tokens <= this.limits.tokensPerMinute
+
+      if (fitsRequests && fitsTokens) {
+        this.requests.push({ time: now, tokens })
+        return
+      }
+
+      // Wait for the oldest request to leave the window
+      await this.sleep(this.requests[0]!.time + RATE_WINDOW_MS - now)
+    }
+  }
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff.
+ * A `Retry-After` header on the error sets the delay instead.
+ */
+export async function withRetry<T> (operation: () => Promise<T>, options: RetryOptions & { sleep?: Sleep } = {}): Promise<T> {
+  const retries = options.retries ?? 3
+  const sleep = options.sleep ?? defaultSleep
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error
+      }
+
+      const delay = getRetryAfter(error) ?? Math.min(options.maxDelay ?? 30_000, (options.initialDelay ?? 1000) * 2 ** attempt)
+      options.onRetry?.(error, attempt + 1, delay)
+      await sleep(delay)
+    }
+  }
+}
+
+/**
+ * Check whether an error is worth retrying: rate limits, timeouts, server
+ * errors and dropped connections. The error's cause chain is checked too.
+ */
+export function isRetryableError (error: unknown): boolean {
+  for (const candidate of getErrorChain(error)) {
+    if (typeof candidate.isRetryable === 'boolean') {
+      return candidate.isRetryable
+    }
+
+    const status = candidate.statusCode ?? candidate.status
+    if (typeof status === 'number') {
+      return RETRYABLE_STATUS_CODES.has(status) || status >= 500
+    }
+
+    if (typeof candidate.code === 'string' && RETRYABLE_ERROR_CODES.has(candidate.code)) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Get the delay in milliseconds a server asked for with a `retry-after-ms`
+ * or `Retry-After` header, in seconds or as an HTTP date
+ */
+export function getRetryAfter (error: unknown): number | undefined {
+  for (const candidate of getErrorChain(error)) {
+    const headers = candidate.responseHeaders
+    if (!headers) {
+      continue
+    }
+
+    const retryAfterMs = Number.parseFloat(headers['retry-after-ms'] ?? '')
+    if (!Number.isNaN(retryAfterMs) && retryAfterMs >= 0) {
+      return retryAfterMs
+    }
+
+    const retryAfter = headers['retry-after']
+    if (retryAfter !== undefined) {
+      const seconds = Number.parseFloat(retryAfter)
+      const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000
+      if (!Number.isNaN(ms)) {
+        return Math.max(0, ms)
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Run a task for every item with at most `concurrency` tasks at a time.
+ * Results keep the order of the items.
+ */
+export async function mapWithConcurrency<T, R> (items: readonly T[], concurrency: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await task(items[index]!, index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker))
+  return results
+}
+
+interface ErrorDetails {
+  isRetryable?: unknown
+  statusCode?: unknown
+  status?: unknown
+  code?: unknown
+  responseHeaders?: Record<string, string | undefined>
+  cause?: unknown
+  lastError?: unknown
+}
+
+/**
+ * The error followed by its causes, and the last error of AI SDK retry errors
+ */
+function getErrorChain (error: unknown): ErrorDetails[] {
+  const chain: ErrorDetails[] = []
+  let current = error
+
+  while (typeof current === 'object' && current !== null && !chain.includes(current as ErrorDetails) && chain.length < 10) {
+    const details = current as ErrorDetails
+    chain.push(details)
+    current = details.lastError ?? details.cause
+  }
+
+  return chain
+}